@@ -22,6 +22,7 @@ async function main() {
         name: "Légumes",
         color: "#22c55e",
         icon: "🥬",
+        defaultExpiryDays: 7,
       },
     }),
     prisma.category.upsert({
@@ -31,6 +32,7 @@ async function main() {
         name: "Fruits",
         color: "#f59e0b",
         icon: "🍎",
+        defaultExpiryDays: 7,
       },
     }),
     prisma.category.upsert({
@@ -40,6 +42,7 @@ async function main() {
         name: "Viandes & Poissons",
         color: "#ef4444",
         icon: "🥩",
+        defaultExpiryDays: 3,
       },
     }),
     prisma.category.upsert({
@@ -49,6 +52,7 @@ async function main() {
         name: "Produits laitiers",
         color: "#3b82f6",
         icon: "🧀",
+        defaultExpiryDays: 10,
       },
     }),
     prisma.category.upsert({
@@ -75,6 +79,7 @@ async function main() {
         protein: 0.9,
         carbs: 3.9,
         fat: 0.2,
+        pieceWeight: 120,
       },
     }),
     prisma.ingredient.upsert({
@@ -87,6 +92,7 @@ async function main() {
         protein: 1.1,
         carbs: 9.3,
         fat: 0.1,
+        pieceWeight: 100,
       },
     }),
     prisma.ingredient.upsert({
@@ -99,6 +105,7 @@ async function main() {
         protein: 0.9,
         carbs: 9.6,
         fat: 0.2,
+        pieceWeight: 80,
       },
     }),
     prisma.ingredient.upsert({
@@ -111,6 +118,7 @@ async function main() {
         protein: 2.0,
         carbs: 17.5,
         fat: 0.1,
+        pieceWeight: 150,
       },
     }),
     // Fruits
@@ -124,6 +132,7 @@ async function main() {
         protein: 0.3,
         carbs: 13.8,
         fat: 0.2,
+        pieceWeight: 150,
       },
     }),
     prisma.ingredient.upsert({
@@ -136,6 +145,7 @@ async function main() {
         protein: 1.1,
         carbs: 22.8,
         fat: 0.3,
+        pieceWeight: 120,
       },
     }),
     // Viandes
@@ -161,6 +171,7 @@ async function main() {
         protein: 25.4,
         carbs: 0.0,
         fat: 12.4,
+        allergens: ["fish"],
       },
     }),
     // Produits laitiers
@@ -174,6 +185,8 @@ async function main() {
         protein: 3.4,
         carbs: 5.0,
         fat: 1.0,
+        density: 1.03,
+        allergens: ["milk"],
       },
     }),
     prisma.ingredient.upsert({
@@ -186,6 +199,7 @@ async function main() {
         protein: 7.0,
         carbs: 1.0,
         fat: 9.0,
+        allergens: ["milk"],
       },
     }),
     // Céréales
@@ -211,6 +225,7 @@ async function main() {
         protein: 5.0,
         carbs: 25.0,
         fat: 1.1,
+        allergens: ["gluten"],
       },
     }),
   ]);
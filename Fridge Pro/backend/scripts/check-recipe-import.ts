@@ -0,0 +1,57 @@
+// ici on vérifie l'analyse des pages de recettes sur les fixtures (sans base de données)
+
+import { deepStrictEqual, ok } from "assert/strict";
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import {
+  extractRecipeJsonLd,
+  parseIngredientLine,
+  parseIsoDuration,
+} from "../src/services/recipeImportService";
+
+const fixture = (name: string) =>
+  readFileSync(resolve(__dirname, "../fixtures/recipes", name), "utf-8");
+
+function main() {
+  const recipe = extractRecipeJsonLd(fixture("quiche-lorraine.html"));
+  ok(recipe, "Recette schema.org introuvable dans le @graph");
+  deepStrictEqual(recipe.name, "Quiche lorraine facile");
+
+  deepStrictEqual(parseIsoDuration(recipe.prepTime), 20);
+  deepStrictEqual(parseIsoDuration(recipe.cookTime), 45);
+  deepStrictEqual(parseIsoDuration(recipe.totalTime), 65);
+
+  const lines = (recipe.recipeIngredient as string[]).map(parseIngredientLine);
+  deepStrictEqual(
+    lines.map(({ name, quantity, unit, notes }) => ({
+      name,
+      quantity,
+      unit,
+      notes,
+    })),
+    [
+      { name: "pâte brisée", quantity: 1, unit: "pièce", notes: null },
+      { name: "lardons fumés", quantity: 200, unit: "g", notes: null },
+      { name: "œufs", quantity: 3, unit: "pièce", notes: null },
+      { name: "crème fraîche épaisse", quantity: 20, unit: "cl", notes: null },
+      { name: "lait", quantity: 25, unit: "cl", notes: null },
+      {
+        name: "noix de muscade",
+        quantity: 0.5,
+        unit: "c. à café",
+        notes: "râpée",
+      },
+      { name: "sel", quantity: 1, unit: "pincée", notes: null },
+      { name: "poivre", quantity: null, unit: "pièce", notes: null },
+    ]
+  );
+
+  console.log("✅ quiche-lorraine.html analysée comme attendu");
+}
+
+try {
+  main();
+} catch (error) {
+  console.error("❌ Analyse de recette inattendue :", error);
+  process.exit(1);
+}
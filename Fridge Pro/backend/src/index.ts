@@ -12,6 +12,13 @@ import fridgeRoutes from "./routes/fridge";
 import recipeRoutes from "./routes/recipes";
 import shoppingListRoutes from "./routes/shopping-lists";
 import aiRoutes from "./routes/ai";
+import notificationRoutes from "./routes/notifications";
+import mealPlanRoutes from "./routes/meal-plans";
+import journalRoutes from "./routes/journal";
+import householdRoutes from "./routes/households";
+
+// Tâches planifiées
+import { startExpiryAlertJob } from "./services/expiryAlertService";
 
 // Middleware d'erreur
 import { errorHandler } from "./middleware/errorHandler";
@@ -57,6 +64,10 @@ app.use("/api/fridge", fridgeRoutes);
 app.use("/api/recipes", recipeRoutes);
 app.use("/api/shopping-lists", shoppingListRoutes);
 app.use("/api/ai", aiRoutes);
+app.use("/api/notifications", notificationRoutes);
+app.use("/api/meal-plans", mealPlanRoutes);
+app.use("/api/journal", journalRoutes);
+app.use("/api/households", householdRoutes);
 
 // Route de santé
 app.get("/api/health", (req, res) => {
@@ -82,6 +93,8 @@ async function startServer() {
       console.log(`🚀 Serveur démarré sur http://localhost:${port}`);
       console.log(`📚 API Health check: http://localhost:${port}/api/health`);
     });
+
+    startExpiryAlertJob();
   } catch (error) {
     console.error("❌ Erreur de démarrage du serveur:", error);
     process.exit(1);
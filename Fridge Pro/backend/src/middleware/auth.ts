@@ -4,6 +4,10 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { PrismaClient } from "@prisma/client";
+import {
+  ActiveHousehold,
+  ensureActiveHousehold,
+} from "../services/householdService";
 
 const prisma = new PrismaClient();
 
@@ -16,11 +20,14 @@ export interface AuthenticatedRequest extends Request {
     firstName: string;
     lastName: string;
   };
+  // Foyer actif : frigo et listes de courses partagés
+  householdId?: string;
+  household?: ActiveHousehold;
 }
 
 /**
  * Vérifie l'en-tête Authorization, valide le token JWT
- * et injecte l'utilisateur Prisma dans la requête.
+ * et injecte l'utilisateur Prisma et son foyer actif dans la requête.
  */
 export const authenticateToken = async (
   req: AuthenticatedRequest,
@@ -52,6 +59,7 @@ export const authenticateToken = async (
         email: true,
         firstName: true,
         lastName: true,
+        activeHouseholdId: true,
       },
     });
 
@@ -62,9 +70,17 @@ export const authenticateToken = async (
       });
     }
 
+    const { activeHouseholdId, ...profile } = user;
+    const household = await ensureActiveHousehold(prisma, {
+      ...profile,
+      activeHouseholdId,
+    });
+
     // Ajouter l'utilisateur à la requête pour les middlewares/controllers suivants
     req.userId = user.id;
-    req.user = user;
+    req.user = profile;
+    req.householdId = household.id;
+    req.household = household;
 
     next();
   } catch (error) {
@@ -81,3 +97,21 @@ export const authenticateToken = async (
     });
   }
 };
+
+/**
+ * EventSource ne permet pas d'envoyer d'en-tête : pour les flux SSE, le token
+ * peut être passé en paramètre `access_token`.
+ */
+export const allowQueryToken = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const token = req.query.access_token;
+
+  if (!req.headers.authorization && typeof token === "string") {
+    req.headers.authorization = `Bearer ${token}`;
+  }
+
+  next();
+};
@@ -1,13 +1,29 @@
 // Routes liées aux fonctionnalités IA : extraction de tickets et génération de recettes.
 import { Router } from "express";
 import multer from "multer";
-import { PrismaClient } from "@prisma/client";
+import { Ingredient, PrismaClient } from "@prisma/client";
 import { z } from "zod";
 import { AuthenticatedRequest, authenticateToken } from "../middleware/auth";
+import { createApiError } from "../middleware/errorHandler";
 import {
   analyzeReceiptImage,
   generateRecipeFromPrompt,
 } from "../services/geminiService";
+import { normalizeUnit } from "../services/unitService";
+import { combineRecipeLines } from "../services/recipeMatchingService";
+import { stockIngredient } from "../services/stockService";
+import { matchIngredientLines } from "../services/recipeImportService";
+import { findOrCreateIngredient } from "../services/ingredientCatalogService";
+import { dateString, parseDay } from "../services/dayService";
+import {
+  allergenLabels,
+  computeRecipeAllergens,
+  guessAllergens,
+} from "../services/allergenService";
+import {
+  computeRecipeDiet,
+  dietaryProfileLabels,
+} from "../services/dietService";
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -29,7 +45,8 @@ const upload = multer({
 
 /**
  * POST /ai/extract-receipt
- * Analyse un ticket de caisse et alimente le frigo utilisateur.
+ * Analyse un ticket de caisse et renvoie un brouillon de lignes rapprochées
+ * du catalogue (ingrédient proposé, confiance, unité), sans toucher au frigo.
  */
 router.post(
   "/extract-receipt",
@@ -78,95 +95,45 @@ router.post(
         });
       }
 
-      const userId = req.userId!;
-      const itemsMap = new Map<
-        string,
-        Awaited<ReturnType<typeof prisma.fridgeItem.upsert>>
-      >();
-
-      // Pour chaque ligne détectée sur le ticket, on crée/actualise l'ingrédient
-      for (const item of analysis.items) {
-        const name = item.name?.trim();
-        if (!name) {
-          continue;
-        }
-
-        const quantityValue =
-          typeof item.quantity === "number"
-            ? item.quantity
-            : parseFloat(
-                String(item.quantity ?? "")
-                  .replace(",", ".")
-                  .replace(/[^0-9.]/g, "")
-              );
-        const quantity =
-          Number.isFinite(quantityValue) && quantityValue > 0
-            ? quantityValue
-            : 1;
-
-        const unit = item.unit?.trim() || "pièce";
-        const notes = item.notes?.trim() || undefined;
-
-        let ingredient = await prisma.ingredient.findFirst({
-          where: {
-            name: {
-              equals: name,
-              mode: "insensitive",
-            },
-          },
-        });
-
-        if (!ingredient) {
-          ingredient = await prisma.ingredient.create({
-            data: {
-              name,
-            },
-          });
-        }
+      const lines = analysis.items
+        .map((item) => {
+          const name = item.name?.trim();
+          if (!name) {
+            return null;
+          }
 
-        const fridgeItem = await prisma.fridgeItem.upsert({
-          where: {
-            userId_ingredientId: {
-              userId,
-              ingredientId: ingredient.id,
-            },
-          },
-          create: {
-            userId,
-            ingredientId: ingredient.id,
-            quantity,
-            unit,
-            notes,
-          },
-          update: {
-            quantity: {
-              increment: quantity,
-            },
-            unit,
-            ...(notes ? { notes } : {}),
-          },
-          include: {
-            ingredient: {
-              include: {
-                category: true,
-              },
-            },
-          },
-        });
+          const quantityValue =
+            typeof item.quantity === "number"
+              ? item.quantity
+              : parseFloat(
+                  String(item.quantity ?? "")
+                    .replace(",", ".")
+                    .replace(/[^0-9.]/g, "")
+                );
 
-        itemsMap.set(fridgeItem.ingredientId, fridgeItem);
-      }
+          return {
+            raw: name,
+            name,
+            quantity:
+              Number.isFinite(quantityValue) && quantityValue > 0
+                ? quantityValue
+                : 1,
+            unit: normalizeUnit(item.unit?.trim() || "pièce"),
+            notes: item.notes?.trim() || null,
+          };
+        })
+        .filter((line): line is NonNullable<typeof line> => line !== null);
 
-      const addedItems = Array.from(itemsMap.values());
+      // Rien n'est rangé ici : les lignes sont relues puis validées via /commit
+      const draftLines = await matchIngredientLines(prisma, lines);
 
       return res.json({
         success: true,
         data: {
-          items: addedItems,
-          addedCount: addedItems.length,
-          message: `${addedItems.length} ingrédient(s) ajouté(s) ou mis à jour depuis le ticket.`,
+          lines: draftLines,
+          message: `${draftLines.length} ligne(s) détectée(s) sur le ticket, à vérifier avant l'ajout au frigo.`,
         },
-        message: "Ticket traité avec succès.",
+        message: "Ticket analysé avec succès.",
       });
     } catch (error) {
       if (
@@ -183,6 +150,108 @@ router.post(
   }
 );
 
+const commitReceiptSchema = z.object({
+  lines: z
+    .array(
+      z
+        .object({
+          ingredientId: z.string().optional(),
+          name: z.string().trim().optional(),
+          quantity: z
+            .number({
+              invalid_type_error: "La quantité doit être un nombre",
+            })
+            .positive("La quantité doit être supérieure à 0"),
+          unit: z.string().min(1, "L'unité est requise"),
+          expiryDate: dateString.optional(),
+          location: z.string().optional(),
+          notes: z.string().optional(),
+        })
+        .refine(
+          (line) => !!line.ingredientId || !!line.name,
+          "Chaque ligne doit être associée à un ingrédient ou nommée"
+        )
+    )
+    .min(1, "Aucune ligne du ticket n'a été confirmée"),
+});
+
+/**
+ * POST /ai/extract-receipt/commit
+ * Range dans le frigo du foyer les seules lignes du ticket confirmées par
+ * l'utilisateur. Les ingrédients absents du catalogue sont créés à ce moment.
+ */
+router.post(
+  "/extract-receipt/commit",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { lines } = commitReceiptSchema.parse(req.body);
+
+      const result = await prisma.$transaction(async (tx) => {
+        const items = [];
+        // Deux lignes du même nouveau produit partagent un seul ingrédient
+        const byName = new Map<string, Ingredient>();
+        let ingredientsCreated = 0;
+
+        for (const { ingredientId, name, ...line } of lines) {
+          let ingredient: Ingredient | null;
+
+          if (ingredientId) {
+            ingredient = await tx.ingredient.findUnique({
+              where: { id: ingredientId },
+            });
+            if (!ingredient) {
+              throw createApiError("Ingrédient introuvable", 400);
+            }
+          } else {
+            const key = name!.toLowerCase();
+            ingredient = byName.get(key) ?? null;
+            if (!ingredient) {
+              const resolved = await findOrCreateIngredient(tx, name!);
+              ingredient = resolved.ingredient;
+              if (resolved.created) ingredientsCreated += 1;
+              byName.set(key, ingredient);
+            }
+          }
+
+          const { fridgeItem, merged } = await stockIngredient(tx, {
+            userId: req.userId!,
+            householdId: req.householdId!,
+            ingredient,
+            quantity: line.quantity,
+            unit: normalizeUnit(line.unit),
+            expiryDate: line.expiryDate ? parseDay(line.expiryDate) : undefined,
+            location: line.location?.trim() || undefined,
+            notes: line.notes?.trim() || null,
+          });
+
+          items.push({ ...fridgeItem, merged });
+        }
+
+        return { items, ingredientsCreated };
+      });
+
+      return res.json({
+        success: true,
+        data: {
+          ...result,
+          addedCount: result.items.length,
+          message: `${result.items.length} ingrédient(s) ajouté(s) ou mis à jour depuis le ticket.`,
+        },
+        message: "Ticket ajouté au frigo.",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
 // Normalise la forme de recette renvoyée au frontend.
 const formatRecipe = (recipe: any) => ({
   id: recipe.id,
@@ -208,6 +277,7 @@ const formatRecipe = (recipe: any) => ({
       id: ri.ingredient.id,
       name: ri.ingredient.name,
       category: ri.ingredient.category,
+      allergens: ri.ingredient.allergens,
     },
   })),
   isFavorite: recipe.favoriteRecipes?.length > 0,
@@ -234,7 +304,12 @@ router.post(
 
       const userWithKey = await prisma.user.findUnique({
         where: { id: req.userId! },
-        select: { geminiApiKey: true },
+        select: {
+          geminiApiKey: true,
+          allergens: true,
+          dietaryProfiles: true,
+          dietExclusions: true,
+        },
       });
 
       if (!userWithKey?.geminiApiKey) {
@@ -255,7 +330,7 @@ router.post(
 
       if (useFridge) {
         const items = await prisma.fridgeItem.findMany({
-          where: { userId: req.userId },
+          where: { householdId: req.householdId },
           include: { ingredient: true },
         });
 
@@ -269,6 +344,9 @@ router.post(
       const aiRecipe = await generateRecipeFromPrompt({
         prompt,
         fridgeItems,
+        excludedAllergens: allergenLabels(userWithKey.allergens),
+        diets: dietaryProfileLabels(userWithKey.dietaryProfiles),
+        excludedIngredients: userWithKey.dietExclusions,
         apiKey: userWithKey.geminiApiKey,
       });
 
@@ -292,6 +370,7 @@ router.post(
             ingredient = await prisma.ingredient.create({
               data: {
                 name,
+                allergens: guessAllergens(name),
               },
             });
           }
@@ -299,29 +378,16 @@ router.post(
           return {
             ingredientId: ingredient.id,
             quantity: ing.quantity ?? 1,
-            unit: ing.unit || "pièce",
+            unit: normalizeUnit(ing.unit || "pièce"),
             notes: ing.notes || undefined,
+            ingredient,
           };
         })
       );
 
-      const combinedIngredientRecords = Object.values(
-        ingredientRecords.reduce((acc, record) => {
-          const key = record.ingredientId;
-          if (!acc[key]) {
-            acc[key] = { ...record };
-          } else {
-            acc[key].quantity += record.quantity;
-            if (!acc[key].unit && record.unit) {
-              acc[key].unit = record.unit;
-            }
-            if (!acc[key].notes && record.notes) {
-              acc[key].notes = record.notes;
-            }
-          }
-          return acc;
-        }, {} as Record<string, (typeof ingredientRecords)[number]>)
-      );
+      const combinedIngredientRecords = combineRecipeLines(
+        ingredientRecords
+      ).map(({ ingredient, ...record }) => record);
 
       const createdRecipe = await prisma.recipe.create({
         data: {
@@ -359,7 +425,15 @@ router.post(
         },
       });
 
-      const formatted = formatRecipe(createdRecipe);
+      // Le modèle peut ignorer les consignes : allergènes et écarts de régime restent signalés
+      const formatted = {
+        ...formatRecipe(createdRecipe),
+        ...computeRecipeAllergens(
+          createdRecipe.ingredients,
+          userWithKey.allergens
+        ),
+        ...computeRecipeDiet(createdRecipe.ingredients, userWithKey),
+      };
 
       res.status(201).json({
         success: true,
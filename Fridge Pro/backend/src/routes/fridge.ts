@@ -1,8 +1,24 @@
-// Routes CRUD pour la gestion du frigo utilisateur.
+// Routes CRUD pour la gestion du frigo du foyer.
 import { Router } from "express";
 import { PrismaClient } from "@prisma/client";
 import { z } from "zod";
 import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
+import {
+  convertQuantity,
+  mergeQuantities,
+  normalizeUnit,
+} from "../services/unitService";
+import {
+  buildStockIndex,
+  planConsumption,
+} from "../services/recipeMatchingService";
+import {
+  applyStockUpdates,
+  fifoOrderBy,
+  findMergeableLot,
+  groupLotsByIngredient,
+  lockHouseholdLots,
+} from "../services/stockService";
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -17,9 +33,21 @@ const fridgeItemSchema = z.object({
     .positive("La quantité doit être supérieure à 0"),
   unit: z.string().min(1, "L'unité est requise"),
   expiryDate: z.string().optional(),
+  location: z.string().optional(),
   notes: z.string().optional(),
 });
 
+// Consommation manuelle d'un ingrédient, répartie sur ses lots.
+const consumeSchema = z.object({
+  ingredientId: z.string().min(1, "L'ingrédient est requis"),
+  quantity: z
+    .number({
+      invalid_type_error: "La quantité doit être un nombre",
+    })
+    .positive("La quantité doit être supérieure à 0"),
+  unit: z.string().min(1, "L'unité est requise"),
+});
+
 // Convertit une string en Date et lève si invalide.
 const parseExpiryDate = (value: string) => {
   const date = new Date(value);
@@ -33,7 +61,7 @@ const parseExpiryDate = (value: string) => {
 
 /**
  * GET /fridge
- * Liste les ingrédients du frigo courant avec leurs catégories.
+ * Liste les lots du frigo courant avec leurs catégories, regroupés par ingrédient.
  */
 router.get(
   "/",
@@ -41,7 +69,7 @@ router.get(
   async (req: AuthenticatedRequest, res, next) => {
     try {
       const fridgeItems = await prisma.fridgeItem.findMany({
-        where: { userId: req.userId },
+        where: { householdId: req.householdId },
         include: {
           ingredient: {
             include: {
@@ -49,15 +77,14 @@ router.get(
             },
           },
         },
-        orderBy: {
-          addedDate: "desc",
-        },
+        orderBy: fifoOrderBy,
       });
 
       res.json({
         success: true,
         data: {
           fridgeItems,
+          groups: groupLotsByIngredient(fridgeItems),
         },
       });
     } catch (error) {
@@ -68,7 +95,7 @@ router.get(
 
 /**
  * POST /fridge
- * Ajoute un ingrédient dans le frigo ou incrémente la quantité existante.
+ * Ajoute un lot dans le frigo, ou incrémente le lot de même date limite et emplacement.
  */
 router.post(
   "/",
@@ -88,29 +115,32 @@ router.post(
         });
       }
 
-      const existingItem = await prisma.fridgeItem.findFirst({
-        where: {
-          userId: req.userId!,
-          ingredientId: body.ingredientId,
-        },
-      });
-
       let expiryDate: Date | undefined;
       if (body.expiryDate) {
         expiryDate = parseExpiryDate(body.expiryDate);
       }
 
+      const location = body.location?.trim() || undefined;
+
+      // Une date limite ou un emplacement différent donne un nouveau lot
+      const existingItem = await findMergeableLot(prisma, {
+        householdId: req.householdId!,
+        ingredientId: body.ingredientId,
+        expiryDate,
+        location,
+      });
+
       let fridgeItem;
 
       if (existingItem) {
+        // Le stock garde son unité : la quantité ajoutée y est convertie
+        const merged = mergeQuantities(existingItem, body, ingredient);
+
         fridgeItem = await prisma.fridgeItem.update({
           where: { id: existingItem.id },
           data: {
-            quantity: existingItem.quantity + body.quantity,
-            unit: body.unit,
-            expiryDate: body.expiryDate
-              ? expiryDate ?? existingItem.expiryDate
-              : existingItem.expiryDate,
+            quantity: merged.quantity,
+            unit: merged.unit,
             notes: body.notes ?? existingItem.notes,
           },
           include: {
@@ -125,10 +155,12 @@ router.post(
         fridgeItem = await prisma.fridgeItem.create({
           data: {
             userId: req.userId!,
+            householdId: req.householdId,
             ingredientId: body.ingredientId,
             quantity: body.quantity,
-            unit: body.unit,
+            unit: normalizeUnit(body.unit),
             expiryDate,
+            location,
             notes: body.notes,
           },
           include: {
@@ -147,7 +179,7 @@ router.post(
           fridgeItem,
         },
         message: existingItem
-          ? "Quantité mise à jour pour cet ingrédient"
+          ? "Quantité mise à jour pour ce lot"
           : "Ingrédient ajouté au frigo",
       });
     } catch (error) {
@@ -169,6 +201,80 @@ router.post(
   }
 );
 
+/**
+ * POST /fridge/consume
+ * Retire une quantité d'un ingrédient en puisant d'abord dans les lots qui expirent le plus tôt.
+ */
+router.post(
+  "/consume",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const body = consumeSchema.parse(req.body);
+
+      const ingredient = await prisma.ingredient.findUnique({
+        where: { id: body.ingredientId },
+      });
+
+      if (!ingredient) {
+        return res.status(404).json({
+          success: false,
+          message: "Ingrédient non trouvé",
+        });
+      }
+
+      // Lots verrouillés avant lecture : les consommations simultanées se suivent
+      const line = await prisma.$transaction(async (tx) => {
+        await lockHouseholdLots(tx, req.householdId!, [body.ingredientId]);
+
+        const lots = await tx.fridgeItem.findMany({
+          where: {
+            householdId: req.householdId!,
+            ingredientId: body.ingredientId,
+          },
+          orderBy: fifoOrderBy,
+        });
+
+        const [consumption] = planConsumption(
+          [{ ...body, unit: normalizeUnit(body.unit), ingredient }],
+          buildStockIndex(lots)
+        );
+
+        await applyStockUpdates(tx, consumption.updates);
+
+        return consumption;
+      });
+
+      if (line.updates.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: `Aucun stock de ${ingredient.name} utilisable dans cette unité`,
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          ...line,
+          ingredientName: ingredient.name,
+        },
+        message:
+          line.shortfall > 0
+            ? `Stock insuffisant : il manquait ${line.shortfall} ${line.unit}`
+            : "Consommation enregistrée",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
 /**
  * PUT /fridge/:id
  * Met à jour un item existant (quantité, unité, DLUO, etc.).
@@ -185,29 +291,50 @@ router.put(
         where: { id },
       });
 
-      if (!existingItem || existingItem.userId !== req.userId) {
+      if (!existingItem || existingItem.householdId !== req.householdId) {
         return res.status(404).json({
           success: false,
           message: "Élément de frigo non trouvé",
         });
       }
 
-      if (updates.ingredientId) {
-        const ingredient = await prisma.ingredient.findUnique({
-          where: { id: updates.ingredientId },
-        });
+      const ingredient = await prisma.ingredient.findUnique({
+        where: { id: updates.ingredientId ?? existingItem.ingredientId },
+      });
 
-        if (!ingredient) {
-          return res.status(404).json({
-            success: false,
-            message: "Ingrédient non trouvé",
-          });
-        }
+      if (!ingredient) {
+        return res.status(404).json({
+          success: false,
+          message: "Ingrédient non trouvé",
+        });
       }
 
       const { expiryDate: expiryDateInput, ...rest } = updates;
       const updateData: Record<string, unknown> = { ...rest };
 
+      if (updates.unit !== undefined) {
+        updateData.unit = normalizeUnit(updates.unit);
+
+        // Changement d'unité seul : on convertit la quantité existante
+        if (updates.quantity === undefined) {
+          const converted = convertQuantity(
+            existingItem.quantity,
+            existingItem.unit,
+            updates.unit,
+            ingredient
+          );
+
+          if (converted === null) {
+            return res.status(400).json({
+              success: false,
+              message: `Impossible de convertir ${existingItem.unit} en ${updates.unit} pour ${ingredient.name}`,
+            });
+          }
+
+          updateData.quantity = converted;
+        }
+      }
+
       if (expiryDateInput !== undefined) {
         if (expiryDateInput === "") {
           updateData.expiryDate = null;
@@ -257,7 +384,7 @@ router.put(
 
 /**
  * DELETE /fridge/:id
- * Supprime un élément du frigo pour l'utilisateur connecté.
+ * Supprime un élément du frigo du foyer actif.
  */
 router.delete(
   "/:id",
@@ -270,7 +397,7 @@ router.delete(
         where: { id },
       });
 
-      if (!existingItem || existingItem.userId !== req.userId) {
+      if (!existingItem || existingItem.householdId !== req.householdId) {
         return res.status(404).json({
           success: false,
           message: "Élément de frigo non trouvé",
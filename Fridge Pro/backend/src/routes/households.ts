@@ -0,0 +1,637 @@
+// Routes des foyers : membres, rôles, invitations et foyer actif.
+import { Router } from "express";
+import { PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
+import {
+  findMembership,
+  generateInvitationToken,
+  HOUSEHOLD_ROLES,
+  invitationExpiryDate,
+  normalizeEmail,
+} from "../services/householdService";
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Validation des payloads
+const householdSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Le nom du foyer est requis")
+    .max(60, "Le nom du foyer ne doit pas dépasser 60 caractères"),
+});
+
+const invitationSchema = z.object({
+  email: z.string().email("Adresse email invalide"),
+  role: z.enum(HOUSEHOLD_ROLES).optional().default("member"),
+});
+
+const acceptSchema = z.object({
+  token: z.string().min(1, "Le jeton d'invitation est requis"),
+});
+
+const roleSchema = z.object({
+  role: z.enum(HOUSEHOLD_ROLES, {
+    errorMap: () => ({ message: "Rôle inconnu" }),
+  }),
+});
+
+const memberSelect = {
+  id: true,
+  role: true,
+  joinedAt: true,
+  user: {
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+};
+
+const invitationSelect = {
+  id: true,
+  email: true,
+  role: true,
+  expiresAt: true,
+  createdAt: true,
+  invitedBy: { select: { firstName: true, lastName: true } },
+};
+
+// Invitations encore utilisables.
+const pendingInvitationWhere = () => ({
+  acceptedAt: null,
+  expiresAt: { gt: new Date() },
+});
+
+// Vérifie que l'utilisateur est membre du foyer (et propriétaire si demandé).
+const ensureMember = async (
+  householdId: string,
+  userId: string,
+  ownerOnly = false
+) => {
+  const membership = await findMembership(prisma, householdId, userId);
+
+  if (!membership || (ownerOnly && membership.role !== "owner")) {
+    return null;
+  }
+
+  return membership;
+};
+
+const forbidden = {
+  success: false,
+  message: "Action réservée aux propriétaires du foyer",
+};
+
+const notFoundHousehold = {
+  success: false,
+  message: "Foyer non trouvé",
+};
+
+/**
+ * GET /households
+ * Foyers dont l'utilisateur est membre, avec le foyer actif.
+ */
+router.get(
+  "/",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const memberships = await prisma.householdMember.findMany({
+        where: { userId: req.userId },
+        include: {
+          household: {
+            include: { _count: { select: { members: true } } },
+          },
+        },
+        orderBy: { joinedAt: "asc" },
+      });
+
+      res.json({
+        success: true,
+        data: {
+          households: memberships.map(({ role, household }) => ({
+            id: household.id,
+            name: household.name,
+            role,
+            memberCount: household._count.members,
+            active: household.id === req.householdId,
+          })),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /households/current
+ * Foyer actif avec ses membres et invitations en attente.
+ */
+router.get(
+  "/current",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const household = await prisma.household.findUnique({
+        where: { id: req.householdId },
+        include: {
+          members: { select: memberSelect, orderBy: { joinedAt: "asc" } },
+          invitations: {
+            where: pendingInvitationWhere(),
+            select: invitationSelect,
+            orderBy: { createdAt: "desc" },
+          },
+        },
+      });
+
+      if (!household) {
+        return res.status(404).json(notFoundHousehold);
+      }
+
+      res.json({
+        success: true,
+        data: {
+          household: { ...household, role: req.household!.role },
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /households
+ * Crée un foyer (l'utilisateur en devient propriétaire) et l'active.
+ */
+router.post(
+  "/",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { name } = householdSchema.parse(req.body);
+
+      const household = await prisma.$transaction(async (tx) => {
+        const created = await tx.household.create({
+          data: {
+            name,
+            members: { create: { userId: req.userId!, role: "owner" } },
+          },
+        });
+
+        await tx.user.update({
+          where: { id: req.userId },
+          data: { activeHouseholdId: created.id },
+        });
+
+        return created;
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { household: { ...household, role: "owner" } },
+        message: "Foyer créé",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * PATCH /households/:id
+ * Renomme le foyer (propriétaires uniquement).
+ */
+router.patch(
+  "/:id",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { name } = householdSchema.parse(req.body);
+
+      if (!(await ensureMember(req.params.id, req.userId!, true))) {
+        return res.status(403).json(forbidden);
+      }
+
+      const household = await prisma.household.update({
+        where: { id: req.params.id },
+        data: { name },
+      });
+
+      res.json({
+        success: true,
+        data: { household },
+        message: "Foyer renommé",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /households/:id/activate
+ * Change le foyer actif (frigo et listes affichés).
+ */
+router.post(
+  "/:id/activate",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      if (!(await ensureMember(req.params.id, req.userId!))) {
+        return res.status(404).json(notFoundHousehold);
+      }
+
+      await prisma.user.update({
+        where: { id: req.userId },
+        data: { activeHouseholdId: req.params.id },
+      });
+
+      res.json({
+        success: true,
+        message: "Foyer actif modifié",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /households/invitations
+ * Invitations en attente adressées à l'email du compte connecté.
+ */
+router.get(
+  "/invitations",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const invitations = await prisma.householdInvitation.findMany({
+        where: {
+          email: normalizeEmail(req.user!.email),
+          ...pendingInvitationWhere(),
+          household: { members: { none: { userId: req.userId } } },
+        },
+        select: {
+          ...invitationSelect,
+          token: true,
+          household: { select: { id: true, name: true } },
+        },
+        orderBy: { createdAt: "desc" },
+      });
+
+      res.json({
+        success: true,
+        data: { invitations },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /households/invitations/accept
+ * Rejoint le foyer d'une invitation, qui doit viser l'email du compte.
+ */
+router.post(
+  "/invitations/accept",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { token } = acceptSchema.parse(req.body);
+
+      const invitation = await prisma.householdInvitation.findUnique({
+        where: { token },
+        include: { household: { select: { id: true, name: true } } },
+      });
+
+      if (!invitation || invitation.email !== normalizeEmail(req.user!.email)) {
+        return res.status(404).json({
+          success: false,
+          message: "Invitation non trouvée",
+        });
+      }
+
+      if (invitation.acceptedAt || invitation.expiresAt <= new Date()) {
+        return res.status(410).json({
+          success: false,
+          message: "Cette invitation n'est plus valide",
+        });
+      }
+
+      await prisma.$transaction(async (tx) => {
+        const existing = await findMembership(
+          tx,
+          invitation.householdId,
+          req.userId!
+        );
+        if (!existing) {
+          await tx.householdMember.create({
+            data: {
+              householdId: invitation.householdId,
+              userId: req.userId!,
+              role: invitation.role,
+            },
+          });
+        }
+
+        await tx.householdInvitation.update({
+          where: { id: invitation.id },
+          data: { acceptedAt: new Date() },
+        });
+        await tx.user.update({
+          where: { id: req.userId },
+          data: { activeHouseholdId: invitation.householdId },
+        });
+      });
+
+      res.json({
+        success: true,
+        data: { household: invitation.household },
+        message: `Vous avez rejoint « ${invitation.household.name} »`,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /households/:id/invitations
+ * Invite une adresse email (propriétaires uniquement). Le jeton est renvoyé
+ * pour être partagé ; un compte existant reçoit aussi une notification.
+ */
+router.post(
+  "/:id/invitations",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const body = invitationSchema.parse(req.body);
+      const email = normalizeEmail(body.email);
+      const householdId = req.params.id;
+
+      if (!(await ensureMember(householdId, req.userId!, true))) {
+        return res.status(403).json(forbidden);
+      }
+
+      const invitedUser = await prisma.user.findFirst({
+        where: { email: { equals: email, mode: "insensitive" } },
+        select: { id: true },
+      });
+
+      if (
+        invitedUser &&
+        (await findMembership(prisma, householdId, invitedUser.id))
+      ) {
+        return res.status(400).json({
+          success: false,
+          message: "Cette personne fait déjà partie du foyer",
+        });
+      }
+
+      const invitation = await prisma.$transaction(async (tx) => {
+        // Une nouvelle invitation remplace celle encore en attente
+        await tx.householdInvitation.deleteMany({
+          where: { householdId, email, acceptedAt: null },
+        });
+
+        const created = await tx.householdInvitation.create({
+          data: {
+            householdId,
+            email,
+            role: body.role,
+            token: generateInvitationToken(),
+            invitedById: req.userId!,
+            expiresAt: invitationExpiryDate(),
+          },
+          include: { household: { select: { name: true } } },
+        });
+
+        if (invitedUser) {
+          await tx.notification.create({
+            data: {
+              userId: invitedUser.id,
+              type: "household_invitation",
+              title: "Invitation à un foyer",
+              message: `${req.user!.firstName} vous invite à rejoindre « ${
+                created.household.name
+              } »`,
+            },
+          });
+        }
+
+        return created;
+      });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          invitation: {
+            id: invitation.id,
+            email: invitation.email,
+            role: invitation.role,
+            token: invitation.token,
+            expiresAt: invitation.expiresAt,
+            createdAt: invitation.createdAt,
+          },
+        },
+        message: "Invitation envoyée",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /households/:id/invitations/:invitationId
+ * Annule une invitation (propriétaires uniquement).
+ */
+router.delete(
+  "/:id/invitations/:invitationId",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      if (!(await ensureMember(req.params.id, req.userId!, true))) {
+        return res.status(403).json(forbidden);
+      }
+
+      const { count } = await prisma.householdInvitation.deleteMany({
+        where: { id: req.params.invitationId, householdId: req.params.id },
+      });
+
+      if (count === 0) {
+        return res.status(404).json({
+          success: false,
+          message: "Invitation non trouvée",
+        });
+      }
+
+      res.json({
+        success: true,
+        message: "Invitation annulée",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PATCH /households/:id/members/:userId
+ * Change le rôle d'un membre (propriétaires uniquement). Le foyer garde
+ * toujours au moins un propriétaire.
+ */
+router.patch(
+  "/:id/members/:userId",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { role } = roleSchema.parse(req.body);
+      const { id: householdId, userId } = req.params;
+
+      if (!(await ensureMember(householdId, req.userId!, true))) {
+        return res.status(403).json(forbidden);
+      }
+
+      const member = await findMembership(prisma, householdId, userId);
+      if (!member) {
+        return res.status(404).json({
+          success: false,
+          message: "Membre non trouvé",
+        });
+      }
+
+      if (member.role === "owner" && role !== "owner") {
+        const ownerCount = await prisma.householdMember.count({
+          where: { householdId, role: "owner" },
+        });
+        if (ownerCount <= 1) {
+          return res.status(400).json({
+            success: false,
+            message: "Le foyer doit garder au moins un propriétaire",
+          });
+        }
+      }
+
+      const updated = await prisma.householdMember.update({
+        where: { id: member.id },
+        data: { role },
+        select: memberSelect,
+      });
+
+      res.json({
+        success: true,
+        data: { member: updated },
+        message: "Rôle mis à jour",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /households/:id/members/:userId
+ * Retire un membre (propriétaires) ou quitte le foyer (soi-même).
+ * Le dernier propriétaire ne peut pas partir tant que d'autres membres restent ;
+ * seul, il supprime le foyer et ses données en le quittant.
+ */
+router.delete(
+  "/:id/members/:userId",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { id: householdId, userId } = req.params;
+      const leaving = userId === req.userId;
+
+      if (!(await ensureMember(householdId, req.userId!, !leaving))) {
+        return res
+          .status(leaving ? 404 : 403)
+          .json(leaving ? notFoundHousehold : forbidden);
+      }
+
+      const member = await findMembership(prisma, householdId, userId);
+      if (!member) {
+        return res.status(404).json({
+          success: false,
+          message: "Membre non trouvé",
+        });
+      }
+
+      const [memberCount, ownerCount] = await Promise.all([
+        prisma.householdMember.count({ where: { householdId } }),
+        prisma.householdMember.count({
+          where: { householdId, role: "owner" },
+        }),
+      ]);
+
+      if (member.role === "owner" && ownerCount <= 1 && memberCount > 1) {
+        return res.status(400).json({
+          success: false,
+          message: "Désignez un autre propriétaire avant de quitter le foyer",
+        });
+      }
+
+      await prisma.$transaction(async (tx) => {
+        if (memberCount <= 1) {
+          await tx.household.delete({ where: { id: householdId } });
+        } else {
+          await tx.householdMember.delete({ where: { id: member.id } });
+        }
+
+        // Le foyer actif sera recalculé à la prochaine requête
+        await tx.user.updateMany({
+          where: { id: userId, activeHouseholdId: householdId },
+          data: { activeHouseholdId: null },
+        });
+      });
+
+      res.json({
+        success: true,
+        message: leaving ? "Vous avez quitté le foyer" : "Membre retiré",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
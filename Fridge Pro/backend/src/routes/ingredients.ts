@@ -1,7 +1,21 @@
 import { Router } from "express";
 import { PrismaClient } from "@prisma/client";
 import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
-import { openFoodFactsService } from "../services/openFoodFactsService";
+import {
+  ExternalIngredient,
+  foodDataProvider,
+} from "../services/foodDataProvider";
+import {
+  isValidBarcode,
+  productInclude,
+  resolveBarcode,
+} from "../services/ingredientCatalogService";
+import {
+  ALLERGENS,
+  guessAllergens,
+  isAllergenCode,
+  normalizeAllergens,
+} from "../services/allergenService";
 import { z } from "zod";
 
 const router = Router();
@@ -16,6 +30,13 @@ const createIngredientSchema = z.object({
   carbs: z.number().positive().optional(),
   fat: z.number().positive().optional(),
   fiber: z.number().positive().optional(),
+  density: z.number().positive().optional(),
+  pieceWeight: z.number().positive().optional(),
+  // Sans valeur explicite, les allergènes sont devinés depuis le nom
+  allergens: z
+    .array(z.string())
+    .refine((codes) => codes.every(isAllergenCode), "Allergène inconnu")
+    .optional(),
 });
 
 // GET /api/ingredients - Liste de tous les ingrédients
@@ -45,7 +66,10 @@ router.get(
   }
 );
 
-// GET /api/ingredients/search - Recherche d'ingrédients depuis OpenFoodFacts et base locale
+// Au-delà de ce nombre de résultats locaux, le fournisseur externe n'est pas interrogé.
+const LOCAL_RESULTS_THRESHOLD = 10;
+
+// GET /api/ingredients/search - Recherche d'ingrédients : base locale et catalogue produits d'abord, puis OpenFoodFacts
 router.get(
   "/search",
   authenticateToken,
@@ -77,20 +101,59 @@ router.get(
         },
       });
 
-      // Recherche dans Open Food Facts
-      let openFoodFactsResults: any[] = [];
-      try {
-        openFoodFactsResults = await openFoodFactsService.searchIngredients(q);
-      } catch (error) {
-        console.warn("Erreur lors de la recherche OpenFoodFacts:", error);
-        // Continue avec seulement les résultats locaux
-      }
+      // Produits déjà enregistrés (nom ou marque) : on renvoie leur ingrédient
+      const localProducts = await prisma.product.findMany({
+        where: {
+          OR: [
+            { name: { contains: q, mode: "insensitive" } },
+            { brand: { contains: q, mode: "insensitive" } },
+          ],
+        },
+        include: productInclude,
+        take: 10,
+      });
 
       // Combiner les résultats en évitant les doublons
       const allIngredients = [...localIngredients];
-      const localNames = localIngredients.map((ing) => ing.name.toLowerCase());
+      const addLocal = (ingredient: (typeof localIngredients)[number]) => {
+        if (!allIngredients.some((ing) => ing.id === ingredient.id)) {
+          allIngredients.push(ingredient);
+        }
+      };
+      localProducts.forEach((product) => addLocal(product.ingredient));
+
+      // Recherche dans Open Food Facts si la base locale ne suffit pas
+      let openFoodFactsResults: ExternalIngredient[] = [];
+      if (allIngredients.length < LOCAL_RESULTS_THRESHOLD) {
+        try {
+          openFoodFactsResults = await foodDataProvider.searchIngredients(q);
+        } catch (error) {
+          console.warn("Erreur lors de la recherche OpenFoodFacts:", error);
+          // Continue avec seulement les résultats locaux
+        }
+      }
+
+      // Résultats OpenFoodFacts déjà présents dans le catalogue
+      const knownProducts = await prisma.product.findMany({
+        where: {
+          barcode: {
+            in: openFoodFactsResults.map((result) => result.sourceId),
+          },
+        },
+        include: productInclude,
+      });
+      const knownBarcodes = new Map(
+        knownProducts.map((product) => [product.barcode, product.ingredient])
+      );
 
       openFoodFactsResults.forEach((offIngredient) => {
+        const knownIngredient = knownBarcodes.get(offIngredient.sourceId);
+        if (knownIngredient) {
+          addLocal(knownIngredient);
+          return;
+        }
+
+        const localNames = allIngredients.map((ing) => ing.name.toLowerCase());
         if (!localNames.includes(offIngredient.name.toLowerCase())) {
           allIngredients.push({
             id: `off_${offIngredient.sourceId}`,
@@ -128,7 +191,7 @@ router.get(
 );
 
 // GET /api/ingredients/:id - Détails d'un ingrédient
-// GET /api/ingredients/external/search - Recherche directe dans OpenFoodFacts
+// GET /api/ingredients/external/search - Recherche directe auprès du fournisseur externe
 router.get(
   "/external/search",
   authenticateToken,
@@ -143,9 +206,7 @@ router.get(
         });
       }
 
-      const openFoodFactsResults = await openFoodFactsService.searchIngredients(
-        q
-      );
+      const openFoodFactsResults = await foodDataProvider.searchIngredients(q);
 
       res.json({
         success: true,
@@ -163,6 +224,56 @@ router.get(
   }
 );
 
+// GET /api/ingredients/allergens - Liste des allergènes déclarables
+router.get("/allergens", authenticateToken, (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      allergens: Object.entries(ALLERGENS).map(([code, label]) => ({
+        code,
+        label,
+      })),
+    },
+  });
+});
+
+// GET /api/ingredients/barcode/:code - Résout un code-barres en ingrédient local
+router.get(
+  "/barcode/:code",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const code = req.params.code.trim();
+
+      if (!isValidBarcode(code)) {
+        return res.status(400).json({
+          success: false,
+          message: "Code-barres invalide (8 à 14 chiffres attendus)",
+        });
+      }
+
+      const result = await resolveBarcode(prisma, code);
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          message: "Produit introuvable pour ce code-barres",
+        });
+      }
+
+      res.status(result.created ? 201 : 200).json({
+        success: true,
+        data: result,
+        message: result.created
+          ? "Nouvel ingrédient créé à partir du produit"
+          : "Produit reconnu",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 router.get(
   "/:id",
   authenticateToken,
@@ -202,8 +313,18 @@ router.post(
   authenticateToken,
   async (req: AuthenticatedRequest, res, next) => {
     try {
-      const { name, categoryId, calories, protein, carbs, fat, fiber } =
-        createIngredientSchema.parse(req.body);
+      const {
+        name,
+        categoryId,
+        calories,
+        protein,
+        carbs,
+        fat,
+        fiber,
+        density,
+        pieceWeight,
+        allergens,
+      } = createIngredientSchema.parse(req.body);
 
       // Vérifier si l'ingrédient existe déjà
       const existingIngredient = await prisma.ingredient.findUnique({
@@ -240,6 +361,11 @@ router.post(
           carbs,
           fat,
           fiber,
+          density,
+          pieceWeight,
+          allergens: allergens
+            ? normalizeAllergens(allergens)
+            : guessAllergens(name),
         },
         include: {
           category: true,
@@ -315,7 +441,10 @@ router.put(
 
       const updatedIngredient = await prisma.ingredient.update({
         where: { id },
-        data: updates,
+        data: {
+          ...updates,
+          allergens: updates.allergens && normalizeAllergens(updates.allergens),
+        },
         include: {
           category: true,
         },
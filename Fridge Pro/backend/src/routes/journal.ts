@@ -0,0 +1,265 @@
+// Routes du journal nutritionnel : consommations, totaux quotidiens et objectifs.
+import { Router } from "express";
+import { PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
+import { dateString, parseDay } from "../services/dayService";
+import { DAY_MS } from "../services/stockService";
+import {
+  createJournalEntry,
+  formatDayKey,
+  ingredientEntryData,
+  nutritionGoals,
+  recipeEntryData,
+  summarizeDays,
+  todayAsDay,
+} from "../services/journalService";
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Période maximale renvoyée par GET /journal.
+const MAX_RANGE_DAYS = 366;
+
+// Validation des payloads
+const rangeSchema = z.object({
+  from: dateString.optional(),
+  to: dateString.optional(),
+});
+
+const entrySchema = z
+  .object({
+    date: dateString.optional(),
+    recipeId: z.string().min(1).optional(),
+    servings: z
+      .number({
+        invalid_type_error: "Le nombre de portions doit être un nombre",
+      })
+      .positive("Le nombre de portions doit être supérieur à 0")
+      .optional(),
+    ingredientId: z.string().min(1).optional(),
+    quantity: z
+      .number({ invalid_type_error: "La quantité doit être un nombre" })
+      .positive("La quantité doit être positive")
+      .optional(),
+    unit: z.string().trim().min(1).optional(),
+  })
+  .refine(({ recipeId, ingredientId }) => !recipeId !== !ingredientId, {
+    message: "Indiquez une recette ou un ingrédient",
+  })
+  .refine(
+    ({ ingredientId, quantity, unit }) => !ingredientId || (quantity && unit),
+    { message: "La quantité et l'unité de l'ingrédient sont requises" }
+  );
+
+const goal = z.number().nonnegative("Un objectif ne peut pas être négatif");
+
+const goalsSchema = z.object({
+  calories: goal.int().nullable().optional(),
+  protein: goal.nullable().optional(),
+  carbs: goal.nullable().optional(),
+  fat: goal.nullable().optional(),
+  fiber: goal.nullable().optional(),
+});
+
+const goalsSelect = {
+  calorieGoal: true,
+  proteinGoal: true,
+  carbsGoal: true,
+  fatGoal: true,
+  fiberGoal: true,
+};
+
+/**
+ * GET /journal?from=&to=
+ * Totaux quotidiens sur la période (7 derniers jours par défaut) et objectifs.
+ */
+router.get(
+  "/",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const query = rangeSchema.parse(req.query);
+      const to = query.to ? parseDay(query.to) : todayAsDay();
+      const from = query.from
+        ? parseDay(query.from)
+        : new Date(to.getTime() - 6 * DAY_MS);
+
+      if (from > to) {
+        return res.status(400).json({
+          success: false,
+          message: "La date de fin doit être postérieure à la date de début",
+        });
+      }
+
+      if ((to.getTime() - from.getTime()) / DAY_MS >= MAX_RANGE_DAYS) {
+        return res.status(400).json({
+          success: false,
+          message: `La période ne peut pas dépasser ${MAX_RANGE_DAYS} jours`,
+        });
+      }
+
+      const [entries, user] = await Promise.all([
+        prisma.journalEntry.findMany({
+          where: { userId: req.userId, date: { gte: from, lte: to } },
+          orderBy: [{ date: "asc" }, { createdAt: "asc" }],
+        }),
+        prisma.user.findUniqueOrThrow({
+          where: { id: req.userId },
+          select: goalsSelect,
+        }),
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          from: formatDayKey(from),
+          to: formatDayKey(to),
+          goals: nutritionGoals(user),
+          days: summarizeDays(entries, from, to),
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /journal
+ * Note une consommation : portions d'une recette ou quantité d'un ingrédient.
+ */
+router.post(
+  "/",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const body = entrySchema.parse(req.body);
+      const date = body.date ? parseDay(body.date) : todayAsDay();
+
+      let data;
+      if (body.recipeId) {
+        const recipe = await prisma.recipe.findUnique({
+          where: { id: body.recipeId },
+          include: { ingredients: { include: { ingredient: true } } },
+        });
+
+        if (!recipe) {
+          return res.status(404).json({
+            success: false,
+            message: "Recette non trouvée",
+          });
+        }
+
+        data = recipeEntryData(recipe, body.servings ?? 1);
+      } else {
+        const ingredient = await prisma.ingredient.findUnique({
+          where: { id: body.ingredientId },
+        });
+
+        if (!ingredient) {
+          return res.status(404).json({
+            success: false,
+            message: "Ingrédient non trouvé",
+          });
+        }
+
+        data = ingredientEntryData(ingredient, body.quantity!, body.unit!);
+      }
+
+      const entry = await createJournalEntry(prisma, req.userId!, date, data);
+
+      res.status(201).json({
+        success: true,
+        data: { entry },
+        message: "Consommation ajoutée au journal",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /journal/:id
+ * Retire une consommation du journal.
+ */
+router.delete(
+  "/:id",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { count } = await prisma.journalEntry.deleteMany({
+        where: { id: req.params.id, userId: req.userId },
+      });
+
+      if (count === 0) {
+        return res.status(404).json({
+          success: false,
+          message: "Entrée du journal non trouvée",
+        });
+      }
+
+      res.json({
+        success: true,
+        message: "Entrée supprimée du journal",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /journal/goals
+ * Met à jour les objectifs quotidiens (null pour en retirer un).
+ */
+router.put(
+  "/goals",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const body = goalsSchema.parse(req.body);
+
+      const user = await prisma.user.update({
+        where: { id: req.userId },
+        data: {
+          calorieGoal: body.calories,
+          proteinGoal: body.protein,
+          carbsGoal: body.carbs,
+          fatGoal: body.fat,
+          fiberGoal: body.fiber,
+        },
+        select: goalsSelect,
+      });
+
+      res.json({
+        success: true,
+        data: { goals: nutritionGoals(user) },
+        message: "Objectifs mis à jour",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,653 @@
+// Routes CRUD du planning de repas hebdomadaire et de ses créneaux.
+import { Router } from "express";
+import { PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
+import { dateString, parseDay } from "../services/dayService";
+import { DAY_MS, fifoOrderBy } from "../services/stockService";
+import {
+  aggregateRequirements,
+  buildStockIndex,
+  computeShoppingNeeds,
+} from "../services/recipeMatchingService";
+import { normalizeUnit, roundQuantity } from "../services/unitService";
+import {
+  addNeedsToShoppingList,
+  shoppingItemInclude,
+} from "../services/shoppingListService";
+import { publishListEvent } from "../services/shoppingListEvents";
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const MEAL_SLOTS = ["breakfast", "lunch", "dinner", "snack"] as const;
+
+// Sélection standard (planning + créneaux + résumé des recettes).
+const planInclude = {
+  entries: {
+    include: {
+      recipe: {
+        select: {
+          id: true,
+          title: true,
+          imageUrl: true,
+          prepTime: true,
+          cookTime: true,
+          servings: true,
+          difficulty: true,
+        },
+      },
+    },
+    orderBy: [{ date: "asc" as const }, { createdAt: "asc" as const }],
+  },
+};
+
+// Lundi de la semaine contenant la date donnée.
+const startOfWeek = (date: Date) => {
+  const day = (date.getUTCDay() + 6) % 7; // 0 = lundi
+  return new Date(date.getTime() - day * DAY_MS);
+};
+
+// Validation des payloads
+const listQuerySchema = z.object({
+  from: dateString.optional(),
+  to: dateString.optional(),
+});
+
+const createPlanSchema = z.object({
+  weekStart: dateString,
+  name: z.string().trim().max(100).optional(),
+});
+
+const updatePlanSchema = z.object({
+  name: z.string().trim().max(100).nullable(),
+});
+
+const entrySchema = z.object({
+  recipeId: z.string().min(1, "La recette est requise"),
+  date: dateString,
+  slot: z.enum(MEAL_SLOTS, {
+    errorMap: () => ({ message: "Créneau de repas invalide" }),
+  }),
+  servings: z
+    .number({ invalid_type_error: "Le nombre de portions doit être un nombre" })
+    .int()
+    .positive("Le nombre de portions doit être supérieur à 0")
+    .optional(),
+  notes: z.string().optional(),
+});
+
+const updateEntrySchema = entrySchema.omit({ recipeId: true }).partial();
+
+const shoppingListFromPlanSchema = z
+  .object({
+    from: dateString,
+    to: dateString,
+    name: z.string().trim().max(100).optional(),
+  })
+  .refine(({ from, to }) => from <= to, {
+    message: "La date de fin doit être postérieure à la date de début",
+  });
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString("fr-FR", {
+    day: "2-digit",
+    month: "2-digit",
+    timeZone: "UTC",
+  });
+
+// Vérifie qu'un planning appartient à l'utilisateur connecté.
+const ensurePlanOwner = async (userId: string, planId: string) => {
+  const plan = await prisma.mealPlan.findFirst({
+    where: {
+      id: planId,
+      userId,
+    },
+  });
+
+  return plan;
+};
+
+// Un créneau doit tomber dans la semaine de son planning.
+const isInPlanWeek = (weekStart: Date, date: Date) =>
+  date >= weekStart && date.getTime() < weekStart.getTime() + 7 * DAY_MS;
+
+/**
+ * GET /meal-plans?from=&to=
+ * Liste les plannings de l'utilisateur dont la semaine recoupe la période.
+ */
+router.get(
+  "/",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { from, to } = listQuerySchema.parse(req.query);
+
+      const mealPlans = await prisma.mealPlan.findMany({
+        where: {
+          userId: req.userId,
+          weekStart: {
+            ...(from ? { gte: startOfWeek(parseDay(from)) } : {}),
+            ...(to ? { lte: parseDay(to) } : {}),
+          },
+        },
+        include: planInclude,
+        orderBy: { weekStart: "asc" },
+      });
+
+      return res.json({
+        success: true,
+        data: {
+          mealPlans,
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /meal-plans
+ * Crée le planning de la semaine contenant `weekStart`, ou renvoie celui qui
+ * existe déjà.
+ */
+router.post(
+  "/",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const body = createPlanSchema.parse(req.body);
+      const weekStart = startOfWeek(parseDay(body.weekStart));
+
+      // Création idempotente : deux dépôts rapprochés dans le planificateur
+      // demandent le même planning, l'insertion sans conflit laisse le second
+      // relire celui déjà créé
+      const { count } = await prisma.mealPlan.createMany({
+        data: {
+          userId: req.userId!,
+          weekStart,
+          name: body.name || null,
+        },
+        skipDuplicates: true,
+      });
+      const created = count > 0;
+      const where = {
+        userId_weekStart: {
+          userId: req.userId!,
+          weekStart,
+        },
+      };
+
+      // Planning existant : le nom demandé est tout de même appliqué
+      const mealPlan =
+        !created && body.name
+          ? await prisma.mealPlan.update({
+              where,
+              data: { name: body.name },
+              include: planInclude,
+            })
+          : await prisma.mealPlan.findUniqueOrThrow({
+              where,
+              include: planInclude,
+            });
+
+      return res.status(created ? 201 : 200).json({
+        success: true,
+        data: {
+          mealPlan,
+        },
+        message: created
+          ? "Planning créé avec succès"
+          : "Planning existant pour cette semaine",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /meal-plans/shopping-list
+ * Crée une liste de courses avec ce qui manque au frigo pour les repas
+ * planifiés entre `from` et `to` (portions du planning, stock déduit).
+ */
+router.post(
+  "/shopping-list",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const body = shoppingListFromPlanSchema.parse(req.body);
+      const from = parseDay(body.from);
+      const to = parseDay(body.to);
+
+      const entries = await prisma.mealPlanEntry.findMany({
+        where: {
+          mealPlan: { userId: req.userId },
+          date: { gte: from, lte: to },
+        },
+        include: {
+          recipe: {
+            include: {
+              ingredients: {
+                include: { ingredient: true },
+              },
+            },
+          },
+        },
+      });
+
+      if (entries.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: "Aucun repas planifié sur cette période",
+        });
+      }
+
+      // Besoins de chaque repas mis à l'échelle des portions prévues, puis cumulés
+      const requirements = aggregateRequirements(
+        entries.flatMap((entry) => {
+          const factor =
+            entry.recipe.servings > 0
+              ? entry.servings / entry.recipe.servings
+              : 1;
+
+          return entry.recipe.ingredients.map((ri) => ({
+            ingredientId: ri.ingredientId,
+            quantity: roundQuantity(ri.quantity * factor),
+            unit: normalizeUnit(ri.unit),
+            ingredient: ri.ingredient,
+          }));
+        })
+      );
+
+      const fridgeItems = await prisma.fridgeItem.findMany({
+        where: {
+          householdId: req.householdId,
+          ingredientId: {
+            in: requirements.map((requirement) => requirement.ingredientId),
+          },
+        },
+        orderBy: fifoOrderBy,
+      });
+      const stockIndex = buildStockIndex(fridgeItems);
+
+      const { missing, uncomparable } = computeShoppingNeeds(
+        requirements,
+        stockIndex
+      );
+      const skippedItems = uncomparable.map((requirement) => ({
+        name: requirement.ingredient.name,
+        reason: "Stock du frigo dans une unité non comparable",
+      }));
+
+      if (missing.length === 0) {
+        return res.json({
+          success: true,
+          data: {
+            shoppingList: null,
+            entriesCount: entries.length,
+            skippedItems,
+          },
+          message: "Tout le nécessaire est déjà dans le frigo",
+        });
+      }
+
+      const shoppingList = await prisma.$transaction(async (tx) => {
+        const list = await tx.shoppingList.create({
+          data: {
+            userId: req.userId!,
+            householdId: req.householdId,
+            name:
+              body.name || `Courses du ${formatDay(from)} au ${formatDay(to)}`,
+          },
+        });
+
+        await addNeedsToShoppingList(tx, list.id, missing);
+
+        return tx.shoppingList.findUniqueOrThrow({
+          where: { id: list.id },
+          include: {
+            items: {
+              include: shoppingItemInclude,
+            },
+          },
+        });
+      });
+
+      publishListEvent({
+        type: "list_created",
+        listId: shoppingList.id,
+        householdId: shoppingList.householdId,
+        actor: { id: req.userId!, firstName: req.user!.firstName },
+      });
+
+      return res.status(201).json({
+        success: true,
+        data: {
+          shoppingList,
+          entriesCount: entries.length,
+          skippedItems,
+        },
+        message: `${shoppingList.items.length} article(s) à acheter`,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /meal-plans/:id
+ * Détail d'un planning avec ses créneaux.
+ */
+router.get(
+  "/:id",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const mealPlan = await prisma.mealPlan.findFirst({
+        where: {
+          id: req.params.id,
+          userId: req.userId,
+        },
+        include: planInclude,
+      });
+
+      if (!mealPlan) {
+        return res.status(404).json({
+          success: false,
+          message: "Planning non trouvé",
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: {
+          mealPlan,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /meal-plans/:id
+ * Renomme un planning.
+ */
+router.put(
+  "/:id",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const body = updatePlanSchema.parse(req.body);
+
+      const plan = await ensurePlanOwner(req.userId!, req.params.id);
+      if (!plan) {
+        return res.status(404).json({
+          success: false,
+          message: "Planning non trouvé",
+        });
+      }
+
+      const mealPlan = await prisma.mealPlan.update({
+        where: { id: plan.id },
+        data: { name: body.name || null },
+        include: planInclude,
+      });
+
+      return res.json({
+        success: true,
+        data: {
+          mealPlan,
+        },
+        message: "Planning mis à jour",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /meal-plans/:id
+ * Supprime un planning et tous ses créneaux.
+ */
+router.delete(
+  "/:id",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const plan = await ensurePlanOwner(req.userId!, req.params.id);
+      if (!plan) {
+        return res.status(404).json({
+          success: false,
+          message: "Planning non trouvé",
+        });
+      }
+
+      await prisma.mealPlan.delete({
+        where: { id: plan.id },
+      });
+
+      return res.json({
+        success: true,
+        message: "Planning supprimé",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /meal-plans/:id/entries
+ * Place une recette sur un jour et un créneau du planning.
+ */
+router.post(
+  "/:id/entries",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const body = entrySchema.parse(req.body);
+
+      const plan = await ensurePlanOwner(req.userId!, req.params.id);
+      if (!plan) {
+        return res.status(404).json({
+          success: false,
+          message: "Planning non trouvé",
+        });
+      }
+
+      const date = parseDay(body.date);
+      if (!isInPlanWeek(plan.weekStart, date)) {
+        return res.status(400).json({
+          success: false,
+          message: "La date doit appartenir à la semaine du planning",
+        });
+      }
+
+      const recipe = await prisma.recipe.findUnique({
+        where: { id: body.recipeId },
+        select: { id: true, servings: true },
+      });
+
+      if (!recipe) {
+        return res.status(404).json({
+          success: false,
+          message: "Recette non trouvée",
+        });
+      }
+
+      const entry = await prisma.mealPlanEntry.create({
+        data: {
+          mealPlanId: plan.id,
+          recipeId: recipe.id,
+          date,
+          slot: body.slot,
+          servings: body.servings ?? recipe.servings,
+          notes: body.notes,
+        },
+        include: planInclude.entries.include,
+      });
+
+      return res.status(201).json({
+        success: true,
+        data: {
+          entry,
+        },
+        message: "Recette ajoutée au planning",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /meal-plans/:id/entries/:entryId
+ * Déplace un créneau (jour, repas) ou modifie ses portions.
+ */
+router.put(
+  "/:id/entries/:entryId",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { id, entryId } = req.params;
+      const updates = updateEntrySchema.parse(req.body);
+
+      const plan = await ensurePlanOwner(req.userId!, id);
+      if (!plan) {
+        return res.status(404).json({
+          success: false,
+          message: "Planning non trouvé",
+        });
+      }
+
+      const existingEntry = await prisma.mealPlanEntry.findFirst({
+        where: { id: entryId, mealPlanId: plan.id },
+      });
+
+      if (!existingEntry) {
+        return res.status(404).json({
+          success: false,
+          message: "Créneau non trouvé",
+        });
+      }
+
+      const { date: dateInput, ...rest } = updates;
+      const updateData: Record<string, unknown> = { ...rest };
+
+      if (dateInput !== undefined) {
+        const date = parseDay(dateInput);
+        if (!isInPlanWeek(plan.weekStart, date)) {
+          return res.status(400).json({
+            success: false,
+            message: "La date doit appartenir à la semaine du planning",
+          });
+        }
+        updateData.date = date;
+      }
+
+      const entry = await prisma.mealPlanEntry.update({
+        where: { id: existingEntry.id },
+        data: updateData,
+        include: planInclude.entries.include,
+      });
+
+      return res.json({
+        success: true,
+        data: {
+          entry,
+        },
+        message: "Créneau mis à jour",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /meal-plans/:id/entries/:entryId
+ * Retire une recette du planning.
+ */
+router.delete(
+  "/:id/entries/:entryId",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { id, entryId } = req.params;
+
+      const plan = await ensurePlanOwner(req.userId!, id);
+      if (!plan) {
+        return res.status(404).json({
+          success: false,
+          message: "Planning non trouvé",
+        });
+      }
+
+      const existingEntry = await prisma.mealPlanEntry.findFirst({
+        where: { id: entryId, mealPlanId: plan.id },
+      });
+
+      if (!existingEntry) {
+        return res.status(404).json({
+          success: false,
+          message: "Créneau non trouvé",
+        });
+      }
+
+      await prisma.mealPlanEntry.delete({
+        where: { id: existingEntry.id },
+      });
+
+      return res.json({
+        success: true,
+        message: "Recette retirée du planning",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
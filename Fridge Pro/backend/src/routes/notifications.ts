@@ -0,0 +1,177 @@
+// Routes du centre de notifications (alertes de péremption).
+import { Router } from "express";
+import { PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
+import { findExpiringLots } from "../services/expiryAlertService";
+import { daysUntil } from "../services/stockService";
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const listSchema = z.object({
+  unread: z
+    .preprocess((value) => value === true || value === "true", z.boolean())
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+/**
+ * GET /notifications
+ * Liste les notifications de l'utilisateur, les plus récentes d'abord.
+ */
+router.get(
+  "/",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { unread, limit } = listSchema.parse(req.query);
+
+      const [notifications, unreadCount] = await Promise.all([
+        prisma.notification.findMany({
+          where: {
+            userId: req.userId,
+            ...(unread ? { read: false } : {}),
+          },
+          orderBy: { createdAt: "desc" },
+          take: limit,
+        }),
+        prisma.notification.count({
+          where: { userId: req.userId, read: false },
+        }),
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          notifications,
+          unreadCount,
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /notifications/digest
+ * Récapitulatif en temps réel des lots du foyer périmés ou proches de leur date limite.
+ */
+router.get(
+  "/digest",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: req.userId },
+        select: { expiryAlertDays: true },
+      });
+
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          message: "Utilisateur introuvable",
+        });
+      }
+
+      const now = new Date();
+      const lots = await findExpiringLots(
+        prisma,
+        req.householdId!,
+        user.expiryAlertDays,
+        now
+      );
+
+      const items = lots.map((lot) => ({
+        ...lot,
+        daysLeft: daysUntil(lot.expiryDate!, now),
+      }));
+
+      res.json({
+        success: true,
+        data: {
+          windowDays: user.expiryAlertDays,
+          expired: items.filter((item) => item.daysLeft < 0),
+          expiringSoon: items.filter((item) => item.daysLeft >= 0),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PATCH /notifications/read-all
+ * Marque toutes les notifications de l'utilisateur comme lues.
+ */
+router.patch(
+  "/read-all",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { count } = await prisma.notification.updateMany({
+        where: { userId: req.userId, read: false },
+        data: { read: true },
+      });
+
+      res.json({
+        success: true,
+        data: {
+          updatedCount: count,
+        },
+        message: "Notifications marquées comme lues",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PATCH /notifications/:id/read
+ * Marque une notification comme lue.
+ */
+router.patch(
+  "/:id/read",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { id } = req.params;
+
+      const existing = await prisma.notification.findUnique({
+        where: { id },
+      });
+
+      if (!existing || existing.userId !== req.userId) {
+        return res.status(404).json({
+          success: false,
+          message: "Notification non trouvée",
+        });
+      }
+
+      const notification = await prisma.notification.update({
+        where: { id },
+        data: { read: true },
+      });
+
+      res.json({
+        success: true,
+        data: {
+          notification,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -1,8 +1,46 @@
 // Routes de gestion des recettes : listing, favoris, suggestions et CRUD.
 import { Router } from "express";
-import { PrismaClient } from "@prisma/client";
+import { Ingredient, PrismaClient } from "@prisma/client";
 import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
 import { z } from "zod";
+import {
+  buildStockIndex,
+  combineRecipeLines,
+  computeRecipeCoverage,
+  computeRecipeRescue,
+  computeShoppingNeeds,
+  IngredientCoverage,
+  planConsumption,
+  RecipeRescue,
+} from "../services/recipeMatchingService";
+import {
+  applyStockUpdates,
+  fifoOrderBy,
+  lockHouseholdLots,
+} from "../services/stockService";
+import {
+  addNeedsToShoppingList,
+  shoppingItemInclude,
+} from "../services/shoppingListService";
+import { publishListEvent } from "../services/shoppingListEvents";
+import {
+  computeRecipeAllergens,
+  guessAllergens,
+} from "../services/allergenService";
+import { computeRecipeDiet } from "../services/dietService";
+import { computeRecipeNutrition } from "../services/nutritionService";
+import {
+  createJournalEntry,
+  recipeEntryData,
+  todayAsDay,
+} from "../services/journalService";
+import {
+  buildRecipeImportDraft,
+  fetchRecipePage,
+} from "../services/recipeImportService";
+import { EXPORT_FORMATS, exportRecipe } from "../services/recipeExportService";
+import { normalizeUnit, scaleQuantity } from "../services/unitService";
+import { createApiError } from "../middleware/errorHandler";
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -31,13 +69,187 @@ const createRecipeSchema = z.object({
     .min(1, "Au moins un ingrédient est requis"),
 });
 
+// Modification partielle ; la liste d'ingrédients, si fournie, remplace l'ancienne.
+const updateRecipeSchema = createRecipeSchema
+  .omit({ description: true, imageUrl: true })
+  .partial()
+  .extend({
+    description: z.string().nullable().optional(),
+    imageUrl: z.string().url().nullable().optional(),
+    ingredients: createRecipeSchema.shape.ingredients
+      .refine(
+        (ingredients) =>
+          new Set(ingredients.map((ing) => ing.ingredientId)).size ===
+          ingredients.length,
+        "Un ingrédient ne peut apparaître qu'une fois dans la recette"
+      )
+      .optional(),
+  });
+
+const importRecipeSchema = z
+  .object({
+    url: z.string().trim().url("URL invalide").optional(),
+    html: z
+      .string()
+      .max(5_000_000, "Le HTML fourni est trop volumineux")
+      .optional(),
+  })
+  .refine(
+    (data) => !!data.url || !!data.html?.trim(),
+    "Indiquez l'URL de la recette ou collez le HTML de la page"
+  );
+
+// Brouillon relu : chaque ligne pointe vers un ingrédient existant ou en nomme un nouveau.
+const confirmImportSchema = createRecipeSchema.extend({
+  sourceUrl: z.string().url().optional(),
+  ingredients: z
+    .array(
+      z
+        .object({
+          ingredientId: z.string().optional(),
+          name: z.string().trim().optional(),
+          quantity: z.number().positive(),
+          unit: z.string(),
+          notes: z.string().optional(),
+        })
+        .refine(
+          (line) => !!line.ingredientId || !!line.name,
+          "Chaque ingrédient doit être associé ou nommé"
+        )
+    )
+    .min(1, "Au moins un ingrédient est requis"),
+});
+
+const recipeDetailQuerySchema = z.object({
+  servings: z.coerce
+    .number({ invalid_type_error: "Le nombre de portions doit être un nombre" })
+    .int("Le nombre de portions doit être entier")
+    .min(1, "Au moins 1 portion")
+    .max(100, "100 portions au maximum")
+    .optional(),
+});
+
+const exportQuerySchema = z.object({
+  format: z
+    .enum(EXPORT_FORMATS, {
+      errorMap: () => ({ message: "Format attendu : jsonld, markdown ou pdf" }),
+    })
+    .default("jsonld"),
+});
+
+// Seul l'auteur d'une recette créée à la main, importée ou par l'IA peut la modifier ou la supprimer.
+const canManageRecipe = (
+  recipe: { source: string | null; createdById: string | null },
+  userId: string
+) =>
+  recipe.createdById === userId &&
+  (recipe.source === "ai_generated" ||
+    recipe.source === "user" ||
+    recipe.source === "imported");
+
+// Détail de disponibilité renvoyé pour chaque ingrédient d'une suggestion.
+const formatCoverage = (coverage: IngredientCoverage) => ({
+  available: coverage.coverage >= 1,
+  availableQuantity: coverage.availableQuantity,
+  shortfall: coverage.shortfall,
+  coverage: Math.round(coverage.coverage * 100),
+});
+
+// Lots proches de leur date limite qu'une suggestion permet d'écouler.
+const formatRescue = (
+  rescue: RecipeRescue,
+  ingredientNames: Map<string, string>
+) => ({
+  antiWasteScore: Math.round(rescue.score * 100),
+  rescuedItems: rescue.rescuedItems.map((item) => ({
+    ...item,
+    ingredientName: ingredientNames.get(item.ingredientId),
+  })),
+});
+
+// Mode de classement des suggestions : couverture du frigo ou anti-gaspi.
+const suggestionsSchema = z.object({
+  mode: z.enum(["coverage", "antiwaste"]).default("coverage"),
+});
+
+// Payload de "J'ai cuisiné ça" : portions réellement préparées, aperçu sans écriture.
+const cookSchema = z.object({
+  servings: z
+    .number({ invalid_type_error: "Le nombre de portions doit être un nombre" })
+    .int()
+    .positive("Le nombre de portions doit être supérieur à 0")
+    .optional(),
+  dryRun: z.boolean().optional().default(false),
+  // Portions mangées par l'utilisateur, notées dans son journal nutritionnel
+  journalServings: z
+    .number({ invalid_type_error: "Le nombre de portions doit être un nombre" })
+    .positive("Le nombre de portions doit être supérieur à 0")
+    .optional(),
+});
+
+// Cible des ingrédients manquants : liste existante ou nouvelle liste.
+const missingToShoppingListSchema = z.object({
+  shoppingListId: z.string().min(1).optional(),
+  listName: z.string().trim().min(1).max(100).optional(),
+  servings: z
+    .number({ invalid_type_error: "Le nombre de portions doit être un nombre" })
+    .int()
+    .positive("Le nombre de portions doit être supérieur à 0")
+    .optional(),
+});
+
+// Allergies et régimes déclarés par l'utilisateur connecté.
+const getFoodProfile = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { allergens: true, dietaryProfiles: true, dietExclusions: true },
+  });
+  return {
+    allergens: user?.allergens ?? [],
+    dietaryProfiles: user?.dietaryProfiles ?? [],
+    dietExclusions: user?.dietExclusions ?? [],
+  };
+};
+
+type FoodProfile = Awaited<ReturnType<typeof getFoodProfile>>;
+
+// Alertes allergènes et conformité au régime d'une recette.
+const recipeRestrictions = (
+  ingredients: Parameters<typeof computeRecipeDiet>[0],
+  profile: FoodProfile
+) => ({
+  ...computeRecipeAllergens(ingredients, profile.allergens),
+  ...computeRecipeDiet(ingredients, profile),
+});
+
+const isRecipeSuitable = (
+  ingredients: Parameters<typeof computeRecipeDiet>[0],
+  profile: FoodProfile
+) => {
+  const restrictions = recipeRestrictions(ingredients, profile);
+  return (
+    restrictions.allergenWarnings.length === 0 && restrictions.dietCompliant
+  );
+};
+
 const filterSchema = z.object({
   search: z.string().optional(),
   difficulty: z.enum(["easy", "medium", "hard"]).optional(),
-  maxPrepTime: z.number().int().positive().optional(),
-  makeable: z.boolean().optional(),
-  page: z.number().int().positive().default(1),
-  limit: z.number().int().positive().max(50).default(20),
+  maxPrepTime: z.coerce.number().int().positive().optional(),
+  // Les paramètres de query arrivent sous forme de chaînes
+  makeable: z
+    .preprocess((value) => value === true || value === "true", z.boolean())
+    .optional(),
+  // Masque les recettes contenant un allergène du profil
+  excludeAllergens: z
+    .preprocess((value) => value === true || value === "true", z.boolean())
+    .optional(),
+  // Ne garde que les recettes conformes aux régimes et exclusions du profil
+  matchDiet: z
+    .preprocess((value) => value === true || value === "true", z.boolean())
+    .optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(50).default(20),
 });
 
 /**
@@ -50,9 +262,18 @@ router.get(
   async (req: AuthenticatedRequest, res, next) => {
     try {
       const filters = filterSchema.parse(req.query);
-      const { search, difficulty, maxPrepTime, makeable, page, limit } =
-        filters;
+      const {
+        search,
+        difficulty,
+        maxPrepTime,
+        makeable,
+        excludeAllergens,
+        matchDiet,
+        page,
+        limit,
+      } = filters;
       const skip = (page - 1) * limit;
+      const profile = await getFoodProfile(req.userId!);
 
       // Construction dynamique de la clause WHERE
       const where: any = {};
@@ -72,38 +293,81 @@ router.get(
         where.prepTime = { lte: maxPrepTime };
       }
 
+      // Même définition que les avertissements : colonne enregistrée et
+      // allergènes déduits du nom, d'où un calcul en mémoire
+      if (excludeAllergens && profile.allergens.length > 0) {
+        const recipeIds = await prisma.recipe
+          .findMany({
+            where,
+            include: { ingredients: { include: { ingredient: true } } },
+          })
+          .then((recipes) =>
+            recipes
+              .filter(
+                (recipe) =>
+                  computeRecipeAllergens(recipe.ingredients, profile.allergens)
+                    .allergenWarnings.length === 0
+              )
+              .map((recipe) => recipe.id)
+          );
+
+        where.id = { in: recipeIds };
+      }
+
       // Filtrer par recettes réalisables uniquement avec le contenu du frigo
       if (makeable) {
         const userFridgeItems = await prisma.fridgeItem.findMany({
-          where: { userId: req.userId },
+          where: { householdId: req.householdId },
           include: { ingredient: true },
         });
 
-        const availableIngredientIds = userFridgeItems.map(
-          (item) => item.ingredientId
-        );
+        const stockIndex = buildStockIndex(userFridgeItems);
 
-        // Trouver les recettes où tous les ingrédients sont disponibles
+        // Trouver les recettes où tous les ingrédients sont disponibles en quantité suffisante
         const recipeIds = await prisma.recipe
           .findMany({
             where,
             include: {
-              ingredients: true,
+              ingredients: {
+                include: { ingredient: true },
+              },
             },
           })
           .then((recipes) => {
             return recipes
-              .filter((recipe) => {
-                return recipe.ingredients.every((recipeIngredient) =>
-                  availableIngredientIds.includes(recipeIngredient.ingredientId)
-                );
-              })
+              .filter(
+                (recipe) =>
+                  computeRecipeCoverage(recipe.ingredients, stockIndex).makeable
+              )
               .map((recipe) => recipe.id);
           });
 
         where.id = { in: recipeIds };
       }
 
+      // La conformité dépend des noms et catégories des ingrédients : calcul en mémoire
+      if (matchDiet) {
+        const recipeIds = await prisma.recipe
+          .findMany({
+            where,
+            include: {
+              ingredients: {
+                include: { ingredient: { include: { category: true } } },
+              },
+            },
+          })
+          .then((recipes) =>
+            recipes
+              .filter(
+                (recipe) =>
+                  computeRecipeDiet(recipe.ingredients, profile).dietCompliant
+              )
+              .map((recipe) => recipe.id)
+          );
+
+        where.id = { in: recipeIds };
+      }
+
       const [recipes, total] = await Promise.all([
         prisma.recipe.findMany({
           where,
@@ -159,9 +423,11 @@ router.get(
             name: ri.ingredient.name,
             categoryId: ri.ingredient.categoryId,
             category: ri.ingredient.category,
+            allergens: ri.ingredient.allergens,
           },
         })),
         isFavorite: recipe.favoriteRecipes.length > 0,
+        ...recipeRestrictions(recipe.ingredients, profile),
       }));
 
       res.json({
@@ -189,25 +455,32 @@ router.get(
 );
 
 /**
- * GET /recipes/suggestions
+ * GET /recipes/suggestions?mode=coverage|antiwaste
  * Calcule un score de compatibilité avec les ingrédients du frigo.
+ * En mode anti-gaspi, les recettes qui écoulent les lots proches de leur date limite passent en premier.
  */
 router.get(
   "/suggestions",
   authenticateToken,
   async (req: AuthenticatedRequest, res, next) => {
     try {
-      // Récupérer les ingrédients du frigo de l'utilisateur
+      const { mode } = suggestionsSchema.parse(req.query);
+
+      // Récupérer les lots du frigo, dans l'ordre où ils seraient consommés
       const userFridgeItems = await prisma.fridgeItem.findMany({
-        where: { userId: req.userId },
+        where: { householdId: req.householdId },
         include: { ingredient: true },
+        orderBy: fifoOrderBy,
       });
 
-      const availableIngredientIds = userFridgeItems.map(
-        (item) => item.ingredientId
+      const stockIndex = buildStockIndex(userFridgeItems);
+      const profile = await getFoodProfile(req.userId!);
+      const ingredientNames = new Map(
+        userFridgeItems.map((item) => [item.ingredientId, item.ingredient.name])
       );
+      const now = new Date();
 
-      if (availableIngredientIds.length === 0) {
+      if (stockIndex.size === 0) {
         return res.json({
           success: true,
           data: {
@@ -275,69 +548,77 @@ router.get(
         allRecipesPromise,
       ]);
 
-      // Calculer le score pour chaque recette
+      // Calculer le score pour chaque recette (couverture partielle des quantités)
       const scoredRecipes = allRecipes.map((recipe) => {
-        const totalIngredients = recipe.ingredients.length;
-        const availableIngredients = recipe.ingredients.filter((ri) =>
-          availableIngredientIds.includes(ri.ingredientId)
-        ).length;
-
-        const score =
-          totalIngredients > 0
-            ? (availableIngredients / totalIngredients) * 100
-            : 0;
+        const coverage = computeRecipeCoverage(recipe.ingredients, stockIndex);
 
         return {
           recipe,
-          score,
-          missingIngredients: recipe.ingredients.filter(
-            (ri) => !availableIngredientIds.includes(ri.ingredientId)
-          ).length,
+          score: coverage.score,
+          missingIngredients: coverage.missingCount,
+          coverage,
+          rescue: computeRecipeRescue(recipe.ingredients, stockIndex, now),
         };
       });
 
       // Trier par score décroissant et prendre les 10 meilleures
-      const favoriteRecipesPayload = favoriteRecipes.map((recipe) => ({
-        id: recipe.id,
-        title: recipe.title,
-        description: recipe.description,
-        instructions: recipe.instructions,
-        prepTime: recipe.prepTime,
-        cookTime: recipe.cookTime,
-        servings: recipe.servings,
-        difficulty: recipe.difficulty,
-        imageUrl: recipe.imageUrl,
-        createdAt: recipe.createdAt,
-        createdById: recipe.createdById,
-        createdBy: recipe.createdBy,
-        source: recipe.source,
-        ingredients: recipe.ingredients.map((ri) => ({
-          id: ri.id,
-          recipeId: ri.recipeId,
-          ingredientId: ri.ingredientId,
-          quantity: ri.quantity,
-          unit: ri.unit,
-          notes: ri.notes,
-          ingredient: {
-            id: ri.ingredient.id,
-            name: ri.ingredient.name,
-            categoryId: ri.ingredient.categoryId,
-            category: ri.ingredient.category,
-          },
-          available: availableIngredientIds.includes(ri.ingredientId),
-        })),
-        isFavorite: true,
-        compatibilityScore: 100,
-        missingIngredientsCount: 0,
-      }));
+      const favoriteRecipesPayload = favoriteRecipes.map((recipe) => {
+        const coverage = computeRecipeCoverage(recipe.ingredients, stockIndex);
+        const rescue = computeRecipeRescue(recipe.ingredients, stockIndex, now);
+
+        return {
+          id: recipe.id,
+          title: recipe.title,
+          description: recipe.description,
+          instructions: recipe.instructions,
+          prepTime: recipe.prepTime,
+          cookTime: recipe.cookTime,
+          servings: recipe.servings,
+          difficulty: recipe.difficulty,
+          imageUrl: recipe.imageUrl,
+          createdAt: recipe.createdAt,
+          createdById: recipe.createdById,
+          createdBy: recipe.createdBy,
+          source: recipe.source,
+          ingredients: recipe.ingredients.map((ri, index) => ({
+            id: ri.id,
+            recipeId: ri.recipeId,
+            ingredientId: ri.ingredientId,
+            quantity: ri.quantity,
+            unit: ri.unit,
+            notes: ri.notes,
+            ingredient: {
+              id: ri.ingredient.id,
+              name: ri.ingredient.name,
+              categoryId: ri.ingredient.categoryId,
+              category: ri.ingredient.category,
+              allergens: ri.ingredient.allergens,
+            },
+            ...formatCoverage(coverage.ingredients[index]),
+          })),
+          isFavorite: true,
+          compatibilityScore: Math.round(coverage.score),
+          missingIngredientsCount: coverage.missingCount,
+          ...formatRescue(rescue, ingredientNames),
+          ...recipeRestrictions(recipe.ingredients, profile),
+        };
+      });
 
       const suggestions = scoredRecipes
+        // Pas de suggestion contraire aux allergies ou au régime (hors favoris)
         .filter(
-          ({ score, recipe }) => score > 0 && !favoriteIdsSet.has(recipe.id)
+          ({ score, recipe }) =>
+            score > 0 &&
+            !favoriteIdsSet.has(recipe.id) &&
+            isRecipeSuitable(recipe.ingredients, profile)
+        )
+        .sort((a, b) =>
+          mode === "antiwaste"
+            ? b.rescue.score - a.rescue.score || b.score - a.score
+            : b.score - a.score
         )
-        .sort((a, b) => b.score - a.score)
         .slice(0, Math.max(10 - favoriteRecipesPayload.length, 0))
-        .map(({ recipe, score, missingIngredients }) => ({
+        .map(({ recipe, score, missingIngredients, coverage, rescue }) => ({
           id: recipe.id,
           title: recipe.title,
           description: recipe.description,
@@ -351,7 +632,7 @@ router.get(
           createdById: recipe.createdById,
           createdBy: recipe.createdBy,
           source: recipe.source,
-          ingredients: recipe.ingredients.map((ri) => ({
+          ingredients: recipe.ingredients.map((ri, index) => ({
             id: ri.id,
             recipeId: ri.recipeId,
             ingredientId: ri.ingredientId,
@@ -363,12 +644,15 @@ router.get(
               name: ri.ingredient.name,
               categoryId: ri.ingredient.categoryId,
               category: ri.ingredient.category,
+              allergens: ri.ingredient.allergens,
             },
-            available: availableIngredientIds.includes(ri.ingredientId),
+            ...formatCoverage(coverage.ingredients[index]),
           })),
           isFavorite: recipe.favoriteRecipes.length > 0,
           compatibilityScore: Math.round(score),
           missingIngredientsCount: missingIngredients,
+          ...formatRescue(rescue, ingredientNames),
+          ...recipeRestrictions(recipe.ingredients, profile),
         }));
 
       const combinedSuggestions = [
@@ -383,6 +667,12 @@ router.get(
         },
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
       next(error);
     }
   }
@@ -397,6 +687,7 @@ router.get(
   authenticateToken,
   async (req: AuthenticatedRequest, res, next) => {
     try {
+      const profile = await getFoodProfile(req.userId!);
       const favoriteRecipes = await prisma.favoriteRecipe.findMany({
         where: { userId: req.userId },
         include: {
@@ -446,10 +737,12 @@ router.get(
             name: ri.ingredient.name,
             categoryId: ri.ingredient.categoryId,
             category: ri.ingredient.category,
+            allergens: ri.ingredient.allergens,
           },
         })),
         isFavorite: true,
         favoriteAddedAt: fav.addedAt,
+        ...recipeRestrictions(fav.recipe.ingredients, profile),
       }));
 
       res.json({
@@ -465,8 +758,63 @@ router.get(
 );
 
 /**
- * GET /recipes/:id
- * Détail complet d'une recette.
+ * GET /recipes/:id/export?format=jsonld|markdown|pdf
+ * Télécharge la recette (ingrédients, étapes, valeurs nutritionnelles).
+ */
+router.get(
+  "/:id/export",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { format } = exportQuerySchema.parse(req.query);
+
+      const recipe = await prisma.recipe.findUnique({
+        where: { id: req.params.id },
+        include: {
+          ingredients: {
+            include: { ingredient: true },
+          },
+          createdBy: {
+            select: { firstName: true, lastName: true },
+          },
+        },
+      });
+
+      if (!recipe) {
+        return res.status(404).json({
+          success: false,
+          message: "Recette non trouvée",
+        });
+      }
+
+      const { content, contentType, filename } = exportRecipe(
+        recipe,
+        computeRecipeNutrition(recipe.ingredients, recipe.servings),
+        format
+      );
+
+      res.setHeader("Content-Type", contentType);
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}"`
+      );
+      res.send(content);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /recipes/:id?servings=N
+ * Détail complet d'une recette, valeurs nutritionnelles comprises. Avec
+ * `servings`, les quantités sont recalculées et arrondies pour N portions.
  */
 router.get(
   "/:id",
@@ -474,6 +822,7 @@ router.get(
   async (req: AuthenticatedRequest, res, next) => {
     try {
       const { id } = req.params;
+      const { servings } = recipeDetailQuerySchema.parse(req.query);
 
       const recipe = await prisma.recipe.findUnique({
         where: { id },
@@ -504,6 +853,12 @@ router.get(
         });
       }
 
+      const factor = servings ? servings / recipe.servings : 1;
+      const ingredients = recipe.ingredients.map((ri) => ({
+        ...ri,
+        ...scaleQuantity(ri.quantity, ri.unit, factor),
+      }));
+
       const formattedRecipe = {
         id: recipe.id,
         title: recipe.title,
@@ -511,14 +866,16 @@ router.get(
         instructions: recipe.instructions,
         prepTime: recipe.prepTime,
         cookTime: recipe.cookTime,
-        servings: recipe.servings,
+        servings: servings ?? recipe.servings,
+        baseServings: recipe.servings,
         difficulty: recipe.difficulty,
         imageUrl: recipe.imageUrl,
         createdAt: recipe.createdAt,
         createdById: recipe.createdById,
         createdBy: recipe.createdBy,
         source: recipe.source,
-        ingredients: recipe.ingredients.map((ri) => ({
+        sourceUrl: recipe.sourceUrl,
+        ingredients: ingredients.map((ri) => ({
           id: ri.id,
           recipeId: ri.recipeId,
           ingredientId: ri.ingredientId,
@@ -530,9 +887,18 @@ router.get(
             name: ri.ingredient.name,
             categoryId: ri.ingredient.categoryId,
             category: ri.ingredient.category,
+            allergens: ri.ingredient.allergens,
           },
         })),
         isFavorite: recipe.favoriteRecipes.length > 0,
+        ...recipeRestrictions(
+          recipe.ingredients,
+          await getFoodProfile(req.userId!)
+        ),
+        nutrition: computeRecipeNutrition(
+          ingredients,
+          servings ?? recipe.servings
+        ),
       };
 
       res.json({
@@ -542,6 +908,12 @@ router.get(
         },
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
       next(error);
     }
   }
@@ -652,98 +1024,360 @@ router.delete(
 );
 
 /**
- * POST /recipes
- * Crée une recette manuelle par l'utilisateur.
+ * POST /recipes/:id/cook
+ * Déduit du frigo les ingrédients d'une recette cuisinée (ou en renvoie l'aperçu),
+ * et note au besoin les portions mangées dans le journal.
  */
 router.post(
-  "/",
+  "/:id/cook",
   authenticateToken,
   async (req: AuthenticatedRequest, res, next) => {
     try {
-      const {
-        title,
-        description,
-        instructions,
-        prepTime,
-        cookTime,
-        servings,
-        difficulty,
-        imageUrl,
-        ingredients,
-      } = createRecipeSchema.parse(req.body);
+      const { id } = req.params;
+      const body = cookSchema.parse(req.body);
 
-      // Créer la recette avec ses ingrédients
-      const recipe = await prisma.recipe.create({
-        data: {
-          title,
-          description,
-          instructions,
-          prepTime,
-          cookTime,
-          servings,
-          difficulty,
-          imageUrl,
-          source: "user",
-          createdById: req.userId,
-          ingredients: {
-            create: ingredients.map((ing) => ({
-              ingredientId: ing.ingredientId,
-              quantity: ing.quantity,
-              unit: ing.unit,
-              notes: ing.notes,
-            })),
-          },
-        },
+      const recipe = await prisma.recipe.findUnique({
+        where: { id },
         include: {
           ingredients: {
-            include: {
-              ingredient: {
-                include: {
-                  category: true,
-                },
-              },
-            },
-          },
-          createdBy: {
-            select: { firstName: true, lastName: true },
+            include: { ingredient: true },
           },
         },
       });
 
-      const formattedRecipe = {
-        id: recipe.id,
-        title: recipe.title,
-        description: recipe.description,
-        instructions: recipe.instructions,
-        prepTime: recipe.prepTime,
-        cookTime: recipe.cookTime,
-        servings: recipe.servings,
-        difficulty: recipe.difficulty,
-        imageUrl: recipe.imageUrl,
-        createdAt: recipe.createdAt,
-        createdById: recipe.createdById,
-        createdBy: recipe.createdBy,
-        source: recipe.source,
-        ingredients: recipe.ingredients.map((ri) => ({
-          id: ri.id,
-          recipeId: ri.recipeId,
-          ingredientId: ri.ingredientId,
-          quantity: ri.quantity,
-          unit: ri.unit,
-          notes: ri.notes,
-          ingredient: {
-            id: ri.ingredient.id,
-            name: ri.ingredient.name,
-            categoryId: ri.ingredient.categoryId,
-            category: ri.ingredient.category,
-          },
-        })),
-        isFavorite: false,
-      };
-
-      res.status(201).json({
-        success: true,
-        data: {
+      if (!recipe) {
+        return res.status(404).json({
+          success: false,
+          message: "Recette non trouvée",
+        });
+      }
+
+      const servings = body.servings ?? recipe.servings;
+      const factor = recipe.servings > 0 ? servings / recipe.servings : 1;
+
+      const ingredientIds = recipe.ingredients.map((ri) => ri.ingredientId);
+
+      // Lots verrouillés avant lecture : deux cuissons simultanées se suivent
+      // au lieu d'écraser chacune la déduction de l'autre
+      const { lines, journalEntry } = await prisma.$transaction(async (tx) => {
+        if (!body.dryRun) {
+          await lockHouseholdLots(tx, req.householdId!, ingredientIds);
+        }
+
+        const fridgeItems = await tx.fridgeItem.findMany({
+          where: {
+            householdId: req.householdId,
+            ingredientId: { in: ingredientIds },
+          },
+          // Les lots qui expirent le plus tôt sont consommés en premier
+          orderBy: fifoOrderBy,
+        });
+
+        const plan = planConsumption(
+          recipe.ingredients,
+          buildStockIndex(fridgeItems),
+          factor
+        );
+
+        if (body.dryRun) {
+          return { lines: plan, journalEntry: null };
+        }
+
+        await applyStockUpdates(
+          tx,
+          plan.flatMap((line) => line.updates)
+        );
+
+        return {
+          lines: plan,
+          journalEntry: body.journalServings
+            ? await createJournalEntry(
+                tx,
+                req.userId!,
+                todayAsDay(),
+                recipeEntryData(recipe, body.journalServings)
+              )
+            : null,
+        };
+      });
+
+      const ingredientNames = new Map(
+        recipe.ingredients.map((ri) => [ri.ingredientId, ri.ingredient.name])
+      );
+      const diff = lines.map((line) => ({
+        ...line,
+        ingredientName: ingredientNames.get(line.ingredientId),
+      }));
+      const updates = lines.flatMap((line) => line.updates);
+
+      res.json({
+        success: true,
+        data: {
+          recipeId: recipe.id,
+          servings,
+          dryRun: body.dryRun,
+          diff,
+          updatedCount: updates.filter((update) => !update.deleted).length,
+          removedCount: updates.filter((update) => update.deleted).length,
+          journalEntry,
+        },
+        message: body.dryRun
+          ? "Aperçu des ingrédients consommés"
+          : "Frigo mis à jour après la recette",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /recipes/:id/missing-to-shopping-list
+ * Ajoute à une liste (existante ou nouvelle) ce qui manque au frigo pour la recette.
+ */
+router.post(
+  "/:id/missing-to-shopping-list",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { id } = req.params;
+      const body = missingToShoppingListSchema.parse(req.body);
+
+      const recipe = await prisma.recipe.findUnique({
+        where: { id },
+        include: {
+          ingredients: {
+            include: { ingredient: true },
+          },
+        },
+      });
+
+      if (!recipe) {
+        return res.status(404).json({
+          success: false,
+          message: "Recette non trouvée",
+        });
+      }
+
+      if (body.shoppingListId) {
+        const list = await prisma.shoppingList.findFirst({
+          where: {
+            id: body.shoppingListId,
+            householdId: req.householdId,
+            archivedAt: null,
+          },
+        });
+
+        if (!list) {
+          return res.status(404).json({
+            success: false,
+            message: "Liste de courses introuvable",
+          });
+        }
+      }
+
+      const servings = body.servings ?? recipe.servings;
+      const factor = recipe.servings > 0 ? servings / recipe.servings : 1;
+
+      const fridgeItems = await prisma.fridgeItem.findMany({
+        where: {
+          householdId: req.householdId,
+          ingredientId: {
+            in: recipe.ingredients.map((ri) => ri.ingredientId),
+          },
+        },
+        orderBy: fifoOrderBy,
+      });
+
+      const { missing, uncomparable } = computeShoppingNeeds(
+        recipe.ingredients,
+        buildStockIndex(fridgeItems),
+        factor
+      );
+      const skippedItems = uncomparable.map((ri) => ({
+        name: ri.ingredient.name,
+        reason: "Stock du frigo dans une unité non comparable",
+      }));
+
+      if (missing.length === 0) {
+        return res.json({
+          success: true,
+          data: {
+            shoppingList: null,
+            addedCount: 0,
+            skippedItems,
+          },
+          message: "Tous les ingrédients sont déjà dans le frigo",
+        });
+      }
+
+      const shoppingList = await prisma.$transaction(async (tx) => {
+        const listId =
+          body.shoppingListId ??
+          (
+            await tx.shoppingList.create({
+              data: {
+                userId: req.userId!,
+                householdId: req.householdId,
+                name: body.listName || `Courses : ${recipe.title}`,
+              },
+            })
+          ).id;
+
+        await addNeedsToShoppingList(
+          tx,
+          listId,
+          missing.map((ri) => ({
+            ingredientId: ri.ingredientId,
+            quantity: ri.quantity,
+            unit: ri.unit,
+            notes: ri.notes ?? undefined,
+            ingredient: ri.ingredient,
+          }))
+        );
+
+        return tx.shoppingList.findUniqueOrThrow({
+          where: { id: listId },
+          include: {
+            items: {
+              include: shoppingItemInclude,
+            },
+          },
+        });
+      });
+
+      publishListEvent({
+        type: body.shoppingListId ? "list_updated" : "list_created",
+        listId: shoppingList.id,
+        householdId: shoppingList.householdId,
+        actor: { id: req.userId!, firstName: req.user!.firstName },
+      });
+
+      return res.status(body.shoppingListId ? 200 : 201).json({
+        success: true,
+        data: {
+          shoppingList,
+          addedCount: missing.length,
+          skippedItems,
+        },
+        message: `${missing.length} ingrédient(s) ajouté(s) à « ${shoppingList.name} »`,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /recipes
+ * Crée une recette manuelle par l'utilisateur.
+ */
+router.post(
+  "/",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const {
+        title,
+        description,
+        instructions,
+        prepTime,
+        cookTime,
+        servings,
+        difficulty,
+        imageUrl,
+        ingredients,
+      } = createRecipeSchema.parse(req.body);
+
+      // Créer la recette avec ses ingrédients
+      const recipe = await prisma.recipe.create({
+        data: {
+          title,
+          description,
+          instructions,
+          prepTime,
+          cookTime,
+          servings,
+          difficulty,
+          imageUrl,
+          source: "user",
+          createdById: req.userId,
+          ingredients: {
+            create: ingredients.map((ing) => ({
+              ingredientId: ing.ingredientId,
+              quantity: ing.quantity,
+              unit: ing.unit,
+              notes: ing.notes,
+            })),
+          },
+        },
+        include: {
+          ingredients: {
+            include: {
+              ingredient: {
+                include: {
+                  category: true,
+                },
+              },
+            },
+          },
+          createdBy: {
+            select: { firstName: true, lastName: true },
+          },
+        },
+      });
+
+      const formattedRecipe = {
+        id: recipe.id,
+        title: recipe.title,
+        description: recipe.description,
+        instructions: recipe.instructions,
+        prepTime: recipe.prepTime,
+        cookTime: recipe.cookTime,
+        servings: recipe.servings,
+        difficulty: recipe.difficulty,
+        imageUrl: recipe.imageUrl,
+        createdAt: recipe.createdAt,
+        createdById: recipe.createdById,
+        createdBy: recipe.createdBy,
+        source: recipe.source,
+        ingredients: recipe.ingredients.map((ri) => ({
+          id: ri.id,
+          recipeId: ri.recipeId,
+          ingredientId: ri.ingredientId,
+          quantity: ri.quantity,
+          unit: ri.unit,
+          notes: ri.notes,
+          ingredient: {
+            id: ri.ingredient.id,
+            name: ri.ingredient.name,
+            categoryId: ri.ingredient.categoryId,
+            category: ri.ingredient.category,
+            allergens: ri.ingredient.allergens,
+          },
+        })),
+        isFavorite: false,
+        ...recipeRestrictions(
+          recipe.ingredients,
+          await getFoodProfile(req.userId!)
+        ),
+      };
+
+      res.status(201).json({
+        success: true,
+        data: {
           recipe: formattedRecipe,
         },
         message: "Recette créée avec succès",
@@ -760,6 +1394,345 @@ router.post(
   }
 );
 
+/**
+ * POST /recipes/import
+ * Analyse une page de recette (URL ou HTML collé) et renvoie un brouillon
+ * à relire : rien n'est enregistré à cette étape.
+ */
+router.post(
+  "/import",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { url, html } = importRecipeSchema.parse(req.body);
+
+      const page = html?.trim() ? html : await fetchRecipePage(url!);
+      const draft = await buildRecipeImportDraft(prisma, page, url ?? null);
+
+      res.json({
+        success: true,
+        data: { draft },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /recipes/import/confirm
+ * Enregistre un brouillon d'import relu par l'utilisateur. Les ingrédients
+ * inconnus du catalogue sont créés, les doublons regroupés.
+ */
+router.post(
+  "/import/confirm",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { ingredients, ...fields } = confirmImportSchema.parse(req.body);
+
+      // Lignes résolues une à une, dans la même transaction que la recette :
+      // deux lignes « sel » / « Sel » ne créent qu'un ingrédient, et un échec
+      // ne laisse pas d'ingrédient orphelin dans le catalogue.
+      const recipe = await prisma.$transaction(async (tx) => {
+        const byName = new Map<string, Ingredient>();
+        const resolved = [];
+
+        for (const { ingredientId, name, ...line } of ingredients) {
+          const key = name?.toLowerCase() ?? "";
+          let ingredient = ingredientId
+            ? await tx.ingredient.findUnique({
+                where: { id: ingredientId },
+              })
+            : byName.get(key) ??
+              (await tx.ingredient.findFirst({
+                where: { name: { equals: name!, mode: "insensitive" } },
+              }));
+
+          if (!ingredient && ingredientId) {
+            throw createApiError("Ingrédient introuvable", 400);
+          }
+
+          if (!ingredient) {
+            ingredient = await tx.ingredient.create({
+              data: { name: name!, allergens: guessAllergens(name!) },
+            });
+          }
+          if (!ingredientId) {
+            byName.set(key, ingredient);
+          }
+
+          resolved.push({
+            ingredientId: ingredient.id,
+            quantity: line.quantity,
+            unit: normalizeUnit(line.unit || "pièce"),
+            notes: line.notes,
+            ingredient,
+          });
+        }
+
+        const combined = combineRecipeLines(resolved);
+
+        return tx.recipe.create({
+          data: {
+            ...fields,
+            source: "imported",
+            createdById: req.userId,
+            ingredients: {
+              create: combined.map(({ ingredient, ...line }) => line),
+            },
+          },
+          include: {
+            ingredients: {
+              include: {
+                ingredient: {
+                  include: {
+                    category: true,
+                  },
+                },
+              },
+            },
+            createdBy: {
+              select: { firstName: true, lastName: true },
+            },
+          },
+        });
+      });
+
+      const formattedRecipe = {
+        id: recipe.id,
+        title: recipe.title,
+        description: recipe.description,
+        instructions: recipe.instructions,
+        prepTime: recipe.prepTime,
+        cookTime: recipe.cookTime,
+        servings: recipe.servings,
+        difficulty: recipe.difficulty,
+        imageUrl: recipe.imageUrl,
+        createdAt: recipe.createdAt,
+        createdById: recipe.createdById,
+        createdBy: recipe.createdBy,
+        source: recipe.source,
+        sourceUrl: recipe.sourceUrl,
+        ingredients: recipe.ingredients.map((ri) => ({
+          id: ri.id,
+          recipeId: ri.recipeId,
+          ingredientId: ri.ingredientId,
+          quantity: ri.quantity,
+          unit: ri.unit,
+          notes: ri.notes,
+          ingredient: {
+            id: ri.ingredient.id,
+            name: ri.ingredient.name,
+            categoryId: ri.ingredient.categoryId,
+            category: ri.ingredient.category,
+            allergens: ri.ingredient.allergens,
+          },
+        })),
+        isFavorite: false,
+        ...recipeRestrictions(
+          recipe.ingredients,
+          await getFoodProfile(req.userId!)
+        ),
+      };
+
+      res.status(201).json({
+        success: true,
+        data: {
+          recipe: formattedRecipe,
+        },
+        message: "Recette importée avec succès",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /recipes/:id
+ * Modifie une recette créée/IA par son auteur. Les ingrédients sont comparés
+ * à l'existant : retirés, mis à jour ou ajoutés, sans toucher aux favoris.
+ */
+router.put(
+  "/:id",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { id } = req.params;
+      const { ingredients, ...fields } = updateRecipeSchema.parse(req.body);
+
+      const existing = await prisma.recipe.findUnique({
+        where: { id },
+        include: { ingredients: true },
+      });
+
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          message: "Recette non trouvée",
+        });
+      }
+
+      if (!canManageRecipe(existing, req.userId!)) {
+        return res.status(403).json({
+          success: false,
+          message: "Vous n'êtes pas autorisé à modifier cette recette",
+        });
+      }
+
+      const ingredientChanges = { added: 0, updated: 0, removed: 0 };
+
+      const recipe = await prisma.$transaction(async (tx) => {
+        if (ingredients) {
+          const wanted = new Map(
+            ingredients.map((ing) => [ing.ingredientId, ing])
+          );
+
+          const removedIds = existing.ingredients
+            .filter((ri) => !wanted.has(ri.ingredientId))
+            .map((ri) => ri.id);
+          if (removedIds.length > 0) {
+            await tx.recipeIngredient.deleteMany({
+              where: { id: { in: removedIds } },
+            });
+            ingredientChanges.removed = removedIds.length;
+          }
+
+          for (const ri of existing.ingredients) {
+            const next = wanted.get(ri.ingredientId);
+            if (
+              !next ||
+              (next.quantity === ri.quantity &&
+                next.unit === ri.unit &&
+                (next.notes ?? null) === ri.notes)
+            ) {
+              continue;
+            }
+
+            await tx.recipeIngredient.update({
+              where: { id: ri.id },
+              data: {
+                quantity: next.quantity,
+                unit: next.unit,
+                notes: next.notes ?? null,
+              },
+            });
+            ingredientChanges.updated += 1;
+          }
+
+          const currentIds = new Set(
+            existing.ingredients.map((ri) => ri.ingredientId)
+          );
+          const added = ingredients.filter(
+            (ing) => !currentIds.has(ing.ingredientId)
+          );
+          if (added.length > 0) {
+            await tx.recipeIngredient.createMany({
+              data: added.map((ing) => ({
+                recipeId: id,
+                ingredientId: ing.ingredientId,
+                quantity: ing.quantity,
+                unit: ing.unit,
+                notes: ing.notes,
+              })),
+            });
+            ingredientChanges.added = added.length;
+          }
+        }
+
+        return tx.recipe.update({
+          where: { id },
+          data: fields,
+          include: {
+            ingredients: {
+              include: {
+                ingredient: {
+                  include: {
+                    category: true,
+                  },
+                },
+              },
+            },
+            favoriteRecipes: {
+              where: { userId: req.userId },
+              select: { id: true },
+            },
+            createdBy: {
+              select: { firstName: true, lastName: true },
+            },
+          },
+        });
+      });
+
+      const formattedRecipe = {
+        id: recipe.id,
+        title: recipe.title,
+        description: recipe.description,
+        instructions: recipe.instructions,
+        prepTime: recipe.prepTime,
+        cookTime: recipe.cookTime,
+        servings: recipe.servings,
+        difficulty: recipe.difficulty,
+        imageUrl: recipe.imageUrl,
+        createdAt: recipe.createdAt,
+        createdById: recipe.createdById,
+        createdBy: recipe.createdBy,
+        source: recipe.source,
+        ingredients: recipe.ingredients.map((ri) => ({
+          id: ri.id,
+          recipeId: ri.recipeId,
+          ingredientId: ri.ingredientId,
+          quantity: ri.quantity,
+          unit: ri.unit,
+          notes: ri.notes,
+          ingredient: {
+            id: ri.ingredient.id,
+            name: ri.ingredient.name,
+            categoryId: ri.ingredient.categoryId,
+            category: ri.ingredient.category,
+            allergens: ri.ingredient.allergens,
+          },
+        })),
+        isFavorite: recipe.favoriteRecipes.length > 0,
+        ...recipeRestrictions(
+          recipe.ingredients,
+          await getFoodProfile(req.userId!)
+        ),
+      };
+
+      res.json({
+        success: true,
+        data: {
+          recipe: formattedRecipe,
+          ingredientChanges,
+        },
+        message: "Recette mise à jour avec succès",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
 /**
  * DELETE /recipes/:id
  * Supprime une recette créée/IA par son auteur.
@@ -787,10 +1760,7 @@ router.delete(
         });
       }
 
-      if (
-        recipe.createdById !== req.userId ||
-        (recipe.source !== "ai_generated" && recipe.source !== "user")
-      ) {
+      if (!canManageRecipe(recipe, req.userId!)) {
         return res.status(403).json({
           success: false,
           message: "Vous n'êtes pas autorisé à supprimer cette recette",
@@ -1,8 +1,29 @@
-// Routes CRUD pour les listes de courses et leurs items.
+// Routes CRUD pour les listes de courses, leurs items, leurs partages et le flux temps réel.
 import { Router } from "express";
 import { PrismaClient } from "@prisma/client";
 import { z } from "zod";
-import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
+import {
+  allowQueryToken,
+  authenticateToken,
+  AuthenticatedRequest,
+} from "../middleware/auth";
+import { convertQuantity, normalizeUnit } from "../services/unitService";
+import {
+  accessibleListsWhere,
+  addItemToShoppingList,
+  hasListAccess,
+  LIST_PERMISSIONS,
+  ListAccess,
+  listAccessFor,
+  shoppingItemInclude,
+} from "../services/shoppingListService";
+import {
+  publishListEvent,
+  ShoppingListEvent,
+  subscribeToListEvents,
+} from "../services/shoppingListEvents";
+import { defaultExpiryDate, stockIngredient } from "../services/stockService";
+import { findMembership } from "../services/householdService";
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -10,7 +31,9 @@ const prisma = new PrismaClient();
 // Sélection standard (liste + items + catégories) utilisée par plusieurs requêtes.
 const listSelect = {
   id: true,
+  householdId: true,
   name: true,
+  archivedAt: true,
   createdAt: true,
   updatedAt: true,
   items: {
@@ -22,8 +45,31 @@ const listSelect = {
       },
     },
   },
+  user: {
+    select: { firstName: true, lastName: true },
+  },
+};
+
+const shareSelect = {
+  id: true,
+  permission: true,
+  createdAt: true,
+  user: {
+    select: { id: true, email: true, firstName: true, lastName: true },
+  },
 };
 
+// Partage de la liste avec l'utilisateur connecté, pour calculer son accès.
+const viewerShare = (userId: string) => ({
+  shares: {
+    where: { userId },
+    select: { userId: true, permission: true },
+  },
+});
+
+// Intervalle des commentaires envoyés pour garder le flux SSE ouvert.
+const HEARTBEAT_MS = 25 * 1000;
+
 // Validation des payloads
 const createListSchema = z.object({
   name: z.string().min(1, "Le nom de la liste est requis"),
@@ -48,39 +94,245 @@ const toggleItemSchema = z.object({
   purchased: z.boolean(),
 });
 
-// Vérifie qu'une liste appartient à l'utilisateur connecté.
-const ensureListOwner = async (userId: string, listId: string) => {
+const listFilterSchema = z.object({
+  archived: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+const shareSchema = z.object({
+  email: z.string().email("Adresse email invalide"),
+  permission: z.enum(LIST_PERMISSIONS).optional().default("edit"),
+});
+
+const sharePermissionSchema = z.object({
+  permission: z.enum(LIST_PERMISSIONS, {
+    errorMap: () => ({ message: "Permission inconnue" }),
+  }),
+});
+
+const checkoutSchema = z.object({
+  location: z.string().optional(),
+  // Date limite par défaut selon la catégorie de l'ingrédient
+  useCategoryExpiry: z.boolean().optional().default(true),
+});
+
+/**
+ * Liste accessible à l'utilisateur (foyer actif ou partage) avec son niveau
+ * d'accès ; null si elle n'existe pas ou ne lui est pas partagée.
+ */
+const findListWithAccess = async (
+  req: AuthenticatedRequest,
+  listId: string
+) => {
   const list = await prisma.shoppingList.findFirst({
     where: {
       id: listId,
-      userId,
+      ...accessibleListsWhere(req.userId!, req.householdId!),
     },
+    include: viewerShare(req.userId!),
+  });
+
+  if (!list) {
+    return null;
+  }
+
+  return {
+    list,
+    access: listAccessFor(list, req.userId!, req.householdId!)!,
+  };
+};
+
+// Remplace les partages sélectionnés par le niveau d'accès de l'utilisateur.
+const withAccess = <
+  T extends {
+    householdId: string | null;
+    shares: { userId: string; permission: string }[];
+  }
+>(
+  list: T,
+  req: AuthenticatedRequest
+) => {
+  const { shares, ...rest } = list;
+  return {
+    ...rest,
+    access: listAccessFor(list, req.userId!, req.householdId!),
+  };
+};
+
+// Diffuse une modification aux autres personnes qui ont la liste ouverte.
+const publish = (
+  req: AuthenticatedRequest,
+  list: { id: string; householdId: string | null },
+  event: Pick<ShoppingListEvent, "type" | "item" | "itemId" | "targetUserId">
+) =>
+  publishListEvent({
+    ...event,
+    listId: list.id,
+    householdId: list.householdId,
+    actor: { id: req.userId!, firstName: req.user!.firstName },
   });
 
-  return list;
+const notFoundListResponse = {
+  success: false,
+  message: "Liste de courses introuvable",
+};
+
+const archivedListResponse = {
+  success: false,
+  message: "Cette liste est archivée et ne peut plus être modifiée",
 };
 
+const alreadyCheckedOutResponse = {
+  success: false,
+  message: "Cette liste a déjà été rangée dans le frigo",
+};
+
+const forbiddenListResponse = (required: ListAccess) => ({
+  success: false,
+  message:
+    required === "owner"
+      ? "Action réservée aux membres du foyer de la liste"
+      : "Vous n'avez qu'un accès en lecture à cette liste",
+});
+
 /**
  * GET /shopping-lists
- * Liste toutes les listes de courses de l'utilisateur.
+ * Listes de courses actives du foyer et celles partagées avec l'utilisateur
+ * (archivées avec ?archived=true), avec le niveau d'accès de chacune.
  */
 router.get(
   "/",
   authenticateToken,
   async (req: AuthenticatedRequest, res, next) => {
     try {
+      const { archived } = listFilterSchema.parse(req.query);
+
       const lists = await prisma.shoppingList.findMany({
-        where: { userId: req.userId },
+        where: {
+          ...accessibleListsWhere(req.userId!, req.householdId!),
+          archivedAt: archived ? { not: null } : null,
+        },
         orderBy: { createdAt: "desc" },
-        select: listSelect,
+        select: { ...listSelect, ...viewerShare(req.userId!) },
       });
 
       return res.json({
         success: true,
         data: {
-          shoppingLists: lists,
+          shoppingLists: lists.map((list) => withAccess(list, req)),
         },
       });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /shopping-lists/events
+ * Flux SSE des modifications des listes accessibles (articles ajoutés, cochés,
+ * retirés, listes créées ou partagées). Token accepté en ?access_token=.
+ */
+router.get(
+  "/events",
+  allowQueryToken,
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const lists = await prisma.shoppingList.findMany({
+        where: accessibleListsWhere(req.userId!, req.householdId!),
+        select: { id: true },
+      });
+      const listIds = new Set(lists.map((list) => list.id));
+
+      res.set({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+      res.flushHeaders();
+      res.write("retry: 5000\n\n");
+
+      let closed = false;
+
+      const stop = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        res.end();
+      };
+
+      // Les accès évoluent pendant la connexion (départ du foyer, changement de
+      // foyer actif, partage retiré) : ils sont relus régulièrement. Sans accès
+      // au foyer, le flux est fermé et le client se reconnecte avec son foyer actuel.
+      const refreshAccess = async () => {
+        const [membership, user, accessible] = await Promise.all([
+          findMembership(prisma, req.householdId!, req.userId!),
+          prisma.user.findUnique({
+            where: { id: req.userId! },
+            select: { activeHouseholdId: true },
+          }),
+          prisma.shoppingList.findMany({
+            where: accessibleListsWhere(req.userId!, req.householdId!),
+            select: { id: true },
+          }),
+        ]);
+
+        if (closed) return;
+        if (!membership || user?.activeHouseholdId !== req.householdId) {
+          stop();
+          return;
+        }
+
+        listIds.clear();
+        accessible.forEach((list) => listIds.add(list.id));
+      };
+
+      const unsubscribe = subscribeToListEvents((event) => {
+        const concernsMe = event.targetUserId === req.userId;
+
+        if (
+          (event.type === "list_created" &&
+            event.householdId === req.householdId) ||
+          (event.type === "share_added" && concernsMe)
+        ) {
+          listIds.add(event.listId);
+        }
+
+        if (!listIds.has(event.listId)) {
+          return;
+        }
+
+        if (
+          event.type === "list_deleted" ||
+          (event.type === "share_removed" && concernsMe)
+        ) {
+          listIds.delete(event.listId);
+        }
+
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+
+        if (event.type === "share_removed") {
+          refreshAccess().catch(stop);
+        }
+      });
+
+      const heartbeat = setInterval(() => {
+        res.write(": ping\n\n");
+        refreshAccess().catch(stop);
+      }, HEARTBEAT_MS);
+
+      req.on("close", stop);
     } catch (error) {
       next(error);
     }
@@ -102,14 +354,17 @@ router.post(
         data: {
           name: body.name,
           userId: req.userId!,
+          householdId: req.householdId,
         },
         select: listSelect,
       });
 
+      publish(req, shoppingList, { type: "list_created" });
+
       return res.status(201).json({
         success: true,
         data: {
-          shoppingList,
+          shoppingList: { ...shoppingList, access: "owner" },
         },
         message: "Liste de courses créée avec succès",
       });
@@ -139,22 +394,19 @@ router.get(
       const shoppingList = await prisma.shoppingList.findFirst({
         where: {
           id,
-          userId: req.userId,
+          ...accessibleListsWhere(req.userId!, req.householdId!),
         },
-        select: listSelect,
+        select: { ...listSelect, ...viewerShare(req.userId!) },
       });
 
       if (!shoppingList) {
-        return res.status(404).json({
-          success: false,
-          message: "Liste de courses introuvable",
-        });
+        return res.status(404).json(notFoundListResponse);
       }
 
       return res.json({
         success: true,
         data: {
-          shoppingList,
+          shoppingList: withAccess(shoppingList, req),
         },
       });
     } catch (error) {
@@ -165,7 +417,7 @@ router.get(
 
 /**
  * DELETE /shopping-lists/:id
- * Supprime une liste appartenant à l'utilisateur.
+ * Supprime une liste du foyer (membres du foyer uniquement).
  */
 router.delete(
   "/:id",
@@ -174,7 +426,61 @@ router.delete(
     try {
       const { id } = req.params;
 
-      const list = await ensureListOwner(req.userId!, id);
+      const found = await findListWithAccess(req, id);
+
+      if (!found) {
+        return res.status(404).json(notFoundListResponse);
+      }
+
+      if (!hasListAccess(found.access, "owner")) {
+        return res.status(403).json(forbiddenListResponse("owner"));
+      }
+
+      await prisma.shoppingList.delete({
+        where: { id },
+      });
+
+      publish(req, found.list, { type: "list_deleted" });
+
+      return res.json({
+        success: true,
+        message: "Liste de courses supprimée",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /shopping-lists/:id/checkout
+ * Range les articles achetés dans le frigo (quantités fusionnées par lot),
+ * puis archive la liste. Les articles non achetés restent sur la liste archivée.
+ * Réservé au foyer de la liste, dont le frigo reçoit les achats.
+ */
+router.post(
+  "/:id/checkout",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { id } = req.params;
+      const body = checkoutSchema.parse(req.body ?? {});
+
+      const found = await findListWithAccess(req, id);
+
+      if (found && !hasListAccess(found.access, "owner")) {
+        return res.status(403).json(forbiddenListResponse("owner"));
+      }
+
+      const list = await prisma.shoppingList.findFirst({
+        where: { id, householdId: req.householdId },
+        include: {
+          items: {
+            where: { purchased: true },
+            include: shoppingItemInclude,
+          },
+        },
+      });
 
       if (!list) {
         return res.status(404).json({
@@ -183,15 +489,92 @@ router.delete(
         });
       }
 
-      await prisma.shoppingList.delete({
-        where: { id },
+      if (list.archivedAt) {
+        return res.status(409).json(alreadyCheckedOutResponse);
+      }
+
+      if (list.items.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: "Aucun article acheté à ranger dans le frigo",
+        });
+      }
+
+      const location = body.location?.trim() || undefined;
+      const now = new Date();
+
+      const result = await prisma.$transaction(async (tx) => {
+        // La liste est réservée avant tout rangement : un second passage
+        // concurrent (autre membre du foyer) ne range pas les articles deux fois
+        const claimed = await tx.shoppingList.updateMany({
+          where: { id, archivedAt: null },
+          data: { archivedAt: now },
+        });
+        if (claimed.count === 0) {
+          return null;
+        }
+
+        const stockedItems = [];
+
+        for (const item of list.items) {
+          const expiryDate = body.useCategoryExpiry
+            ? defaultExpiryDate(
+                item.ingredient.category?.defaultExpiryDays,
+                now
+              )
+            : undefined;
+
+          const { fridgeItem, merged } = await stockIngredient(tx, {
+            userId: req.userId!,
+            householdId: req.householdId!,
+            ingredient: item.ingredient,
+            quantity: item.quantity,
+            unit: item.unit,
+            expiryDate,
+            location,
+            notes: item.notes,
+          });
+
+          stockedItems.push({
+            shoppingListItemId: item.id,
+            quantity: item.quantity,
+            unit: item.unit,
+            merged,
+            fridgeItem,
+          });
+        }
+
+        const shoppingList = await tx.shoppingList.findUniqueOrThrow({
+          where: { id },
+          select: listSelect,
+        });
+
+        return { shoppingList, stockedItems };
       });
 
+      if (!result) {
+        return res.status(409).json(alreadyCheckedOutResponse);
+      }
+
+      publish(req, list, { type: "list_updated" });
+
       return res.json({
         success: true,
-        message: "Liste de courses supprimée",
+        data: {
+          ...result,
+          remainingCount: result.shoppingList.items.filter(
+            (item) => !item.purchased
+          ).length,
+        },
+        message: `${result.stockedItems.length} article(s) rangé(s) dans le frigo`,
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
       next(error);
     }
   }
@@ -209,13 +592,20 @@ router.post(
       const { id } = req.params;
       const body = addItemSchema.parse(req.body);
 
-      const list = await ensureListOwner(req.userId!, id);
+      const found = await findListWithAccess(req, id);
 
-      if (!list) {
-        return res.status(404).json({
-          success: false,
-          message: "Liste de courses introuvable",
-        });
+      if (!found) {
+        return res.status(404).json(notFoundListResponse);
+      }
+
+      if (!hasListAccess(found.access, "edit")) {
+        return res.status(403).json(forbiddenListResponse("edit"));
+      }
+
+      const { list } = found;
+
+      if (list.archivedAt) {
+        return res.status(409).json(archivedListResponse);
       }
 
       const ingredient = await prisma.ingredient.findUnique({
@@ -229,49 +619,9 @@ router.post(
         });
       }
 
-      const existingItem = await prisma.shoppingListItem.findFirst({
-        where: {
-          shoppingListId: id,
-          ingredientId: body.ingredientId,
-        },
-      });
-
-      let item;
+      const item = await addItemToShoppingList(prisma, id, body, ingredient);
 
-      if (existingItem) {
-        item = await prisma.shoppingListItem.update({
-          where: { id: existingItem.id },
-          data: {
-            quantity: existingItem.quantity + body.quantity,
-            unit: body.unit,
-            notes: body.notes,
-          },
-          include: {
-            ingredient: {
-              include: {
-                category: true,
-              },
-            },
-          },
-        });
-      } else {
-        item = await prisma.shoppingListItem.create({
-          data: {
-            shoppingListId: id,
-            ingredientId: body.ingredientId,
-            quantity: body.quantity,
-            unit: body.unit,
-            notes: body.notes,
-          },
-          include: {
-            ingredient: {
-              include: {
-                category: true,
-              },
-            },
-          },
-        });
-      }
+      publish(req, list, { type: "item_added", item });
 
       return res.status(201).json({
         success: true,
@@ -304,13 +654,20 @@ router.put(
       const { listId, itemId } = req.params;
       const body = updateItemSchema.parse(req.body);
 
-      const list = await ensureListOwner(req.userId!, listId);
+      const found = await findListWithAccess(req, listId);
 
-      if (!list) {
-        return res.status(404).json({
-          success: false,
-          message: "Liste de courses introuvable",
-        });
+      if (!found) {
+        return res.status(404).json(notFoundListResponse);
+      }
+
+      if (!hasListAccess(found.access, "edit")) {
+        return res.status(403).json(forbiddenListResponse("edit"));
+      }
+
+      const { list } = found;
+
+      if (list.archivedAt) {
+        return res.status(409).json(archivedListResponse);
       }
 
       const item = await prisma.shoppingListItem.findFirst({
@@ -324,25 +681,45 @@ router.put(
         });
       }
 
-      if (body.ingredientId) {
-        const ingredientExists = await prisma.ingredient.findUnique({
-          where: { id: body.ingredientId },
+      const ingredient = await prisma.ingredient.findUnique({
+        where: { id: body.ingredientId ?? item.ingredientId },
+      });
+
+      if (!ingredient) {
+        return res.status(404).json({
+          success: false,
+          message: "Ingrédient introuvable",
         });
+      }
+
+      let quantity = body.quantity ?? item.quantity;
+      const unit = body.unit ? normalizeUnit(body.unit) : item.unit;
 
-        if (!ingredientExists) {
-          return res.status(404).json({
+      // Changement d'unité seul : on convertit la quantité existante
+      if (body.unit && body.quantity === undefined) {
+        const converted = convertQuantity(
+          item.quantity,
+          item.unit,
+          unit,
+          ingredient
+        );
+
+        if (converted === null) {
+          return res.status(400).json({
             success: false,
-            message: "Ingrédient introuvable",
+            message: `Impossible de convertir ${item.unit} en ${unit} pour ${ingredient.name}`,
           });
         }
+
+        quantity = converted;
       }
 
       const updatedItem = await prisma.shoppingListItem.update({
         where: { id: itemId },
         data: {
-          ingredientId: body.ingredientId ?? item.ingredientId,
-          quantity: body.quantity ?? item.quantity,
-          unit: body.unit ?? item.unit,
+          ingredientId: ingredient.id,
+          quantity,
+          unit,
           notes: body.notes ?? item.notes,
           purchased: body.purchased ?? item.purchased,
         },
@@ -355,6 +732,8 @@ router.put(
         },
       });
 
+      publish(req, list, { type: "item_updated", item: updatedItem });
+
       return res.json({
         success: true,
         data: {
@@ -386,13 +765,20 @@ router.patch(
       const { listId, itemId } = req.params;
       const body = toggleItemSchema.parse(req.body);
 
-      const list = await ensureListOwner(req.userId!, listId);
+      const found = await findListWithAccess(req, listId);
 
-      if (!list) {
-        return res.status(404).json({
-          success: false,
-          message: "Liste de courses introuvable",
-        });
+      if (!found) {
+        return res.status(404).json(notFoundListResponse);
+      }
+
+      if (!hasListAccess(found.access, "edit")) {
+        return res.status(403).json(forbiddenListResponse("edit"));
+      }
+
+      const { list } = found;
+
+      if (list.archivedAt) {
+        return res.status(409).json(archivedListResponse);
       }
 
       const item = await prisma.shoppingListItem.findFirst({
@@ -420,6 +806,8 @@ router.patch(
         },
       });
 
+      publish(req, list, { type: "item_updated", item: updatedItem });
+
       return res.json({
         success: true,
         data: {
@@ -450,13 +838,20 @@ router.delete(
     try {
       const { listId, itemId } = req.params;
 
-      const list = await ensureListOwner(req.userId!, listId);
+      const found = await findListWithAccess(req, listId);
 
-      if (!list) {
-        return res.status(404).json({
-          success: false,
-          message: "Liste de courses introuvable",
-        });
+      if (!found) {
+        return res.status(404).json(notFoundListResponse);
+      }
+
+      if (!hasListAccess(found.access, "edit")) {
+        return res.status(403).json(forbiddenListResponse("edit"));
+      }
+
+      const { list } = found;
+
+      if (list.archivedAt) {
+        return res.status(409).json(archivedListResponse);
       }
 
       const item = await prisma.shoppingListItem.findFirst({
@@ -474,6 +869,8 @@ router.delete(
         where: { id: itemId },
       });
 
+      publish(req, list, { type: "item_removed", itemId });
+
       return res.json({
         success: true,
         message: "Article supprimé",
@@ -484,4 +881,230 @@ router.delete(
   }
 );
 
+/**
+ * GET /shopping-lists/:id/shares
+ * Collaborateurs de la liste (membres du foyer uniquement).
+ */
+router.get(
+  "/:id/shares",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const found = await findListWithAccess(req, req.params.id);
+
+      if (!found) {
+        return res.status(404).json(notFoundListResponse);
+      }
+
+      if (!hasListAccess(found.access, "owner")) {
+        return res.status(403).json(forbiddenListResponse("owner"));
+      }
+
+      const shares = await prisma.shoppingListShare.findMany({
+        where: { shoppingListId: req.params.id },
+        select: shareSelect,
+        orderBy: { createdAt: "asc" },
+      });
+
+      return res.json({
+        success: true,
+        data: { shares },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /shopping-lists/:id/shares
+ * Partage la liste avec un utilisateur existant, en lecture ou en édition.
+ * Un nouveau partage avec la même personne remplace sa permission.
+ */
+router.post(
+  "/:id/shares",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { id } = req.params;
+      const body = shareSchema.parse(req.body);
+
+      const found = await findListWithAccess(req, id);
+
+      if (!found) {
+        return res.status(404).json(notFoundListResponse);
+      }
+
+      if (!hasListAccess(found.access, "owner")) {
+        return res.status(403).json(forbiddenListResponse("owner"));
+      }
+
+      const collaborator = await prisma.user.findFirst({
+        where: { email: { equals: body.email.trim(), mode: "insensitive" } },
+        select: { id: true },
+      });
+
+      if (!collaborator) {
+        return res.status(404).json({
+          success: false,
+          message: "Aucun compte n'utilise cette adresse email",
+        });
+      }
+
+      const isMember =
+        found.list.householdId &&
+        (await prisma.householdMember.findUnique({
+          where: {
+            householdId_userId: {
+              householdId: found.list.householdId,
+              userId: collaborator.id,
+            },
+          },
+        }));
+
+      if (isMember) {
+        return res.status(400).json({
+          success: false,
+          message: "Cette personne fait déjà partie du foyer de la liste",
+        });
+      }
+
+      const share = await prisma.shoppingListShare.upsert({
+        where: {
+          shoppingListId_userId: {
+            shoppingListId: id,
+            userId: collaborator.id,
+          },
+        },
+        create: {
+          shoppingListId: id,
+          userId: collaborator.id,
+          permission: body.permission,
+        },
+        update: { permission: body.permission },
+        select: shareSelect,
+      });
+
+      publish(req, found.list, {
+        type: "share_added",
+        targetUserId: collaborator.id,
+      });
+
+      return res.status(201).json({
+        success: true,
+        data: { share },
+        message: "Liste partagée",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * PATCH /shopping-lists/:id/shares/:userId
+ * Change la permission d'un collaborateur.
+ */
+router.patch(
+  "/:id/shares/:userId",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { id, userId } = req.params;
+      const { permission } = sharePermissionSchema.parse(req.body);
+
+      const found = await findListWithAccess(req, id);
+
+      if (!found) {
+        return res.status(404).json(notFoundListResponse);
+      }
+
+      if (!hasListAccess(found.access, "owner")) {
+        return res.status(403).json(forbiddenListResponse("owner"));
+      }
+
+      const { count } = await prisma.shoppingListShare.updateMany({
+        where: { shoppingListId: id, userId },
+        data: { permission },
+      });
+
+      if (count === 0) {
+        return res.status(404).json({
+          success: false,
+          message: "Partage introuvable",
+        });
+      }
+
+      publish(req, found.list, { type: "share_added", targetUserId: userId });
+
+      return res.json({
+        success: true,
+        message: "Permission mise à jour",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /shopping-lists/:id/shares/:userId
+ * Retire un collaborateur (foyer de la liste), ou se retire soi-même d'une
+ * liste partagée.
+ */
+router.delete(
+  "/:id/shares/:userId",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { id, userId } = req.params;
+
+      const found = await findListWithAccess(req, id);
+
+      if (!found) {
+        return res.status(404).json(notFoundListResponse);
+      }
+
+      if (userId !== req.userId && !hasListAccess(found.access, "owner")) {
+        return res.status(403).json(forbiddenListResponse("owner"));
+      }
+
+      const { count } = await prisma.shoppingListShare.deleteMany({
+        where: { shoppingListId: id, userId },
+      });
+
+      if (count === 0) {
+        return res.status(404).json({
+          success: false,
+          message: "Partage introuvable",
+        });
+      }
+
+      publish(req, found.list, { type: "share_removed", targetUserId: userId });
+
+      return res.json({
+        success: true,
+        message:
+          userId === req.userId
+            ? "Vous ne suivez plus cette liste"
+            : "Partage retiré",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
@@ -3,6 +3,21 @@ import { Router } from "express";
 import { PrismaClient } from "@prisma/client";
 import { z } from "zod";
 import { authenticateToken, AuthenticatedRequest } from "../middleware/auth";
+import {
+  isAllergenCode,
+  normalizeAllergens,
+} from "../services/allergenService";
+import {
+  DIETARY_PROFILES,
+  isDietaryProfile,
+  normalizeDietaryProfiles,
+  normalizeDietExclusions,
+} from "../services/dietService";
+import {
+  accountArchiveSchema,
+  buildAccountArchive,
+  importAccountArchive,
+} from "../services/accountArchiveService";
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -18,6 +33,31 @@ const profileSchema = z.object({
     .max(255, "La clé Gemini ne doit pas dépasser 255 caractères")
     .optional()
     .nullable(),
+  expiryAlertDays: z
+    .number({
+      invalid_type_error: "La fenêtre d'alerte doit être un nombre",
+    })
+    .int()
+    .min(0, "La fenêtre d'alerte ne peut pas être négative")
+    .max(30, "La fenêtre d'alerte ne peut pas dépasser 30 jours")
+    .optional(),
+  allergens: z
+    .array(z.string())
+    .refine((codes) => codes.every(isAllergenCode), "Allergène inconnu")
+    .optional(),
+  dietaryProfiles: z
+    .array(z.string())
+    .refine((codes) => codes.every(isDietaryProfile), "Régime inconnu")
+    .optional(),
+  dietExclusions: z
+    .array(
+      z
+        .string()
+        .trim()
+        .max(50, "Une exclusion ne doit pas dépasser 50 caractères")
+    )
+    .max(30, "30 exclusions au maximum")
+    .optional(),
 });
 
 // Projection standard pour éviter de renvoyer le mot de passe ou autres champs sensibles.
@@ -27,13 +67,17 @@ const userSelect = {
   firstName: true,
   lastName: true,
   geminiApiKey: true,
+  expiryAlertDays: true,
+  allergens: true,
+  dietaryProfiles: true,
+  dietExclusions: true,
   createdAt: true,
   updatedAt: true,
 };
 
 /**
  * GET /users/profile
- * Retourne les informations du compte connecté.
+ * Retourne les informations du compte connecté et son foyer actif.
  */
 router.get(
   "/profile",
@@ -55,7 +99,7 @@ router.get(
       return res.json({
         success: true,
         data: {
-          user,
+          user: { ...user, activeHousehold: req.household },
         },
       });
     } catch (error) {
@@ -64,9 +108,25 @@ router.get(
   }
 );
 
+/**
+ * GET /users/dietary-profiles
+ * Régimes alimentaires proposés dans le profil.
+ */
+router.get("/dietary-profiles", authenticateToken, (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      dietaryProfiles: Object.entries(DIETARY_PROFILES).map(
+        ([code, label]) => ({ code, label })
+      ),
+    },
+  });
+});
+
 /**
  * PUT /users/profile
- * Met à jour les informations du profil (prénom, nom, email).
+ * Met à jour les informations du profil (prénom, nom, email, fenêtre d'alerte,
+ * allergies et régimes).
  */
 router.put(
   "/profile",
@@ -109,6 +169,13 @@ router.put(
           geminiApiKey: body.geminiApiKey?.trim()
             ? body.geminiApiKey.trim()
             : null,
+          expiryAlertDays: body.expiryAlertDays,
+          allergens: body.allergens && normalizeAllergens(body.allergens),
+          dietaryProfiles:
+            body.dietaryProfiles &&
+            normalizeDietaryProfiles(body.dietaryProfiles),
+          dietExclusions:
+            body.dietExclusions && normalizeDietExclusions(body.dietExclusions),
         },
         select: userSelect,
       });
@@ -132,4 +199,67 @@ router.put(
   }
 );
 
+/**
+ * GET /users/me/export
+ * Télécharge l'archive des données du compte (frigo, recettes, favoris,
+ * listes de courses et préférences).
+ */
+router.get(
+  "/me/export",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const archive = await buildAccountArchive(prisma, req.userId!);
+      const day = archive.exportedAt.slice(0, 10);
+
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="fridge-pro-export-${day}.json"`
+      );
+      res.json(archive);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /users/me/import
+ * Restaure une archive exportée dans le compte et le foyer actif, en
+ * rapprochant les ingrédients par nom. Les doublons sont signalés, pas écrasés.
+ */
+router.post(
+  "/me/import",
+  authenticateToken,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const archive = accountArchiveSchema.parse(req.body);
+
+      const report = await prisma.$transaction(
+        (tx) =>
+          importAccountArchive(tx, {
+            userId: req.userId!,
+            householdId: req.householdId!,
+            archive,
+          }),
+        { timeout: 60_000 }
+      );
+
+      return res.json({
+        success: true,
+        data: { report },
+        message: "Données importées avec succès",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: error.errors[0].message,
+        });
+      }
+      next(error);
+    }
+  }
+);
+
 export default router;
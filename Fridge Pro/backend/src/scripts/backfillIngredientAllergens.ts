@@ -0,0 +1,45 @@
+// Complète la colonne allergens des ingrédients existants avec les allergènes
+// déduits de leur nom : vide par défaut sur les fiches créées avant son ajout,
+// elle ne reflétait pas ce que les recettes affichent et filtrent.
+import { PrismaClient } from "@prisma/client";
+import { ingredientAllergens } from "../services/allergenService";
+
+const prisma = new PrismaClient();
+
+export async function backfillIngredientAllergens() {
+  const ingredients = await prisma.ingredient.findMany({
+    select: { id: true, name: true, allergens: true },
+  });
+
+  let updated = 0;
+  for (const ingredient of ingredients) {
+    const allergens = ingredientAllergens(ingredient);
+    if (allergens.every((code) => ingredient.allergens.includes(code))) {
+      continue;
+    }
+
+    await prisma.ingredient.update({
+      where: { id: ingredient.id },
+      data: { allergens },
+    });
+    updated += 1;
+    console.log(`✅ ${ingredient.name} : ${allergens.join(", ")}`);
+  }
+
+  console.log(
+    `${updated} ingrédient(s) complété(s) sur ${ingredients.length}.`
+  );
+}
+
+// Permet d'exécuter `tsx src/scripts/backfillIngredientAllergens.ts`.
+if (require.main === module) {
+  backfillIngredientAllergens()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("💥 Erreur lors de la mise à jour des allergènes:", error);
+      process.exit(1);
+    })
+    .finally(async () => {
+      await prisma.$disconnect();
+    });
+}
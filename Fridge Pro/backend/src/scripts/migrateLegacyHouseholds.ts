@@ -0,0 +1,53 @@
+// Migration ponctuelle vers les foyers : chaque utilisateur reçoit un foyer
+// actif et son frigo et ses listes créés avant les foyers y sont rattachés.
+import { PrismaClient } from "@prisma/client";
+import { ensureActiveHousehold } from "../services/householdService";
+
+const prisma = new PrismaClient();
+
+export async function migrateLegacyHouseholds() {
+  const users = await prisma.user.findMany({
+    where: {
+      OR: [
+        { fridgeItems: { some: { householdId: null } } },
+        { shoppingLists: { some: { householdId: null } } },
+        { householdMemberships: { none: {} } },
+      ],
+    },
+    select: { id: true, firstName: true, activeHouseholdId: true },
+  });
+
+  for (const user of users) {
+    const household = await ensureActiveHousehold(prisma, user);
+
+    const [fridgeItems, shoppingLists] = await prisma.$transaction([
+      prisma.fridgeItem.updateMany({
+        where: { userId: user.id, householdId: null },
+        data: { householdId: household.id },
+      }),
+      prisma.shoppingList.updateMany({
+        where: { userId: user.id, householdId: null },
+        data: { householdId: household.id },
+      }),
+    ]);
+
+    console.log(
+      `✅ ${user.firstName} → ${household.name} (${fridgeItems.count} lot(s), ${shoppingLists.count} liste(s))`
+    );
+  }
+
+  console.log(`${users.length} utilisateur(s) migré(s).`);
+}
+
+// Permet d'exécuter `tsx src/scripts/migrateLegacyHouseholds.ts`.
+if (require.main === module) {
+  migrateLegacyHouseholds()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("💥 Erreur lors de la migration des foyers:", error);
+      process.exit(1);
+    })
+    .finally(async () => {
+      await prisma.$disconnect();
+    });
+}
@@ -1,5 +1,6 @@
 // Script de seed pour importer un corpus de recettes françaises réalistes.
 import { PrismaClient } from "@prisma/client";
+import { guessAllergens } from "../services/allergenService";
 
 const prisma = new PrismaClient();
 
@@ -343,6 +344,7 @@ export async function seedFrenchRecipes() {
             data: {
               name: ing.name,
               categoryId: getIngredientCategory(ing.name),
+              allergens: guessAllergens(ing.name),
             },
           });
           ingredientsCreated++;
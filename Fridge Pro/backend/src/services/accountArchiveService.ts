@@ -0,0 +1,522 @@
+// Portabilité des données d'un compte : archive versionnée (export) et restauration (import).
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { createApiError } from "../middleware/errorHandler";
+import { guessAllergens, normalizeAllergens } from "./allergenService";
+import {
+  normalizeDietaryProfiles,
+  normalizeDietExclusions,
+} from "./dietService";
+import { combineRecipeLines } from "./recipeMatchingService";
+import { normalizeUnit } from "./unitService";
+
+export const ARCHIVE_FORMAT = "fridge-pro-account";
+export const ARCHIVE_VERSION = 1;
+
+// Les ingrédients voyagent par leur nom, avec de quoi les recréer ailleurs.
+const archivedIngredientSchema = z.object({
+  name: z.string().trim().min(1),
+  category: z.string().nullable().default(null),
+  allergens: z.array(z.string()).default([]),
+  calories: z.number().nullable().default(null),
+  protein: z.number().nullable().default(null),
+  carbs: z.number().nullable().default(null),
+  fat: z.number().nullable().default(null),
+  fiber: z.number().nullable().default(null),
+  density: z.number().nullable().default(null),
+  pieceWeight: z.number().nullable().default(null),
+});
+
+const archivedLineSchema = z.object({
+  ingredient: archivedIngredientSchema,
+  quantity: z.number().positive(),
+  unit: z.string().min(1),
+  notes: z.string().nullable().default(null),
+});
+
+export const accountArchiveSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT, {
+    errorMap: () => ({
+      message: "Ce fichier n'est pas une archive Fridge Pro",
+    }),
+  }),
+  version: z.number().int(),
+  exportedAt: z.string(),
+  preferences: z.object({
+    expiryAlertDays: z.number().int().min(0).max(30),
+    allergens: z.array(z.string()),
+    dietaryProfiles: z.array(z.string()),
+    dietExclusions: z.array(z.string()),
+    calorieGoal: z.number().int().nullable(),
+    proteinGoal: z.number().nullable(),
+    carbsGoal: z.number().nullable(),
+    fatGoal: z.number().nullable(),
+    fiberGoal: z.number().nullable(),
+  }),
+  fridgeItems: z.array(
+    archivedLineSchema.extend({
+      expiryDate: z.string().datetime().nullable(),
+      addedDate: z.string().datetime(),
+      location: z.string().nullable(),
+    })
+  ),
+  recipes: z.array(
+    z.object({
+      ref: z.string(), // identifiant d'origine, repris par les favoris
+      title: z.string().min(1),
+      description: z.string().nullable(),
+      instructions: z.array(z.string()),
+      prepTime: z.number().int().nullable(),
+      cookTime: z.number().int().nullable(),
+      servings: z.number().int().positive(),
+      difficulty: z.enum(["easy", "medium", "hard"]),
+      imageUrl: z.string().nullable(),
+      source: z.string().nullable(),
+      sourceUrl: z.string().nullable(),
+      ingredients: z.array(archivedLineSchema),
+    })
+  ),
+  favorites: z.array(
+    z.object({
+      recipeRef: z.string(),
+      title: z.string(),
+      addedAt: z.string().datetime(),
+    })
+  ),
+  shoppingLists: z.array(
+    z.object({
+      name: z.string().min(1),
+      archivedAt: z.string().datetime().nullable(),
+      items: z.array(archivedLineSchema.extend({ purchased: z.boolean() })),
+    })
+  ),
+});
+
+export type AccountArchive = z.infer<typeof accountArchiveSchema>;
+type ArchivedIngredient = z.infer<typeof archivedIngredientSchema>;
+type ArchivedLine = z.infer<typeof archivedLineSchema>;
+
+export type ArchiveSection =
+  | "fridgeItems"
+  | "recipes"
+  | "favorites"
+  | "shoppingLists";
+
+export interface ImportConflict {
+  section: ArchiveSection;
+  name: string;
+  reason: "already_exists" | "recipe_not_found";
+  message: string;
+}
+
+export interface ImportReport {
+  imported: Record<ArchiveSection, number>;
+  ingredientsCreated: number;
+  preferencesUpdated: string[];
+  conflicts: ImportConflict[];
+}
+
+const ingredientSnapshot = {
+  select: {
+    name: true,
+    allergens: true,
+    calories: true,
+    protein: true,
+    carbs: true,
+    fat: true,
+    fiber: true,
+    density: true,
+    pieceWeight: true,
+    category: { select: { name: true } },
+  },
+} as const;
+
+type IngredientSnapshot = Prisma.IngredientGetPayload<
+  typeof ingredientSnapshot
+>;
+
+const toArchivedIngredient = ({
+  category,
+  ...ingredient
+}: IngredientSnapshot) => ({
+  ...ingredient,
+  category: category?.name ?? null,
+});
+
+/**
+ * Rassemble les données personnelles d'un compte : préférences, lots ajoutés
+ * au frigo, recettes créées, favoris et listes de courses créées.
+ */
+export const buildAccountArchive = async (
+  client: Prisma.TransactionClient,
+  userId: string
+): Promise<AccountArchive> => {
+  const user = await client.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: {
+      expiryAlertDays: true,
+      allergens: true,
+      dietaryProfiles: true,
+      dietExclusions: true,
+      calorieGoal: true,
+      proteinGoal: true,
+      carbsGoal: true,
+      fatGoal: true,
+      fiberGoal: true,
+      fridgeItems: {
+        include: { ingredient: ingredientSnapshot },
+        orderBy: { addedDate: "asc" },
+      },
+      recipes: {
+        include: {
+          ingredients: { include: { ingredient: ingredientSnapshot } },
+        },
+        orderBy: { createdAt: "asc" },
+      },
+      favoriteRecipes: {
+        include: { recipe: { select: { title: true } } },
+        orderBy: { addedAt: "asc" },
+      },
+      shoppingLists: {
+        include: {
+          items: { include: { ingredient: ingredientSnapshot } },
+        },
+        orderBy: { createdAt: "asc" },
+      },
+    },
+  });
+
+  const {
+    fridgeItems,
+    recipes,
+    favoriteRecipes,
+    shoppingLists,
+    ...preferences
+  } = user;
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    preferences,
+    fridgeItems: fridgeItems.map((item) => ({
+      ingredient: toArchivedIngredient(item.ingredient),
+      quantity: item.quantity,
+      unit: item.unit,
+      notes: item.notes,
+      expiryDate: item.expiryDate?.toISOString() ?? null,
+      addedDate: item.addedDate.toISOString(),
+      location: item.location,
+    })),
+    recipes: recipes.map((recipe) => ({
+      ref: recipe.id,
+      title: recipe.title,
+      description: recipe.description,
+      instructions: recipe.instructions,
+      prepTime: recipe.prepTime,
+      cookTime: recipe.cookTime,
+      servings: recipe.servings,
+      difficulty: recipe.difficulty as "easy" | "medium" | "hard",
+      imageUrl: recipe.imageUrl,
+      source: recipe.source,
+      sourceUrl: recipe.sourceUrl,
+      ingredients: recipe.ingredients.map((ri) => ({
+        ingredient: toArchivedIngredient(ri.ingredient),
+        quantity: ri.quantity,
+        unit: ri.unit,
+        notes: ri.notes,
+      })),
+    })),
+    favorites: favoriteRecipes.map((favorite) => ({
+      recipeRef: favorite.recipeId,
+      title: favorite.recipe.title,
+      addedAt: favorite.addedAt.toISOString(),
+    })),
+    shoppingLists: shoppingLists.map((list) => ({
+      name: list.name,
+      archivedAt: list.archivedAt?.toISOString() ?? null,
+      items: list.items.map((item) => ({
+        ingredient: toArchivedIngredient(item.ingredient),
+        quantity: item.quantity,
+        unit: item.unit,
+        notes: item.notes,
+        purchased: item.purchased,
+      })),
+    })),
+  };
+};
+
+// Retrouve les ingrédients par nom (sans casse) et crée ceux qui manquent.
+const createIngredientResolver = (
+  client: Prisma.TransactionClient,
+  report: ImportReport
+) => {
+  const cache = new Map<string, string>();
+
+  return async (ingredient: ArchivedIngredient) => {
+    const key = ingredient.name.toLowerCase();
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    let existing = await client.ingredient.findFirst({
+      where: { name: { equals: ingredient.name, mode: "insensitive" } },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      const category = ingredient.category
+        ? await client.category.findUnique({
+            where: { name: ingredient.category },
+            select: { id: true },
+          })
+        : null;
+
+      const { category: _category, ...data } = ingredient;
+      existing = await client.ingredient.create({
+        data: {
+          ...data,
+          allergens:
+            data.allergens.length > 0
+              ? normalizeAllergens(data.allergens)
+              : guessAllergens(data.name),
+          categoryId: category?.id,
+        },
+        select: { id: true },
+      });
+      report.ingredientsCreated += 1;
+    }
+
+    cache.set(key, existing.id);
+    return existing.id;
+  };
+};
+
+// Lignes rattachées au catalogue puis regroupées (un ingrédient par recette ou liste).
+const resolveLines = async <T extends ArchivedLine>(
+  lines: T[],
+  resolveIngredient: ReturnType<typeof createIngredientResolver>
+) => {
+  const resolved = [];
+  for (const { ingredient, ...line } of lines) {
+    resolved.push({
+      ...line,
+      unit: normalizeUnit(line.unit),
+      ingredientId: await resolveIngredient(ingredient),
+      ingredient: {
+        name: ingredient.name,
+        density: ingredient.density,
+        pieceWeight: ingredient.pieceWeight,
+      },
+    });
+  }
+
+  return combineRecipeLines(resolved);
+};
+
+/**
+ * Restaure une archive dans le compte et le foyer actif. Rien n'est écrasé :
+ * les éléments déjà présents sont ignorés et listés comme conflits.
+ */
+export const importAccountArchive = async (
+  client: Prisma.TransactionClient,
+  params: { userId: string; householdId: string; archive: AccountArchive }
+): Promise<ImportReport> => {
+  const { userId, householdId, archive } = params;
+
+  if (archive.version > ARCHIVE_VERSION) {
+    throw createApiError(
+      "Cette archive provient d'une version plus récente de Fridge Pro",
+      400
+    );
+  }
+
+  const report: ImportReport = {
+    imported: { fridgeItems: 0, recipes: 0, favorites: 0, shoppingLists: 0 },
+    ingredientsCreated: 0,
+    preferencesUpdated: [],
+    conflicts: [],
+  };
+  const resolveIngredient = createIngredientResolver(client, report);
+
+  // Préférences : seules les valeurs différentes sont appliquées
+  const user = await client.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: {
+      expiryAlertDays: true,
+      allergens: true,
+      dietaryProfiles: true,
+      dietExclusions: true,
+      calorieGoal: true,
+      proteinGoal: true,
+      carbsGoal: true,
+      fatGoal: true,
+      fiberGoal: true,
+    },
+  });
+  const preferences = {
+    ...archive.preferences,
+    allergens: normalizeAllergens(archive.preferences.allergens),
+    dietaryProfiles: normalizeDietaryProfiles(
+      archive.preferences.dietaryProfiles
+    ),
+    dietExclusions: normalizeDietExclusions(archive.preferences.dietExclusions),
+  };
+  const preferenceChanges = Object.fromEntries(
+    Object.entries(preferences).filter(
+      ([key, value]) =>
+        JSON.stringify(user[key as keyof typeof user]) !== JSON.stringify(value)
+    )
+  );
+  if (Object.keys(preferenceChanges).length > 0) {
+    await client.user.update({
+      where: { id: userId },
+      data: preferenceChanges,
+    });
+    report.preferencesUpdated = Object.keys(preferenceChanges);
+  }
+
+  // Recettes : une recette du même titre déjà créée par l'utilisateur est conservée
+  const recipeIds = new Map<string, string>();
+  for (const { ref, ingredients, ...recipe } of archive.recipes) {
+    const existing = await client.recipe.findFirst({
+      where: {
+        createdById: userId,
+        title: { equals: recipe.title, mode: "insensitive" },
+      },
+      select: { id: true },
+    });
+
+    if (existing) {
+      recipeIds.set(ref, existing.id);
+      report.conflicts.push({
+        section: "recipes",
+        name: recipe.title,
+        reason: "already_exists",
+        message: "Une recette portant ce titre existe déjà",
+      });
+      continue;
+    }
+
+    const lines = await resolveLines(ingredients, resolveIngredient);
+    const created = await client.recipe.create({
+      data: {
+        ...recipe,
+        createdById: userId,
+        ingredients: {
+          create: lines.map(({ ingredient, ...line }) => line),
+        },
+      },
+      select: { id: true },
+    });
+    recipeIds.set(ref, created.id);
+    report.imported.recipes += 1;
+  }
+
+  // Favoris : recette importée, sinon même identifiant, sinon même titre
+  for (const favorite of archive.favorites) {
+    const recipe = recipeIds.has(favorite.recipeRef)
+      ? { id: recipeIds.get(favorite.recipeRef)! }
+      : await client.recipe.findFirst({
+          where: {
+            OR: [
+              { id: favorite.recipeRef },
+              { title: { equals: favorite.title, mode: "insensitive" } },
+            ],
+          },
+          select: { id: true },
+        });
+
+    if (!recipe) {
+      report.conflicts.push({
+        section: "favorites",
+        name: favorite.title,
+        reason: "recipe_not_found",
+        message: "La recette n'existe plus sur ce serveur",
+      });
+      continue;
+    }
+
+    const result = await client.favoriteRecipe.createMany({
+      data: [
+        { userId, recipeId: recipe.id, addedAt: new Date(favorite.addedAt) },
+      ],
+      skipDuplicates: true,
+    });
+    report.imported.favorites += result.count;
+  }
+
+  // Lots du frigo : un lot identique déjà présent dans le foyer n'est pas dupliqué
+  for (const { ingredient, ...item } of archive.fridgeItems) {
+    const ingredientId = await resolveIngredient(ingredient);
+    const data = {
+      ingredientId,
+      quantity: item.quantity,
+      unit: normalizeUnit(item.unit),
+      expiryDate: item.expiryDate ? new Date(item.expiryDate) : null,
+      location: item.location,
+    };
+
+    const duplicate = await client.fridgeItem.findFirst({
+      where: { householdId, ...data },
+      select: { id: true },
+    });
+
+    if (duplicate) {
+      report.conflicts.push({
+        section: "fridgeItems",
+        name: ingredient.name,
+        reason: "already_exists",
+        message: "Un lot identique est déjà dans le frigo",
+      });
+      continue;
+    }
+
+    await client.fridgeItem.create({
+      data: {
+        ...data,
+        userId,
+        householdId,
+        notes: item.notes,
+        addedDate: new Date(item.addedDate),
+      },
+    });
+    report.imported.fridgeItems += 1;
+  }
+
+  // Listes de courses : une liste du même nom dans le foyer est conservée
+  for (const { items, ...list } of archive.shoppingLists) {
+    const existing = await client.shoppingList.findFirst({
+      where: {
+        householdId,
+        name: { equals: list.name, mode: "insensitive" },
+      },
+      select: { id: true },
+    });
+
+    if (existing) {
+      report.conflicts.push({
+        section: "shoppingLists",
+        name: list.name,
+        reason: "already_exists",
+        message: "Une liste portant ce nom existe déjà dans le foyer",
+      });
+      continue;
+    }
+
+    const lines = await resolveLines(items, resolveIngredient);
+    await client.shoppingList.create({
+      data: {
+        name: list.name,
+        archivedAt: list.archivedAt ? new Date(list.archivedAt) : null,
+        userId,
+        householdId,
+        items: {
+          create: lines.map(({ ingredient, ...line }) => line),
+        },
+      },
+    });
+    report.imported.shoppingLists += 1;
+  }
+
+  return report;
+};
@@ -0,0 +1,155 @@
+// Allergènes à déclaration obligatoire (UE) : codes, libellés et croisement avec le profil utilisateur.
+
+// Codes alignés sur les tags OpenFoodFacts (sans préfixe de langue).
+export const ALLERGENS = {
+  gluten: "Gluten",
+  crustaceans: "Crustacés",
+  eggs: "Œufs",
+  fish: "Poisson",
+  peanuts: "Arachides",
+  soybeans: "Soja",
+  milk: "Lait",
+  nuts: "Fruits à coque",
+  celery: "Céleri",
+  mustard: "Moutarde",
+  "sesame-seeds": "Sésame",
+  "sulphur-dioxide-and-sulphites": "Sulfites",
+  lupin: "Lupin",
+  molluscs: "Mollusques",
+} as const;
+
+export type AllergenCode = keyof typeof ALLERGENS;
+
+export const ALLERGEN_CODES = Object.keys(ALLERGENS) as AllergenCode[];
+
+export const isAllergenCode = (code: string): code is AllergenCode =>
+  code in ALLERGENS;
+
+// Conserve les codes connus, sans doublon.
+export const normalizeAllergens = (codes: string[] = []) =>
+  Array.from(new Set(codes.filter(isAllergenCode)));
+
+// Mots-clés (en minuscules, sans accents) pour deviner les allergènes d'un ingrédient créé à la main.
+const ALLERGEN_KEYWORDS: Record<AllergenCode, string[]> = {
+  gluten: [
+    "farine",
+    "ble",
+    "pain",
+    "pate",
+    "semoule",
+    "orge",
+    "seigle",
+    "chapelure",
+    "biscuit",
+  ],
+  crustaceans: ["crevette", "crabe", "homard", "langoustine", "ecrevisse"],
+  eggs: ["oeuf", "mayonnaise"],
+  fish: [
+    "poisson",
+    "saumon",
+    "thon",
+    "cabillaud",
+    "sardine",
+    "anchois",
+    "truite",
+    "colin",
+  ],
+  peanuts: ["arachide", "cacahuete"],
+  soybeans: ["soja", "tofu", "edamame"],
+  milk: [
+    "lait",
+    "fromage",
+    "beurre",
+    "creme",
+    "yaourt",
+    "mozzarella",
+    "parmesan",
+    "emmental",
+    "comte",
+    "chevre",
+    "ricotta",
+    "mascarpone",
+  ],
+  nuts: ["noix", "noisette", "amande", "pistache", "cajou", "pecan"],
+  celery: ["celeri"],
+  mustard: ["moutarde"],
+  "sesame-seeds": ["sesame", "tahini"],
+  "sulphur-dioxide-and-sulphites": ["vin", "vinaigre"],
+  lupin: ["lupin"],
+  molluscs: [
+    "moule",
+    "huitre",
+    "calamar",
+    "poulpe",
+    "seiche",
+    "coquille saint-jacques",
+  ],
+};
+
+export const simplify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/œ/g, "oe")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+
+/**
+ * Prépare un nom pour la recherche de mots-clés simplifiés : mots entiers,
+ * pluriels compris ; un mot-clé composé est cherché tel quel.
+ */
+export const keywordMatcher = (name: string) => {
+  const words = simplify(name)
+    .split(/[^a-z-]+/)
+    .filter(Boolean);
+  const text = words.join(" ");
+
+  return (keyword: string) =>
+    keyword.includes(" ")
+      ? text.includes(keyword)
+      : words.some((word) =>
+          [keyword, `${keyword}s`, `${keyword}x`].includes(word)
+        );
+};
+
+/**
+ * Allergènes probables d'après le nom d'un ingrédient, utilisé quand aucune
+ * source fiable n'est disponible.
+ */
+export const guessAllergens = (name: string) => {
+  const matches = keywordMatcher(name);
+  return ALLERGEN_CODES.filter((code) => ALLERGEN_KEYWORDS[code].some(matches));
+};
+
+/**
+ * Allergènes d'un ingrédient : codes enregistrés complétés par ceux déduits du
+ * nom, les anciennes fiches (colonne vide par défaut) n'en ayant pas.
+ */
+export const ingredientAllergens = (ingredient: {
+  name: string;
+  allergens: string[];
+}) =>
+  normalizeAllergens([
+    ...ingredient.allergens,
+    ...guessAllergens(ingredient.name),
+  ]);
+
+/**
+ * Allergènes d'une recette (union de ses ingrédients) et ceux qui
+ * concernent l'utilisateur.
+ */
+export const computeRecipeAllergens = (
+  ingredients: { ingredient: { name: string; allergens: string[] } }[],
+  userAllergens: string[] = []
+) => {
+  const allergens = Array.from(
+    new Set(ingredients.flatMap((ri) => ingredientAllergens(ri.ingredient)))
+  ).sort();
+
+  return {
+    allergens,
+    allergenWarnings: allergens.filter((code) => userAllergens.includes(code)),
+  };
+};
+
+export const allergenLabels = (codes: string[]) =>
+  codes.map((code) => (isAllergenCode(code) ? ALLERGENS[code] : code));
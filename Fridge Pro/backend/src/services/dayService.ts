@@ -0,0 +1,15 @@
+// Jours calendaires échangés au format AAAA-MM-JJ (colonnes @db.Date, en UTC).
+import { z } from "zod";
+
+export const parseDay = (value: string) => new Date(`${value}T00:00:00Z`);
+
+// Le jour relu doit être celui saisi : « 2024-02-31 » ne glisse pas au 2 mars.
+export const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "La date doit être au format AAAA-MM-JJ")
+  .refine((value) => {
+    const day = parseDay(value);
+    return (
+      !Number.isNaN(day.getTime()) && day.toISOString().slice(0, 10) === value
+    );
+  }, "Date invalide");
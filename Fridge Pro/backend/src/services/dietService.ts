@@ -0,0 +1,169 @@
+// Régimes alimentaires : codes, libellés et conformité des recettes d'après leurs ingrédients.
+import {
+  ingredientAllergens,
+  keywordMatcher,
+  simplify,
+} from "./allergenService";
+
+export const DIETARY_PROFILES = {
+  vegetarian: "Végétarien",
+  vegan: "Végan",
+  halal: "Halal",
+  gluten_free: "Sans gluten",
+  lactose_free: "Sans lactose",
+} as const;
+
+export type DietaryProfile = keyof typeof DIETARY_PROFILES;
+
+export const isDietaryProfile = (code: string): code is DietaryProfile =>
+  code in DIETARY_PROFILES;
+
+// Conserve les régimes connus, sans doublon.
+export const normalizeDietaryProfiles = (codes: string[] = []) =>
+  Array.from(new Set(codes.filter(isDietaryProfile)));
+
+// Exclusions libres (« coriandre », « champignon ») : simplifiées et dédoublonnées.
+export const normalizeDietExclusions = (values: string[] = []) =>
+  Array.from(
+    new Set(values.map((value) => simplify(value).trim()).filter(Boolean))
+  );
+
+export interface DietPreferences {
+  dietaryProfiles: string[];
+  dietExclusions: string[];
+}
+
+interface DietIngredient {
+  ingredientId: string;
+  ingredient: {
+    name: string;
+    allergens: string[];
+    category?: { name: string } | null;
+  };
+}
+
+// Mots-clés simplifiés (minuscules, sans accents).
+const MEAT_KEYWORDS = [
+  "viande",
+  "boeuf",
+  "veau",
+  "porc",
+  "poulet",
+  "dinde",
+  "canard",
+  "agneau",
+  "mouton",
+  "lapin",
+  "volaille",
+  "jambon",
+  "lardon",
+  "bacon",
+  "saucisse",
+  "saucisson",
+  "chorizo",
+  "merguez",
+  "steak",
+  "gelatine",
+];
+const PORK_KEYWORDS = [
+  "porc",
+  "jambon",
+  "lardon",
+  "bacon",
+  "saucisson",
+  "chorizo",
+  "rillettes",
+  "gelatine",
+];
+const ALCOHOL_KEYWORDS = [
+  "vin",
+  "biere",
+  "rhum",
+  "cognac",
+  "calvados",
+  "kirsch",
+  "cidre",
+  "liqueur",
+  "porto",
+];
+const ANIMAL_PRODUCT_KEYWORDS = ["miel"];
+
+// Catégories d'ingrédients incompatibles avec un régime végétarien.
+const MEAT_CATEGORY_KEYWORDS = ["viande", "poisson"];
+
+/**
+ * Régimes du profil qu'un ingrédient enfreint. Les allergènes enregistrés sont
+ * complétés par ceux déduits du nom, les anciennes fiches n'en ayant pas.
+ */
+const violatedDiets = (ingredient: DietIngredient["ingredient"]) => {
+  const matches = keywordMatcher(ingredient.name);
+  const allergens = new Set<string>(ingredientAllergens(ingredient));
+  const categoryName = simplify(ingredient.category?.name ?? "");
+
+  const hasMeat =
+    MEAT_KEYWORDS.some(matches) ||
+    MEAT_CATEGORY_KEYWORDS.some((keyword) => categoryName.includes(keyword));
+  const hasSeafood = ["fish", "crustaceans", "molluscs"].some((code) =>
+    allergens.has(code)
+  );
+  const isVegetarian = !hasMeat && !hasSeafood;
+
+  const compliance: Record<DietaryProfile, boolean> = {
+    vegetarian: isVegetarian,
+    vegan:
+      isVegetarian &&
+      !allergens.has("milk") &&
+      !allergens.has("eggs") &&
+      !ANIMAL_PRODUCT_KEYWORDS.some(matches),
+    halal: !PORK_KEYWORDS.some(matches) && !ALCOHOL_KEYWORDS.some(matches),
+    gluten_free: !allergens.has("gluten"),
+    lactose_free: !allergens.has("milk"),
+  };
+
+  return (Object.keys(compliance) as DietaryProfile[]).filter(
+    (code) => !compliance[code]
+  );
+};
+
+/**
+ * Conformité d'une recette aux régimes et exclusions de l'utilisateur, avec
+ * les ingrédients en cause.
+ */
+export const computeRecipeDiet = (
+  ingredients: DietIngredient[],
+  preferences: DietPreferences
+) => {
+  const dietViolations: {
+    ingredientId: string;
+    ingredientName: string;
+    reasons: string[]; // codes de régime, ou "exclusion"
+  }[] = [];
+
+  if (
+    preferences.dietaryProfiles.length === 0 &&
+    preferences.dietExclusions.length === 0
+  ) {
+    return { dietCompliant: true, dietViolations };
+  }
+
+  ingredients.forEach(({ ingredientId, ingredient }) => {
+    const reasons: string[] = violatedDiets(ingredient).filter((code) =>
+      preferences.dietaryProfiles.includes(code)
+    );
+    if (preferences.dietExclusions.some(keywordMatcher(ingredient.name))) {
+      reasons.push("exclusion");
+    }
+    if (reasons.length > 0) {
+      dietViolations.push({
+        ingredientId,
+        ingredientName: ingredient.name,
+        reasons,
+      });
+    }
+  });
+
+  return { dietCompliant: dietViolations.length === 0, dietViolations };
+};
+
+export const dietaryProfileLabels = (codes: string[]) =>
+  codes.map((code) => (isDietaryProfile(code) ? DIETARY_PROFILES[code] : code));
@@ -0,0 +1,168 @@
+// Alertes de péremption : détection des lots proches de leur date limite et création des notifications.
+import { Prisma, PrismaClient } from "@prisma/client";
+import { DAY_MS, daysUntil, startOfDay } from "./stockService";
+
+const prisma = new PrismaClient();
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+export type ExpiryNotificationType = "expiring_soon" | "expired";
+
+// Borne haute (incluse) de la fenêtre d'alerte : fin du dernier jour surveillé.
+const windowEnd = (windowDays: number, now: Date) =>
+  new Date(startOfDay(now).getTime() + (windowDays + 1) * DAY_MS - 1);
+
+/**
+ * Lots d'un foyer dont la date limite tombe dans la fenêtre (ou est déjà passée).
+ */
+export const findExpiringLots = (
+  client: Prisma.TransactionClient,
+  householdId: string,
+  windowDays: number,
+  now = new Date()
+) =>
+  client.fridgeItem.findMany({
+    where: {
+      householdId,
+      expiryDate: { not: null, lte: windowEnd(windowDays, now) },
+    },
+    include: {
+      ingredient: {
+        include: {
+          category: true,
+        },
+      },
+    },
+    orderBy: { expiryDate: "asc" },
+  });
+
+const buildNotification = (
+  lot: {
+    id: string;
+    quantity: number;
+    unit: string;
+    expiryDate: Date;
+    ingredient: { name: string };
+  },
+  userId: string,
+  now: Date
+): Prisma.NotificationCreateManyInput => {
+  const remainingDays = daysUntil(lot.expiryDate, now);
+  const formattedDate = lot.expiryDate.toLocaleDateString("fr-FR");
+  const label = `${lot.ingredient.name} (${lot.quantity} ${lot.unit})`;
+
+  if (remainingDays < 0) {
+    return {
+      userId,
+      fridgeItemId: lot.id,
+      type: "expired",
+      title: "Produit périmé",
+      message: `${label} a dépassé sa date limite du ${formattedDate}`,
+      expiryDate: lot.expiryDate,
+    };
+  }
+
+  return {
+    userId,
+    fridgeItemId: lot.id,
+    type: "expiring_soon",
+    title: "Péremption proche",
+    message: `${label} expire ${
+      remainingDays === 0
+        ? "aujourd'hui"
+        : `dans ${remainingDays} jour${remainingDays > 1 ? "s" : ""}`
+    } (${formattedDate})`,
+    expiryDate: lot.expiryDate,
+  };
+};
+
+/**
+ * Crée les notifications manquantes pour tous les utilisateurs : chaque membre
+ * du foyer est prévenu selon sa propre fenêtre d'alerte. Une seule alerte par
+ * membre, lot, type et date limite : les relances sont ignorées.
+ */
+export const generateExpiryNotifications = async (now = new Date()) => {
+  const { _max } = await prisma.user.aggregate({
+    _max: { expiryAlertDays: true },
+  });
+
+  const lots = await prisma.fridgeItem.findMany({
+    where: {
+      expiryDate: {
+        not: null,
+        lte: windowEnd(_max.expiryAlertDays ?? 0, now),
+      },
+    },
+    include: {
+      ingredient: { select: { name: true } },
+      user: { select: { id: true, expiryAlertDays: true } },
+      household: {
+        select: {
+          members: {
+            select: { user: { select: { id: true, expiryAlertDays: true } } },
+          },
+        },
+      },
+    },
+  });
+
+  const data = lots.flatMap((lot) => {
+    // Lot antérieur aux foyers : seul son auteur est prévenu
+    const recipients = lot.household
+      ? lot.household.members.map((member) => member.user)
+      : [lot.user];
+
+    return recipients
+      .filter(
+        (recipient) =>
+          lot.expiryDate &&
+          daysUntil(lot.expiryDate, now) <= recipient.expiryAlertDays
+      )
+      .map((recipient) =>
+        buildNotification(
+          { ...lot, expiryDate: lot.expiryDate! },
+          recipient.id,
+          now
+        )
+      );
+  });
+
+  if (data.length === 0) {
+    return 0;
+  }
+
+  const { count } = await prisma.notification.createMany({
+    data,
+    skipDuplicates: true,
+  });
+
+  return count;
+};
+
+/**
+ * Lance la génération périodique des alertes (intervalle configurable via
+ * EXPIRY_ALERT_INTERVAL_MINUTES), avec un premier passage au démarrage.
+ */
+export const startExpiryAlertJob = () => {
+  const minutes =
+    Number(process.env.EXPIRY_ALERT_INTERVAL_MINUTES) ||
+    DEFAULT_INTERVAL_MINUTES;
+
+  const run = async () => {
+    try {
+      const created = await generateExpiryNotifications();
+      if (created > 0) {
+        console.log(`🔔 ${created} alerte(s) de péremption créée(s)`);
+      }
+    } catch (error) {
+      console.error("❌ Erreur lors de la génération des alertes:", error);
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, minutes * 60 * 1000);
+  // Ne bloque pas l'arrêt du processus
+  timer.unref();
+
+  return timer;
+};
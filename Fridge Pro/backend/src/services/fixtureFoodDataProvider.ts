@@ -0,0 +1,59 @@
+// Fournisseur de données alimentaires hors ligne, alimenté par un fichier JSON local (tests, démo).
+import fs from "fs";
+import path from "path";
+import type { ExternalIngredient, FoodDataProvider } from "./foodDataProvider";
+import {
+  OpenFoodFactsProduct,
+  toExternalIngredients,
+} from "./openFoodFactsService";
+
+type FixtureProduct = OpenFoodFactsProduct["product"] & { code: string };
+
+// Résolu depuis ce module (src/ ou dist/) : indépendant du dossier de lancement.
+export const DEFAULT_FIXTURES_PATH = path.resolve(
+  __dirname,
+  "../../fixtures/food-data.json"
+);
+
+export class FixtureFoodDataProvider implements FoodDataProvider {
+  readonly name = "fixtures";
+  private products: FixtureProduct[] | null = null;
+
+  constructor(private readonly fixturesPath = DEFAULT_FIXTURES_PATH) {}
+
+  // Chargement paresseux : le fichier n'est lu qu'au premier appel.
+  private load() {
+    if (!this.products) {
+      // Un chemin relatif fourni par FOOD_DATA_FIXTURES_PATH part du dossier courant
+      const file = path.resolve(this.fixturesPath);
+      const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+      this.products = Array.isArray(data.products) ? data.products : [];
+    }
+    return this.products!;
+  }
+
+  async searchIngredients(query: string): Promise<ExternalIngredient[]> {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+    const matches = this.load().filter((product) => {
+      const haystack = [
+        product.product_name_fr,
+        product.product_name,
+        product.brands,
+        product.categories,
+      ]
+        .join(" ")
+        .toLowerCase();
+      return terms.every((term) => haystack.includes(term));
+    });
+
+    return toExternalIngredients(matches, this.name);
+  }
+
+  async getProductByBarcode(
+    barcode: string
+  ): Promise<OpenFoodFactsProduct | null> {
+    const product = this.load().find((entry) => entry.code === barcode);
+    return product ? { code: product.code, product } : null;
+  }
+}
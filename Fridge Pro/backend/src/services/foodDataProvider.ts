@@ -0,0 +1,115 @@
+// Couche d'accès aux données alimentaires externes : interface commune, cache et choix du fournisseur.
+import { TtlCache } from "./providerUtils";
+import {
+  OpenFoodFactsProduct,
+  OpenFoodFactsService,
+} from "./openFoodFactsService";
+import { FixtureFoodDataProvider } from "./fixtureFoodDataProvider";
+
+export interface NutritionalInfo {
+  calories: number;
+  proteins: number;
+  carbohydrates: number;
+  fat: number;
+  fiber: number;
+  salt: number;
+  sugars: number;
+}
+
+// Résultat de recherche, identifié par le code-barres du produit source.
+export interface ExternalIngredient {
+  name: string;
+  category: string;
+  nutritionalInfo: NutritionalInfo | null;
+  image: string | null;
+  source: string;
+  sourceId: string;
+}
+
+/**
+ * Contrat d'un fournisseur. Les produits sont échangés au format
+ * OpenFoodFacts, qui sert de format pivot.
+ */
+export interface FoodDataProvider {
+  readonly name: string;
+  searchIngredients(query: string): Promise<ExternalIngredient[]>;
+  getProductByBarcode(barcode: string): Promise<OpenFoodFactsProduct | null>;
+}
+
+/**
+ * Décore un fournisseur avec un cache TTL des réponses.
+ * Les erreurs ne sont pas mises en cache ; un produit inconnu (null) l'est.
+ */
+export class CachedFoodDataProvider implements FoodDataProvider {
+  readonly name: string;
+  private readonly searches: TtlCache<ExternalIngredient[]>;
+  private readonly products: TtlCache<OpenFoodFactsProduct | null>;
+
+  constructor(private readonly provider: FoodDataProvider, ttlMs: number) {
+    this.name = provider.name;
+    this.searches = new TtlCache(ttlMs);
+    this.products = new TtlCache(ttlMs);
+  }
+
+  async searchIngredients(query: string) {
+    const key = query.trim().toLowerCase();
+    const cached = this.searches.get(key);
+    if (cached) return cached;
+
+    const results = await this.provider.searchIngredients(query);
+    this.searches.set(key, results);
+    return results;
+  }
+
+  async getProductByBarcode(barcode: string) {
+    const cached = this.products.get(barcode);
+    if (cached !== undefined) return cached;
+
+    const product = await this.provider.getProductByBarcode(barcode);
+    this.products.set(barcode, product);
+    return product;
+  }
+}
+
+const envNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== "" && !Number.isNaN(parsed)
+    ? parsed
+    : fallback;
+};
+
+/**
+ * Construit le fournisseur configuré par l'environnement
+ * (FOOD_DATA_PROVIDER=openfoodfacts|fixtures, fixtures par défaut en test).
+ */
+export const createFoodDataProvider = (
+  env: NodeJS.ProcessEnv = process.env
+): FoodDataProvider => {
+  const kind =
+    env.FOOD_DATA_PROVIDER ||
+    (env.NODE_ENV === "test" ? "fixtures" : "openfoodfacts");
+
+  let provider: FoodDataProvider;
+  if (kind === "fixtures") {
+    provider = new FixtureFoodDataProvider(env.FOOD_DATA_FIXTURES_PATH);
+  } else if (kind === "openfoodfacts") {
+    provider = new OpenFoodFactsService({
+      baseUrl: env.OPENFOODFACTS_BASE_URL,
+      timeoutMs: envNumber(env.FOOD_DATA_TIMEOUT_MS, 5000),
+      retries: envNumber(env.FOOD_DATA_RETRIES, 2),
+      maxRequestsPerMinute: envNumber(
+        env.FOOD_DATA_MAX_REQUESTS_PER_MINUTE,
+        10
+      ),
+    });
+  } else {
+    throw new Error(`Fournisseur de données alimentaires inconnu : ${kind}`);
+  }
+
+  const ttlSeconds = envNumber(env.FOOD_DATA_CACHE_TTL_SECONDS, 3600);
+  return ttlSeconds > 0
+    ? new CachedFoodDataProvider(provider, ttlSeconds * 1000)
+    : provider;
+};
+
+export const foodDataProvider = createFoodDataProvider();
@@ -168,6 +168,9 @@ export const generateRecipeFromPrompt = async (params: {
     quantity?: number | null;
     unit?: string | null;
   }[];
+  excludedAllergens?: string[]; // libellés des allergies de l'utilisateur
+  diets?: string[]; // libellés des régimes suivis
+  excludedIngredients?: string[]; // exclusions libres du profil
 }): Promise<GeneratedRecipe> => {
   const model = getModel(params.apiKey);
 
@@ -187,11 +190,33 @@ ${params.fridgeItems
   .join("\n")}`
     : "L'utilisateur n'a pas fourni de liste d'ingrédients disponibles.";
 
+  const allergenConstraint = params.excludedAllergens?.length
+    ? `
+- L'utilisateur est allergique à : ${params.excludedAllergens.join(
+        ", "
+      )}. N'utilise AUCUN ingrédient qui en contient, même en petite quantité, y compris parmi les ingrédients disponibles.`
+    : "";
+
+  const dietConstraint = [
+    params.diets?.length
+      ? `
+- La recette doit respecter strictement les régimes suivants : ${params.diets.join(
+          ", "
+        )}.`
+      : "",
+    params.excludedIngredients?.length
+      ? `
+- L'utilisateur ne mange pas : ${params.excludedIngredients.join(
+          ", "
+        )}. N'utilise aucun de ces ingrédients.`
+      : "",
+  ].join("");
+
   const systemPrompt = `
 Tu es un chef cuisinier créatif et précis. Ta mission est de générer une recette détaillée en français.
 
 Contraintes :
-- Si des ingrédients disponibles sont fournis, privilégie-les absolument dans la recette, et complète seulement si nécessaire.
+- Si des ingrédients disponibles sont fournis, privilégie-les absolument dans la recette, et complète seulement si nécessaire.${allergenConstraint}${dietConstraint}
 - Donne un titre accrocheur.
 - Fournis une description courte et appétissante.
 - Propose un nombre de portions adapté (par défaut 4 si non précisé).
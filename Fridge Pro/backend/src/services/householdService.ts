@@ -0,0 +1,111 @@
+// Foyers : résolution du foyer actif, rôles des membres et invitations.
+import crypto from "crypto";
+import { Prisma, PrismaClient } from "@prisma/client";
+import { DAY_MS } from "./stockService";
+
+export const HOUSEHOLD_ROLES = ["owner", "member"] as const;
+
+export type HouseholdRole = (typeof HOUSEHOLD_ROLES)[number];
+
+// Durée de validité d'une invitation.
+export const INVITATION_TTL_DAYS = 7;
+
+export interface ActiveHousehold {
+  id: string;
+  name: string;
+  role: HouseholdRole;
+}
+
+const toActiveHousehold = (membership: {
+  role: string;
+  household: { id: string; name: string };
+}): ActiveHousehold => ({
+  id: membership.household.id,
+  name: membership.household.name,
+  role: membership.role === "owner" ? "owner" : "member",
+});
+
+const membershipInclude = {
+  household: { select: { id: true, name: true } },
+};
+
+/**
+ * Foyer actif de l'utilisateur. Sans foyer valide, bascule sur sa plus
+ * ancienne appartenance ; sans aucune, crée son foyer personnel.
+ */
+export const ensureActiveHousehold = async (
+  client: PrismaClient,
+  user: { id: string; firstName: string; activeHouseholdId: string | null }
+): Promise<ActiveHousehold> => {
+  if (user.activeHouseholdId) {
+    const membership = await client.householdMember.findUnique({
+      where: {
+        householdId_userId: {
+          householdId: user.activeHouseholdId,
+          userId: user.id,
+        },
+      },
+      include: membershipInclude,
+    });
+    if (membership) {
+      return toActiveHousehold(membership);
+    }
+  }
+
+  return client.$transaction(async (tx) => {
+    // Verrou sur la ligne utilisateur : les premières requêtes parallèles d'une
+    // page attendent la première et retrouvent le foyer qu'elle a créé
+    await tx.$queryRaw`SELECT id FROM "users" WHERE id = ${user.id} FOR UPDATE`;
+
+    const membership =
+      (await tx.householdMember.findFirst({
+        where: { userId: user.id },
+        include: membershipInclude,
+        orderBy: { joinedAt: "asc" },
+      })) ??
+      (await tx.householdMember.create({
+        data: {
+          user: { connect: { id: user.id } },
+          role: "owner",
+          household: { create: { name: `Foyer de ${user.firstName}` } },
+        },
+        include: membershipInclude,
+      }));
+
+    await tx.user.update({
+      where: { id: user.id },
+      data: { activeHouseholdId: membership.householdId },
+    });
+
+    return toActiveHousehold(membership);
+  });
+};
+
+export const findMembership = (
+  client: Prisma.TransactionClient,
+  householdId: string,
+  userId: string
+) =>
+  client.householdMember.findUnique({
+    where: { householdId_userId: { householdId, userId } },
+  });
+
+// Identifiants des membres d'un foyer (destinataires des notifications partagées).
+export const householdMemberIds = async (
+  client: Prisma.TransactionClient,
+  householdId: string
+) => {
+  const members = await client.householdMember.findMany({
+    where: { householdId },
+    select: { userId: true },
+  });
+  return members.map((member) => member.userId);
+};
+
+export const generateInvitationToken = () =>
+  crypto.randomBytes(24).toString("hex");
+
+export const invitationExpiryDate = (now = new Date()) =>
+  new Date(now.getTime() + INVITATION_TTL_DAYS * DAY_MS);
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
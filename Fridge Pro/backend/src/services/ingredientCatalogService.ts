@@ -0,0 +1,238 @@
+// Catalogue local des produits (code-barres) et résolution vers nos ingrédients.
+import { Prisma, Product } from "@prisma/client";
+import {
+  OpenFoodFactsProduct,
+  convertToIngredient,
+  parsePackageSize,
+} from "./openFoodFactsService";
+import { foodDataProvider } from "./foodDataProvider";
+import {
+  guessAllergens,
+  ingredientAllergens,
+  normalizeAllergens,
+} from "./allergenService";
+
+export const productInclude = {
+  ingredient: {
+    include: {
+      category: true,
+    },
+  },
+};
+
+// Mots-clés OpenFoodFacts → catégories locales, testés dans l'ordre
+// (« fruits de mer » doit tomber dans les viandes & poissons avant les fruits).
+const CATEGORY_KEYWORDS: { category: string; keywords: string[] }[] = [
+  {
+    category: "Viandes & Poissons",
+    keywords: [
+      "viande",
+      "meat",
+      "poisson",
+      "fish",
+      "volaille",
+      "poultr",
+      "charcuterie",
+      "fruits de mer",
+      "seafood",
+    ],
+  },
+  {
+    category: "Produits laitiers",
+    keywords: [
+      "laitier",
+      "dairies",
+      "dairy",
+      "fromage",
+      "cheese",
+      "yaourt",
+      "yogurt",
+      "beurre",
+      "butter",
+      "lait",
+      "milk",
+    ],
+  },
+  {
+    category: "Céréales & Légumineuses",
+    keywords: [
+      "céréale",
+      "cereal",
+      "légumineuse",
+      "legumes",
+      "pâtes",
+      "pasta",
+      "riz",
+      "rice",
+      "pain",
+      "bread",
+    ],
+  },
+  { category: "Fruits", keywords: ["fruit"] },
+  { category: "Légumes", keywords: ["légume", "vegetable"] },
+];
+
+// Code-barres EAN-8, UPC-A, EAN-13 ou GTIN-14.
+export const isValidBarcode = (code: string) => /^\d{8,14}$/.test(code);
+
+/**
+ * Associe les catégories OpenFoodFacts d'un produit à une catégorie locale.
+ */
+export const mapOffCategory = async (
+  client: Prisma.TransactionClient,
+  categories?: string
+) => {
+  const haystack = categories?.toLowerCase() ?? "";
+  const rule = CATEGORY_KEYWORDS.find(({ keywords }) =>
+    keywords.some((keyword) => haystack.includes(keyword))
+  );
+
+  if (!rule) return null;
+
+  return client.category.findUnique({ where: { name: rule.category } });
+};
+
+// Forme exposée au client d'un produit du catalogue.
+export const formatProduct = (product: Product) => ({
+  barcode: product.barcode,
+  name: product.name,
+  brand: product.brand,
+  image: product.imageUrl,
+  allergens: product.allergens,
+  packageQuantity: product.packageQuantity,
+  packageUnit: product.packageUnit,
+});
+
+/**
+ * Ingrédient du catalogue portant ce nom (sans casse), créé avec ses
+ * allergènes probables s'il n'existe pas. Comme pour les produits scannés,
+ * l'insertion sans conflit évite l'erreur de nom unique entre deux requêtes.
+ */
+export const findOrCreateIngredient = async (
+  client: Prisma.TransactionClient,
+  name: string
+) => {
+  const existing = await client.ingredient.findFirst({
+    where: { name: { equals: name, mode: "insensitive" } },
+  });
+  if (existing) {
+    return { ingredient: existing, created: false };
+  }
+
+  const { count } = await client.ingredient.createMany({
+    data: { name, allergens: guessAllergens(name) },
+    skipDuplicates: true,
+  });
+  const ingredient = await client.ingredient.findUniqueOrThrow({
+    where: { name },
+  });
+
+  return { ingredient, created: count > 0 };
+};
+
+/**
+ * Enregistre (ou rafraîchit) un produit OpenFoodFacts dans le catalogue,
+ * rattaché à l'ingrédient du même nom, créé avec ses valeurs nutritionnelles
+ * et sa catégorie s'il n'existe pas encore.
+ */
+export const saveOffProduct = async (
+  client: Prisma.TransactionClient,
+  barcode: string,
+  offProduct: OpenFoodFactsProduct["product"]
+) => {
+  const converted = convertToIngredient(offProduct);
+  const packageSize = parsePackageSize(offProduct);
+  const nutrition = converted.nutritionalInfo;
+
+  let ingredient = await client.ingredient.findFirst({
+    where: { name: { equals: converted.name, mode: "insensitive" } },
+  });
+  let created = false;
+
+  if (!ingredient) {
+    const category = await mapOffCategory(client, offProduct.categories);
+
+    // Insertion sans conflit : deux scans simultanés du même nouveau produit
+    // ne se heurtent pas sur le nom unique, le second relit la fiche créée
+    const { count } = await client.ingredient.createMany({
+      data: {
+        name: converted.name,
+        categoryId: category?.id,
+        calories: nutrition?.calories || undefined,
+        protein: nutrition?.proteins || undefined,
+        carbs: nutrition?.carbohydrates || undefined,
+        fat: nutrition?.fat || undefined,
+        fiber: nutrition?.fiber || undefined,
+        allergens: ingredientAllergens({
+          name: converted.name,
+          allergens: converted.allergens,
+        }),
+      },
+      skipDuplicates: true,
+    });
+    created = count > 0;
+
+    ingredient = await client.ingredient.findUniqueOrThrow({
+      where: { name: converted.name },
+    });
+  }
+
+  const data = {
+    ingredientId: ingredient.id,
+    name: converted.name,
+    brand: offProduct.brands?.split(",")[0].trim() || null,
+    imageUrl: converted.image,
+    allergens: normalizeAllergens(converted.allergens),
+    nutriments: nutrition ?? undefined,
+    packageQuantity: packageSize?.quantity ?? null,
+    packageUnit: packageSize?.unit ?? null,
+    source: foodDataProvider.name,
+  };
+
+  const product = await client.product.upsert({
+    where: { barcode },
+    create: { barcode, ...data },
+    update: data,
+    include: productInclude,
+  });
+
+  return { product, created };
+};
+
+/**
+ * Résout un code-barres en ingrédient local : catalogue d'abord, puis
+ * OpenFoodFacts (le produit est alors enregistré pour les prochains scans).
+ * Retourne null si le produit est inconnu.
+ */
+export const resolveBarcode = async (
+  client: Prisma.TransactionClient,
+  barcode: string
+) => {
+  const known = await client.product.findUnique({
+    where: { barcode },
+    include: productInclude,
+  });
+
+  if (known) {
+    return {
+      ingredient: known.ingredient,
+      created: false,
+      product: formatProduct(known),
+    };
+  }
+
+  const offProduct = await foodDataProvider.getProductByBarcode(barcode);
+  if (!offProduct) return null;
+
+  const { product, created } = await saveOffProduct(
+    client,
+    barcode,
+    offProduct.product
+  );
+
+  return {
+    ingredient: product.ingredient,
+    created,
+    product: formatProduct(product),
+  };
+};
@@ -0,0 +1,139 @@
+// Journal nutritionnel : valeurs d'une consommation, totaux quotidiens et objectifs.
+import { Ingredient, JournalEntry, Prisma, User } from "@prisma/client";
+import { computeRecipeNutrition, NutritionValues } from "./nutritionService";
+import { normalizeUnit } from "./unitService";
+import { DAY_MS } from "./stockService";
+
+type RecipeWithIngredients = Prisma.RecipeGetPayload<{
+  include: { ingredients: { include: { ingredient: true } } };
+}>;
+
+const NUTRIENTS: (keyof NutritionValues)[] = [
+  "calories",
+  "protein",
+  "carbs",
+  "fat",
+  "fiber",
+];
+
+const scaleValues = (values: NutritionValues, factor: number) => {
+  const scaled = {} as NutritionValues;
+  NUTRIENTS.forEach((key) => {
+    scaled[key] = Math.round(values[key] * factor * 10) / 10;
+  });
+  return scaled;
+};
+
+// Jour civil (serveur) exprimé à minuit UTC, comme les colonnes @db.Date.
+export const todayAsDay = (now = new Date()) =>
+  new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
+
+export const formatDayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Données d'une entrée « recette » : valeurs des portions réellement mangées.
+ */
+export const recipeEntryData = (
+  recipe: RecipeWithIngredients,
+  servings: number
+) => {
+  const nutrition = computeRecipeNutrition(recipe.ingredients, recipe.servings);
+
+  return {
+    label: recipe.title,
+    recipeId: recipe.id,
+    servings,
+    ...scaleValues(nutrition.total, servings / Math.max(recipe.servings, 1)),
+    coverage: nutrition.coverage.percent,
+  };
+};
+
+/**
+ * Données d'une entrée « ingrédient » ; couverture nulle si la fiche est vide
+ * ou si l'unité ne se convertit pas en grammes.
+ */
+export const ingredientEntryData = (
+  ingredient: Ingredient,
+  quantity: number,
+  unit: string
+) => {
+  const nutrition = computeRecipeNutrition(
+    [{ ingredientId: ingredient.id, quantity, unit, ingredient }],
+    1
+  );
+
+  return {
+    label: ingredient.name,
+    ingredientId: ingredient.id,
+    quantity,
+    unit: normalizeUnit(unit),
+    ...scaleValues(nutrition.total, 1),
+    coverage: nutrition.coverage.percent,
+  };
+};
+
+export const createJournalEntry = (
+  client: Prisma.TransactionClient,
+  userId: string,
+  date: Date,
+  data: ReturnType<typeof recipeEntryData | typeof ingredientEntryData>
+) =>
+  client.journalEntry.create({
+    data: { ...data, userId, date },
+  });
+
+/**
+ * Regroupe les entrées par jour sur toute la période (jours vides compris),
+ * avec les totaux et un indicateur de complétude des données.
+ */
+export const summarizeDays = (
+  entries: JournalEntry[],
+  from: Date,
+  to: Date
+) => {
+  const days = new Map<
+    string,
+    {
+      date: string;
+      totals: NutritionValues;
+      complete: boolean;
+      entries: JournalEntry[];
+    }
+  >();
+
+  for (let time = from.getTime(); time <= to.getTime(); time += DAY_MS) {
+    const key = formatDayKey(new Date(time));
+    days.set(key, {
+      date: key,
+      totals: { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 },
+      complete: true,
+      entries: [],
+    });
+  }
+
+  entries.forEach((entry) => {
+    const day = days.get(formatDayKey(entry.date));
+    if (!day) return;
+
+    day.entries.push(entry);
+    NUTRIENTS.forEach((key) => {
+      day.totals[key] = Math.round((day.totals[key] + entry[key]) * 10) / 10;
+    });
+    day.complete = day.complete && entry.coverage === 100;
+  });
+
+  return Array.from(days.values());
+};
+
+export const nutritionGoals = (
+  user: Pick<
+    User,
+    "calorieGoal" | "proteinGoal" | "carbsGoal" | "fatGoal" | "fiberGoal"
+  >
+) => ({
+  calories: user.calorieGoal,
+  protein: user.proteinGoal,
+  carbs: user.carbsGoal,
+  fat: user.fatGoal,
+  fiber: user.fiberGoal,
+});
@@ -0,0 +1,111 @@
+// Valeurs nutritionnelles d'une recette, agrégées depuis les fiches ingrédients (valeurs pour 100 g).
+import { ConversionProfile, convertQuantity } from "./unitService";
+
+export interface NutritionValues {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+}
+
+const NUTRIENTS: (keyof NutritionValues)[] = [
+  "calories",
+  "protein",
+  "carbs",
+  "fat",
+  "fiber",
+];
+
+interface NutritionIngredient {
+  ingredientId: string;
+  quantity: number;
+  unit: string;
+  ingredient: ConversionProfile & {
+    name: string;
+    calories: number | null;
+    protein: number | null;
+    carbs: number | null;
+    fat: number | null;
+    fiber: number | null;
+  };
+}
+
+// Raison pour laquelle un ingrédient n'est pas compté.
+export type NutritionGap = "no_data" | "unit";
+
+const emptyValues = (): NutritionValues => ({
+  calories: 0,
+  protein: 0,
+  carbs: 0,
+  fat: 0,
+  fiber: 0,
+});
+
+// Calories à l'unité, macronutriments au dixième de gramme.
+const roundValues = (values: NutritionValues): NutritionValues => ({
+  calories: Math.round(values.calories),
+  protein: Math.round(values.protein * 10) / 10,
+  carbs: Math.round(values.carbs * 10) / 10,
+  fat: Math.round(values.fat * 10) / 10,
+  fiber: Math.round(values.fiber * 10) / 10,
+});
+
+/**
+ * Totaux et valeurs par portion d'une recette. Les ingrédients sans fiche
+ * nutritionnelle ou dont l'unité ne se convertit pas en grammes sont ignorés
+ * et listés, avec le taux de couverture correspondant.
+ */
+export const computeRecipeNutrition = (
+  ingredients: NutritionIngredient[],
+  servings: number
+) => {
+  const total = emptyValues();
+  const missingIngredients: {
+    ingredientId: string;
+    ingredientName: string;
+    reason: NutritionGap;
+  }[] = [];
+
+  ingredients.forEach(({ ingredientId, quantity, unit, ingredient }) => {
+    const hasData = NUTRIENTS.some((key) => ingredient[key] !== null);
+    const grams = hasData
+      ? convertQuantity(quantity, unit, "g", ingredient)
+      : null;
+
+    if (grams === null) {
+      missingIngredients.push({
+        ingredientId,
+        ingredientName: ingredient.name,
+        reason: hasData ? "unit" : "no_data",
+      });
+      return;
+    }
+
+    NUTRIENTS.forEach((key) => {
+      total[key] += ((ingredient[key] ?? 0) * grams) / 100;
+    });
+  });
+
+  const portions = Math.max(servings, 1);
+  const perServing = emptyValues();
+  NUTRIENTS.forEach((key) => {
+    perServing[key] = total[key] / portions;
+  });
+
+  const coveredCount = ingredients.length - missingIngredients.length;
+
+  return {
+    total: roundValues(total),
+    perServing: roundValues(perServing),
+    coverage: {
+      covered: coveredCount,
+      total: ingredients.length,
+      percent:
+        ingredients.length > 0
+          ? Math.round((coveredCount / ingredients.length) * 100)
+          : 0,
+      missingIngredients,
+    },
+  };
+};
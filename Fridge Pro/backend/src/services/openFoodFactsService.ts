@@ -1,16 +1,24 @@
 // Client OpenFoodFacts pour enrichir les ingrédients/produits côté app.
-import axios from "axios";
+import axios, { AxiosInstance } from "axios";
+import { normalizeUnit, roundQuantity } from "./unitService";
+import { createApiError } from "../middleware/errorHandler";
+import { RateLimiter, withRetry } from "./providerUtils";
+import type { ExternalIngredient, FoodDataProvider } from "./foodDataProvider";
 
-interface OpenFoodFactsProduct {
+export interface OpenFoodFactsProduct {
   code: string;
   product: {
     product_name?: string;
     product_name_fr?: string;
     brands?: string;
     categories?: string;
+    quantity?: string; // contenance affichée, ex. "500 g" ou "6 x 1 L"
+    product_quantity?: number | string;
+    product_quantity_unit?: string;
     ingredients_text?: string;
     ingredients_text_fr?: string;
     nutriments?: {
+      "energy-kcal_100g"?: number; // clé réellement renvoyée par l'API
       energy_kcal_100g?: number;
       proteins_100g?: number;
       carbohydrates_100g?: number;
@@ -27,15 +35,197 @@ interface OpenFoodFactsProduct {
 }
 
 interface SearchResult {
-  products: OpenFoodFactsProduct["product"][];
+  products: (OpenFoodFactsProduct["product"] & { code?: string })[];
   count: number;
   page: number;
   page_count: number;
   page_size: number;
 }
 
-export class OpenFoodFactsService {
-  private readonly baseUrl = "https://world.openfoodfacts.org";
+export const DEFAULT_OPENFOODFACTS_BASE_URL = "https://world.openfoodfacts.org";
+
+export interface OpenFoodFactsOptions {
+  baseUrl?: string;
+  timeoutMs?: number;
+  retries?: number;
+  maxRequestsPerMinute?: number; // quota de recherche demandé par OpenFoodFacts
+}
+
+/**
+ * Extrait la catégorie principale d'un produit
+ */
+export const extractMainCategory = (categories?: string): string => {
+  if (!categories) return "Autre";
+
+  const categoryList = categories.split(",").map((cat) => cat.trim());
+
+  // Priorité aux catégories françaises et plus spécifiques
+  const frenchCategories = categoryList.filter(
+    (cat) =>
+      cat.includes("fr:") ||
+      [
+        "Fruits",
+        "Légumes",
+        "Viandes",
+        "Poissons",
+        "Produits laitiers",
+        "Céréales",
+      ].some((mainCat) => cat.includes(mainCat))
+  );
+
+  if (frenchCategories.length > 0) {
+    return frenchCategories[0].replace("fr:", "").trim();
+  }
+
+  return categoryList[0] || "Autre";
+};
+
+const extractNutritionalInfo = (
+  nutriments: OpenFoodFactsProduct["product"]["nutriments"]
+) =>
+  nutriments
+    ? {
+        calories:
+          nutriments["energy-kcal_100g"] || nutriments.energy_kcal_100g || 0,
+        proteins: nutriments.proteins_100g || 0,
+        carbohydrates: nutriments.carbohydrates_100g || 0,
+        fat: nutriments.fat_100g || 0,
+        fiber: nutriments.fiber_100g || 0,
+        salt: nutriments.salt_100g || 0,
+        sugars: nutriments.sugars_100g || 0,
+      }
+    : null;
+
+/**
+ * Résultat de recherche au format commun des fournisseurs.
+ */
+export const toExternalIngredient = (
+  product: OpenFoodFactsProduct["product"],
+  code: string,
+  source = "openfoodfacts"
+): ExternalIngredient | null => {
+  const name = product.product_name_fr || product.product_name;
+  if (!name) return null;
+
+  return {
+    name,
+    category: extractMainCategory(product.categories),
+    nutritionalInfo: extractNutritionalInfo(product.nutriments),
+    image: product.image_front_url || null,
+    source,
+    sourceId: code,
+  };
+};
+
+/**
+ * Dédoublonne les résultats par nom et limite leur nombre.
+ */
+export const toExternalIngredients = (
+  products: (OpenFoodFactsProduct["product"] & { code?: string })[],
+  source?: string
+) => {
+  const ingredients = new Map<string, ExternalIngredient>();
+
+  products.forEach((product) => {
+    const ingredient = toExternalIngredient(
+      product,
+      product.code ?? "",
+      source
+    );
+    if (ingredient && !ingredients.has(ingredient.name.toLowerCase())) {
+      ingredients.set(ingredient.name.toLowerCase(), ingredient);
+    }
+  });
+
+  return Array.from(ingredients.values()).slice(0, 20);
+};
+
+/**
+ * Extrait la contenance d'un produit (quantité + unité normalisée).
+ * Les multipacks (« 6 x 1 L ») sont ramenés à la contenance totale.
+ */
+export const parsePackageSize = (
+  product: OpenFoodFactsProduct["product"]
+): { quantity: number; unit: string } | null => {
+  const label = product.quantity?.toLowerCase().replace(",", ".") ?? "";
+  const match = label.match(
+    /(?:(\d+)\s*[x×]\s*)?(\d+(?:\.\d+)?)\s*(kg|g|mg|cl|ml|l|dl)\b/
+  );
+
+  if (match) {
+    const count = match[1] ? parseInt(match[1], 10) : 1;
+    return {
+      quantity: roundQuantity(count * parseFloat(match[2])),
+      unit: normalizeUnit(match[3]),
+    };
+  }
+
+  const quantity = Number(product.product_quantity);
+  if (quantity > 0) {
+    return {
+      quantity,
+      unit: normalizeUnit(product.product_quantity_unit || "g"),
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Convertit un produit OpenFoodFacts en format d'ingrédient pour notre base
+ */
+export const convertToIngredient = (
+  product: OpenFoodFactsProduct["product"],
+  customName?: string
+) => {
+  const name =
+    customName ||
+    product.product_name_fr ||
+    product.product_name ||
+    "Produit inconnu";
+
+  return {
+    name: name,
+    category: extractMainCategory(product.categories),
+    nutritionalInfo: extractNutritionalInfo(product.nutriments),
+    allergens:
+      product.allergens_tags?.map((tag) => tag.replace(/^\w+:/, "")) || [],
+    image: product.image_front_url || null,
+    source: "openfoodfacts",
+  };
+};
+
+// Erreurs réseau, délais dépassés, quota atteint ou panne côté serveur.
+const isTransientError = (error: unknown) => {
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  return !status || status === 429 || status >= 500;
+};
+
+export class OpenFoodFactsService implements FoodDataProvider {
+  readonly name = "openfoodfacts";
+  private readonly http: AxiosInstance;
+  private readonly limiter: RateLimiter;
+  private readonly retries: number;
+
+  constructor(options: OpenFoodFactsOptions = {}) {
+    this.http = axios.create({
+      baseURL: options.baseUrl || DEFAULT_OPENFOODFACTS_BASE_URL,
+      timeout: options.timeoutMs ?? 5000,
+      headers: { "User-Agent": "FridgePro/1.0" },
+    });
+    this.limiter = new RateLimiter(options.maxRequestsPerMinute ?? 10, 60_000);
+    this.retries = options.retries ?? 2;
+  }
+
+  private async get<T>(path: string, params?: Record<string, unknown>) {
+    const response = await withRetry(
+      () => this.limiter.schedule(() => this.http.get<T>(path, { params })),
+      this.retries,
+      isTransientError
+    );
+    return response.data;
+  }
 
   /**
    * Recherche des produits par nom (en français)
@@ -46,169 +236,68 @@ export class OpenFoodFactsService {
     pageSize: number = 20
   ): Promise<SearchResult> {
     try {
-      const response = await axios.get(`${this.baseUrl}/cgi/search.pl`, {
-        params: {
-          search_terms: query,
-          search_simple: 1,
-          action: "process",
-          json: 1,
-          page: page,
-          page_size: pageSize,
-          fields:
-            "code,product_name,product_name_fr,brands,categories,ingredients_text,ingredients_text_fr,nutriments,allergens_tags,traces_tags,image_url,image_front_url",
-          countries: "France",
-          lang: "fr",
-        },
+      return await this.get<SearchResult>("/cgi/search.pl", {
+        search_terms: query,
+        search_simple: 1,
+        action: "process",
+        json: 1,
+        page: page,
+        page_size: pageSize,
+        fields:
+          "code,product_name,product_name_fr,brands,categories,ingredients_text,ingredients_text_fr,nutriments,allergens_tags,traces_tags,image_url,image_front_url",
+        countries: "France",
+        lang: "fr",
       });
-
-      return response.data;
     } catch (error) {
       console.error("Erreur lors de la recherche OpenFoodFacts:", error);
-      throw new Error("Impossible de rechercher les produits");
+      throw createApiError("Impossible de rechercher les produits", 502);
     }
   }
 
   /**
-   * Récupère un produit par son code-barres
+   * Récupère un produit par son code-barres (null si inconnu)
    */
   async getProductByBarcode(
     barcode: string
   ): Promise<OpenFoodFactsProduct | null> {
     try {
-      const response = await axios.get(
-        `${this.baseUrl}/api/v0/product/${barcode}.json`
+      const data = await this.get<OpenFoodFactsProduct & { status: number }>(
+        `/api/v0/product/${encodeURIComponent(barcode)}.json`
       );
 
-      if (response.data.status === 1) {
-        return response.data;
-      }
-
-      return null;
+      return data.status === 1
+        ? { code: data.code, product: data.product }
+        : null;
     } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
       console.error("Erreur lors de la récupération du produit:", error);
-      return null;
+      throw createApiError("Service OpenFoodFacts indisponible", 502);
     }
   }
 
   /**
    * Recherche des ingrédients spécifiquement
    */
-  async searchIngredients(query: string): Promise<any[]> {
+  async searchIngredients(query: string): Promise<ExternalIngredient[]> {
     try {
-      const response = await axios.get(`${this.baseUrl}/cgi/search.pl`, {
-        params: {
-          search_terms: query,
-          search_simple: 1,
-          action: "process",
-          json: 1,
-          page_size: 50,
-          fields:
-            "code,product_name,product_name_fr,brands,categories,ingredients_text_fr,nutriments,image_front_url",
-          countries: "France",
-          lang: "fr",
-        },
-      });
-
-      if (!response.data.products) {
-        return [];
-      }
-
-      // Filtrer et transformer les résultats pour extraire les ingrédients
-      const ingredients = new Map<string, any>();
-
-      response.data.products.forEach((product: any) => {
-        const name = product.product_name_fr || product.product_name;
-        if (name && !ingredients.has(name.toLowerCase())) {
-          ingredients.set(name.toLowerCase(), {
-            name: name,
-            category: this.extractMainCategory(product.categories),
-            nutritionalInfo: product.nutriments
-              ? {
-                  calories: product.nutriments.energy_kcal_100g || 0,
-                  proteins: product.nutriments.proteins_100g || 0,
-                  carbohydrates: product.nutriments.carbohydrates_100g || 0,
-                  fat: product.nutriments.fat_100g || 0,
-                  fiber: product.nutriments.fiber_100g || 0,
-                  salt: product.nutriments.salt_100g || 0,
-                  sugars: product.nutriments.sugars_100g || 0,
-                }
-              : null,
-            image: product.image_front_url || null,
-            source: "openfoodfacts",
-            sourceId: product.code,
-          });
-        }
+      const data = await this.get<Partial<SearchResult>>("/cgi/search.pl", {
+        search_terms: query,
+        search_simple: 1,
+        action: "process",
+        json: 1,
+        page_size: 50,
+        fields:
+          "code,product_name,product_name_fr,brands,categories,ingredients_text_fr,nutriments,image_front_url",
+        countries: "France",
+        lang: "fr",
       });
 
-      return Array.from(ingredients.values()).slice(0, 20);
+      return toExternalIngredients(data.products ?? []);
     } catch (error) {
       console.error("Erreur lors de la recherche d'ingrédients:", error);
-      return [];
+      throw createApiError("Service OpenFoodFacts indisponible", 502);
     }
   }
-
-  /**
-   * Extrait la catégorie principale d'un produit
-   */
-  private extractMainCategory(categories: string): string {
-    if (!categories) return "Autre";
-
-    const categoryList = categories.split(",").map((cat) => cat.trim());
-
-    // Priorité aux catégories françaises et plus spécifiques
-    const frenchCategories = categoryList.filter(
-      (cat) =>
-        cat.includes("fr:") ||
-        [
-          "Fruits",
-          "Légumes",
-          "Viandes",
-          "Poissons",
-          "Produits laitiers",
-          "Céréales",
-        ].some((mainCat) => cat.includes(mainCat))
-    );
-
-    if (frenchCategories.length > 0) {
-      return frenchCategories[0].replace("fr:", "").trim();
-    }
-
-    return categoryList[0] || "Autre";
-  }
-
-  /**
-   * Convertit un produit OpenFoodFacts en format d'ingrédient pour notre base
-   */
-  convertToIngredient(
-    product: OpenFoodFactsProduct["product"],
-    customName?: string
-  ) {
-    const name =
-      customName ||
-      product.product_name_fr ||
-      product.product_name ||
-      "Produit inconnu";
-
-    return {
-      name: name,
-      category: this.extractMainCategory(product.categories || ""),
-      nutritionalInfo: product.nutriments
-        ? {
-            calories: product.nutriments.energy_kcal_100g || 0,
-            proteins: product.nutriments.proteins_100g || 0,
-            carbohydrates: product.nutriments.carbohydrates_100g || 0,
-            fat: product.nutriments.fat_100g || 0,
-            fiber: product.nutriments.fiber_100g || 0,
-            salt: product.nutriments.salt_100g || 0,
-            sugars: product.nutriments.sugars_100g || 0,
-          }
-        : null,
-      allergens:
-        product.allergens_tags?.map((tag) => tag.replace("en:", "")) || [],
-      image: product.image_front_url || null,
-      source: "openfoodfacts",
-    };
-  }
 }
-
-export const openFoodFactsService = new OpenFoodFactsService();
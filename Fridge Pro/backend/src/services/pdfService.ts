@@ -0,0 +1,145 @@
+// Génération de PDF texte minimalistes (fiches imprimables), sans dépendance :
+// polices standard Helvetica, encodage WinAnsi, mise en page A4 sur une colonne.
+
+export interface PdfBlock {
+  text: string;
+  size?: number; // corps en points (11 par défaut)
+  bold?: boolean;
+  indent?: number; // retrait à gauche en points
+  spaceBefore?: number;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const LINE_HEIGHT = 1.35;
+// Chasse moyenne d'Helvetica rapportée au corps, suffisante pour couper les lignes.
+const AVERAGE_CHAR_WIDTH = 0.5;
+
+// Caractères hors Latin-1 présents dans les textes français, vers leur code WinAnsi.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  "„": 0x84,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  Œ: 0x8c,
+  œ: 0x9c,
+  "\u202f": 0x20, // espace fine insécable (nombres formatés en fr-FR)
+  "\u00a0": 0x20,
+};
+
+const encodeWinAnsi = (text: string) =>
+  Array.from(text)
+    .map((char) => {
+      const code = WIN_ANSI_EXTRAS[char] ?? char.charCodeAt(0);
+      const byte = code <= 0xff ? code : 0x3f; // « ? » pour le reste
+      if (char === "\\" || char === "(" || char === ")") return `\\${char}`;
+      return byte < 0x20 || byte > 0x7e
+        ? `\\${byte.toString(8).padStart(3, "0")}`
+        : String.fromCharCode(byte);
+    })
+    .join("");
+
+const wrapText = (text: string, size: number, width: number) => {
+  const maxChars = Math.max(
+    10,
+    Math.floor(width / (size * AVERAGE_CHAR_WIDTH))
+  );
+  const lines: string[] = [];
+
+  text.split("\n").forEach((paragraph) => {
+    let line = "";
+    paragraph.split(/\s+/).forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (candidate.length > maxChars && line) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+
+  return lines;
+};
+
+/**
+ * Met en page des blocs de texte et renvoie le document PDF. Les blocs sont
+ * coupés en lignes et répartis sur autant de pages A4 que nécessaire.
+ */
+export const renderPdf = (blocks: PdfBlock[], title = "Document"): Buffer => {
+  const pages: string[][] = [[]];
+  let cursor = PAGE_HEIGHT - MARGIN;
+
+  blocks.forEach((block) => {
+    const size = block.size ?? 11;
+    const indent = block.indent ?? 0;
+    const leading = size * LINE_HEIGHT;
+    cursor -= block.spaceBefore ?? 0;
+
+    wrapText(block.text, size, PAGE_WIDTH - 2 * MARGIN - indent).forEach(
+      (line) => {
+        if (cursor - leading < MARGIN) {
+          pages.push([]);
+          cursor = PAGE_HEIGHT - MARGIN;
+        }
+        cursor -= leading;
+        pages[pages.length - 1].push(
+          `BT /${block.bold ? "F2" : "F1"} ${size} Tf ${
+            MARGIN + indent
+          } ${cursor.toFixed(2)} Td (${encodeWinAnsi(line)}) Tj ET`
+        );
+      }
+    );
+  });
+
+  // Objets : 1 catalogue, 2 arbre des pages, 3-4 polices, 5 infos, puis page + contenu
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages
+      .map((_, index) => `${6 + index * 2} 0 R`)
+      .join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Title (${encodeWinAnsi(title)}) /Producer (Fridge Pro) >>`,
+  ];
+
+  pages.forEach((commands, index) => {
+    const content = commands.join("\n");
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${
+        7 + index * 2
+      } 0 R >>`,
+      `<< /Length ${Buffer.byteLength(
+        content,
+        "latin1"
+      )} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, index) => {
+    const offset = Buffer.byteLength(pdf, "latin1");
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  pdf += `trailer\n<< /Size ${
+    objects.length + 1
+  } /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+};
@@ -0,0 +1,94 @@
+// Briques communes aux fournisseurs de données externes : cache TTL, limitation de débit, reprises.
+
+/**
+ * Cache mémoire à durée de vie fixe, borné en nombre d'entrées
+ * (les plus anciennes sont évincées en premier).
+ */
+export class TtlCache<T> {
+  private readonly entries = new Map<string, { value: T; expiresAt: number }>();
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly maxEntries = 500
+  ) {}
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set(key: string, value: T) {
+    if (this.ttlMs <= 0) return;
+
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey !== undefined) this.entries.delete(oldestKey);
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+  }
+}
+
+/**
+ * Limite le nombre d'appels sur une fenêtre glissante : les appels en excès
+ * attendent qu'une place se libère plutôt que d'échouer.
+ */
+export class RateLimiter {
+  private timestamps: number[] = [];
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly maxRequests: number,
+    private readonly windowMs: number
+  ) {}
+
+  schedule<T>(task: () => Promise<T>): Promise<T> {
+    const slot = this.queue.then(() => this.waitForSlot());
+    this.queue = slot.catch(() => undefined);
+    return slot.then(task);
+  }
+
+  private async waitForSlot() {
+    if (this.maxRequests <= 0) return;
+
+    for (;;) {
+      const now = Date.now();
+      this.timestamps = this.timestamps.filter(
+        (timestamp) => now - timestamp < this.windowMs
+      );
+      if (this.timestamps.length < this.maxRequests) {
+        this.timestamps.push(now);
+        return;
+      }
+      await sleep(this.windowMs - (now - this.timestamps[0]));
+    }
+  }
+}
+
+export const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Relance une opération en cas d'erreur transitoire, avec un délai croissant.
+ */
+export const withRetry = async <T>(
+  operation: () => Promise<T>,
+  retries: number,
+  isRetryable: (error: unknown) => boolean,
+  baseDelayMs = 300
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error)) throw error;
+      await sleep(baseDelayMs * 2 ** attempt);
+    }
+  }
+};
@@ -0,0 +1,256 @@
+// Export d'une recette : document schema.org/Recipe, fiche Markdown et PDF imprimable.
+import { simplify } from "./allergenService";
+import { computeRecipeNutrition } from "./nutritionService";
+import { PdfBlock, renderPdf } from "./pdfService";
+
+export const EXPORT_FORMATS = ["jsonld", "markdown", "pdf"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportableRecipe {
+  title: string;
+  description: string | null;
+  instructions: string[];
+  prepTime: number | null;
+  cookTime: number | null;
+  servings: number;
+  difficulty: string;
+  imageUrl: string | null;
+  sourceUrl: string | null;
+  createdAt: Date;
+  createdBy: { firstName: string; lastName: string } | null;
+  ingredients: {
+    quantity: number;
+    unit: string;
+    notes: string | null;
+    ingredient: { name: string };
+  }[];
+}
+
+export type RecipeNutrition = ReturnType<typeof computeRecipeNutrition>;
+
+export interface RecipeExport {
+  content: string | Buffer;
+  contentType: string;
+  filename: string;
+}
+
+const DIFFICULTY_LABELS: Record<string, string> = {
+  easy: "Facile",
+  medium: "Moyen",
+  hard: "Difficile",
+};
+
+const formatNumber = (value: number) =>
+  value.toLocaleString("fr-FR", { maximumFractionDigits: 2 });
+
+// « 200 g lardons (fumés) », « 3 œufs » : l'unité « pièce » est sous-entendue.
+export const formatIngredientLine = ({
+  quantity,
+  unit,
+  notes,
+  ingredient,
+}: ExportableRecipe["ingredients"][number]) =>
+  [
+    formatNumber(quantity),
+    unit === "pièce" ? null : unit,
+    ingredient.name,
+    notes ? `(${notes})` : null,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+const isoDuration = (minutes: number | null) =>
+  minutes ? `PT${minutes}M` : undefined;
+
+const formatDuration = (minutes: number) =>
+  minutes >= 60
+    ? `${Math.floor(minutes / 60)} h${
+        minutes % 60 ? ` ${String(minutes % 60).padStart(2, "0")}` : ""
+      }`
+    : `${minutes} min`;
+
+const recipeFacts = (recipe: ExportableRecipe) =>
+  [
+    `${recipe.servings} personne${recipe.servings > 1 ? "s" : ""}`,
+    recipe.prepTime ? `Préparation : ${formatDuration(recipe.prepTime)}` : null,
+    recipe.cookTime ? `Cuisson : ${formatDuration(recipe.cookTime)}` : null,
+    `Difficulté : ${DIFFICULTY_LABELS[recipe.difficulty] ?? recipe.difficulty}`,
+  ].filter((fact): fact is string => !!fact);
+
+const nutritionFacts = ({ perServing }: RecipeNutrition) => [
+  `Énergie : ${formatNumber(perServing.calories)} kcal`,
+  `Protéines : ${formatNumber(perServing.protein)} g`,
+  `Glucides : ${formatNumber(perServing.carbs)} g`,
+  `Lipides : ${formatNumber(perServing.fat)} g`,
+  `Fibres : ${formatNumber(perServing.fiber)} g`,
+];
+
+const coverageNote = ({ coverage }: RecipeNutrition) =>
+  coverage.percent < 100
+    ? `Estimation calculée sur ${coverage.covered} ingrédient(s) sur ${coverage.total}.`
+    : null;
+
+/**
+ * Document schema.org/Recipe, lisible par les autres applications de cuisine
+ * (et réimportable via POST /recipes/import).
+ */
+export const toRecipeJsonLd = (
+  recipe: ExportableRecipe,
+  nutrition: RecipeNutrition
+) => {
+  const totalTime = (recipe.prepTime ?? 0) + (recipe.cookTime ?? 0);
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "Recipe",
+    name: recipe.title,
+    description: recipe.description ?? undefined,
+    image: recipe.imageUrl ?? undefined,
+    author: recipe.createdBy
+      ? {
+          "@type": "Person",
+          name: `${recipe.createdBy.firstName} ${recipe.createdBy.lastName}`,
+        }
+      : undefined,
+    dateCreated: recipe.createdAt.toISOString(),
+    isBasedOn: recipe.sourceUrl ?? undefined,
+    recipeYield: `${recipe.servings} personnes`,
+    prepTime: isoDuration(recipe.prepTime),
+    cookTime: isoDuration(recipe.cookTime),
+    totalTime: isoDuration(totalTime),
+    recipeIngredient: recipe.ingredients.map(formatIngredientLine),
+    recipeInstructions: recipe.instructions.map((text, index) => ({
+      "@type": "HowToStep",
+      position: index + 1,
+      text,
+    })),
+    nutrition:
+      nutrition.coverage.covered > 0
+        ? {
+            "@type": "NutritionInformation",
+            servingSize: "1 portion",
+            calories: `${nutrition.perServing.calories} kcal`,
+            proteinContent: `${nutrition.perServing.protein} g`,
+            carbohydrateContent: `${nutrition.perServing.carbs} g`,
+            fatContent: `${nutrition.perServing.fat} g`,
+            fiberContent: `${nutrition.perServing.fiber} g`,
+          }
+        : undefined,
+  };
+};
+
+export const toRecipeMarkdown = (
+  recipe: ExportableRecipe,
+  nutrition: RecipeNutrition
+) => {
+  const lines = [`# ${recipe.title}`, ""];
+
+  if (recipe.description) lines.push(`> ${recipe.description}`, "");
+  lines.push(recipeFacts(recipe).join(" · "), "");
+
+  lines.push("## Ingrédients", "");
+  recipe.ingredients.forEach((ri) =>
+    lines.push(`- ${formatIngredientLine(ri)}`)
+  );
+
+  lines.push("", "## Préparation", "");
+  recipe.instructions.forEach((step, index) =>
+    lines.push(`${index + 1}. ${step}`)
+  );
+
+  if (nutrition.coverage.covered > 0) {
+    lines.push("", "## Valeurs nutritionnelles (par portion)", "");
+    nutritionFacts(nutrition).forEach((fact) => lines.push(`- ${fact}`));
+    const note = coverageNote(nutrition);
+    if (note) lines.push("", `_${note}_`);
+  }
+
+  if (recipe.sourceUrl) lines.push("", `Source : <${recipe.sourceUrl}>`);
+
+  return `${lines.join("\n")}\n`;
+};
+
+export const toRecipePdf = (
+  recipe: ExportableRecipe,
+  nutrition: RecipeNutrition
+) => {
+  const blocks: PdfBlock[] = [{ text: recipe.title, size: 20, bold: true }];
+
+  if (recipe.description) {
+    blocks.push({ text: recipe.description, spaceBefore: 6 });
+  }
+  blocks.push({
+    text: recipeFacts(recipe).join("  •  "),
+    size: 10,
+    spaceBefore: 6,
+  });
+
+  blocks.push({ text: "Ingrédients", size: 14, bold: true, spaceBefore: 16 });
+  recipe.ingredients.forEach((ri) =>
+    blocks.push({ text: `•  ${formatIngredientLine(ri)}`, indent: 8 })
+  );
+
+  blocks.push({ text: "Préparation", size: 14, bold: true, spaceBefore: 16 });
+  recipe.instructions.forEach((step, index) =>
+    blocks.push({ text: `${index + 1}.  ${step}`, indent: 8, spaceBefore: 4 })
+  );
+
+  if (nutrition.coverage.covered > 0) {
+    blocks.push({
+      text: "Valeurs nutritionnelles (par portion)",
+      size: 14,
+      bold: true,
+      spaceBefore: 16,
+    });
+    nutritionFacts(nutrition).forEach((fact) =>
+      blocks.push({ text: fact, indent: 8 })
+    );
+    const note = coverageNote(nutrition);
+    if (note) blocks.push({ text: note, size: 9, spaceBefore: 4 });
+  }
+
+  if (recipe.sourceUrl) {
+    blocks.push({
+      text: `Source : ${recipe.sourceUrl}`,
+      size: 9,
+      spaceBefore: 16,
+    });
+  }
+
+  return renderPdf(blocks, recipe.title);
+};
+
+// Nom de fichier sans accents ni espaces, dérivé du titre.
+const exportFilename = (title: string, extension: string) =>
+  `${
+    simplify(title)
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "recette"
+  }.${extension}`;
+
+export const exportRecipe = (
+  recipe: ExportableRecipe,
+  nutrition: RecipeNutrition,
+  format: ExportFormat
+): RecipeExport => {
+  switch (format) {
+    case "markdown":
+      return {
+        content: toRecipeMarkdown(recipe, nutrition),
+        contentType: "text/markdown; charset=utf-8",
+        filename: exportFilename(recipe.title, "md"),
+      };
+    case "pdf":
+      return {
+        content: toRecipePdf(recipe, nutrition),
+        contentType: "application/pdf",
+        filename: exportFilename(recipe.title, "pdf"),
+      };
+    default:
+      return {
+        content: JSON.stringify(toRecipeJsonLd(recipe, nutrition), null, 2),
+        contentType: "application/ld+json; charset=utf-8",
+        filename: exportFilename(recipe.title, "jsonld"),
+      };
+  }
+};
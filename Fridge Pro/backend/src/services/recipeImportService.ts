@@ -0,0 +1,527 @@
+// Import de recettes depuis une page web : lecture du JSON-LD schema.org/Recipe,
+// découpage des lignes d'ingrédients et rapprochement avec le catalogue.
+import axios from "axios";
+import { LookupAddress } from "dns";
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+import { PrismaClient } from "@prisma/client";
+import { createApiError } from "../middleware/errorHandler";
+import { simplify } from "./allergenService";
+import { normalizeUnit, resolveUnit, roundQuantity } from "./unitService";
+
+export type MatchConfidence = "exact" | "partial" | "none";
+
+export interface ParsedIngredientLine {
+  raw: string;
+  name: string;
+  quantity: number | null; // null : quantité absente (« sel, poivre »)
+  unit: string;
+  notes: string | null;
+}
+
+export interface ImportedIngredientLine extends ParsedIngredientLine {
+  ingredientId: string | null;
+  matchedName: string | null;
+  confidence: MatchConfidence;
+}
+
+export interface RecipeImportDraft {
+  title: string;
+  description: string | null;
+  servings: number | null;
+  prepTime: number | null;
+  cookTime: number | null;
+  imageUrl: string | null;
+  instructions: string[];
+  ingredients: ImportedIngredientLine[];
+  sourceUrl: string | null;
+}
+
+const FETCH_TIMEOUT_MS = 8000;
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+
+// Unités hors registre courantes dans les recettes, conservées telles quelles.
+const FREE_UNITS = [
+  "boîte",
+  "botte",
+  "brin",
+  "feuille",
+  "filet",
+  "gousse",
+  "paquet",
+  "pincée",
+  "poignée",
+  "sachet",
+  "tasse",
+  "tranche",
+  "verre",
+];
+
+const FRACTIONS: Record<string, string> = {
+  "½": " 1/2",
+  "¼": " 1/4",
+  "¾": " 3/4",
+  "⅓": " 1/3",
+  "⅔": " 2/3",
+  "⅛": " 1/8",
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  rsquo: "’",
+  eacute: "é",
+  egrave: "è",
+  agrave: "à",
+  ccedil: "ç",
+  ocirc: "ô",
+  ecirc: "ê",
+};
+
+// Texte lisible : balises retirées, entités décodées, espaces compactés.
+const cleanText = (value: string) =>
+  value
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) =>
+      String.fromCharCode(parseInt(code, 16))
+    )
+    .replace(/&([a-z]+);/gi, (entity, name) => ENTITIES[name] ?? entity)
+    .replace(/\s+/g, " ")
+    .trim();
+
+const asText = (value: unknown) =>
+  typeof value === "string" ? cleanText(value) : "";
+
+const hasType = (node: Record<string, unknown>, type: string) => {
+  const types = node["@type"];
+  return Array.isArray(types) ? types.includes(type) : types === type;
+};
+
+// Parcourt un document JSON-LD (tableaux, @graph, objets imbriqués) à la recherche d'une Recipe.
+const findRecipeNode = (node: unknown): Record<string, unknown> | null => {
+  if (Array.isArray(node)) {
+    for (const child of node) {
+      const found = findRecipeNode(child);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  if (!node || typeof node !== "object") return null;
+
+  const record = node as Record<string, unknown>;
+  if (hasType(record, "Recipe")) return record;
+
+  return findRecipeNode(record["@graph"] ?? record.mainEntity ?? null);
+};
+
+/**
+ * Extrait le premier objet schema.org/Recipe des balises JSON-LD d'une page.
+ * Les blocs JSON invalides sont ignorés.
+ */
+export const extractRecipeJsonLd = (html: string) => {
+  const scripts = html.matchAll(
+    /<script[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi
+  );
+
+  for (const [, content] of scripts) {
+    try {
+      const found = findRecipeNode(JSON.parse(content.trim()));
+      if (found) return found;
+    } catch {
+      continue;
+    }
+  }
+  return null;
+};
+
+/**
+ * Convertit une durée ISO 8601 (PT1H30M, P0DT45M) en minutes.
+ */
+export const parseIsoDuration = (value: unknown): number | null => {
+  if (typeof value !== "string") return null;
+
+  const match = value
+    .trim()
+    .match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i);
+  if (!match) return null;
+
+  const [, days, hours, minutes, seconds] = match.map((part) =>
+    part ? Number(part) : 0
+  );
+  const total =
+    days * 24 * 60 + hours * 60 + minutes + Math.round(seconds / 60);
+  return total > 0 ? total : null;
+};
+
+// « 4 personnes », 6, ["4", "4 parts"] : premier nombre trouvé.
+const parseYield = (value: unknown): number | null => {
+  const candidates = Array.isArray(value) ? value : [value];
+
+  for (const candidate of candidates) {
+    const number =
+      typeof candidate === "number"
+        ? candidate
+        : Number(String(candidate ?? "").match(/\d+/)?.[0]);
+    if (Number.isInteger(number) && number > 0) return number;
+  }
+  return null;
+};
+
+const parseImage = (value: unknown): string | null => {
+  if (Array.isArray(value)) return parseImage(value[0]);
+  if (typeof value === "string") return value.trim() || null;
+  if (value && typeof value === "object") {
+    return parseImage((value as Record<string, unknown>).url);
+  }
+  return null;
+};
+
+// Étapes en texte brut, HowToStep ou HowToSection (étapes groupées).
+const parseInstructions = (value: unknown): string[] => {
+  if (typeof value === "string") {
+    return value
+      .split(/\r?\n|<br\s*\/?>|<\/p>|<\/li>/i)
+      .map(cleanText)
+      .filter(Boolean);
+  }
+
+  if (Array.isArray(value)) return value.flatMap(parseInstructions);
+
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    if (record.itemListElement) {
+      return parseInstructions(record.itemListElement);
+    }
+    return parseInstructions(record.text ?? record.name ?? "");
+  }
+
+  return [];
+};
+
+const parseNumber = (value: string) => {
+  const parts = value.trim().split(/\s+/);
+
+  return parts.reduce((sum, part) => {
+    const [numerator, denominator] = part.split("/");
+    return denominator
+      ? sum + Number(numerator) / Number(denominator)
+      : sum + Number(part.replace(",", "."));
+  }, 0);
+};
+
+const QUANTITY_PATTERN =
+  /^(\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?)(?:\s*(?:-|–|à|to)\s*(\d+(?:[.,]\d+)?))?\s*/i;
+
+const singular = (word: string) =>
+  word.length > 3 ? word.replace(/[sx]$/, "") : word;
+
+// Unité en tête de texte (jusqu'à 4 mots : « cuillère à soupe »).
+const takeUnit = (text: string) => {
+  const words = text.split(/\s+/);
+
+  for (let size = Math.min(4, words.length - 1); size >= 1; size--) {
+    const candidate = words.slice(0, size).join(" ");
+    const free = FREE_UNITS.find(
+      (unit) => simplify(unit) === singular(simplify(candidate))
+    );
+
+    if (resolveUnit(candidate) || free) {
+      return {
+        unit: free ?? normalizeUnit(candidate),
+        rest: words.slice(size).join(" "),
+      };
+    }
+  }
+  return null;
+};
+
+/**
+ * Découpe une ligne libre (« 200 g de farine (T55) », « 1 ½ oignon, émincé »)
+ * en quantité, unité, nom et notes. Sans unité reconnue, l'unité est « pièce ».
+ */
+export const parseIngredientLine = (line: string): ParsedIngredientLine => {
+  const raw = cleanText(line);
+  let text = raw.replace(/[½¼¾⅓⅔⅛]/g, (fraction) => FRACTIONS[fraction]);
+  text = text.replace(/\s+/g, " ").trim();
+
+  let quantity: number | null = null;
+  let unit = "pièce";
+
+  const quantityMatch = text.match(QUANTITY_PATTERN);
+  if (quantityMatch) {
+    // Fourchette « 2 à 3 » : on retient la borne haute
+    quantity = roundQuantity(parseNumber(quantityMatch[2] ?? quantityMatch[1]));
+    text = text.slice(quantityMatch[0].length);
+
+    const unitMatch = takeUnit(text);
+    if (unitMatch) {
+      unit = unitMatch.unit;
+      text = unitMatch.rest;
+    }
+  }
+
+  text = text.replace(/^(?:de\s+|d['’]\s*|of\s+)/i, "");
+
+  const notes: string[] = [];
+  text = text.replace(/\(([^)]*)\)/g, (_, note: string) => {
+    if (note.trim()) notes.push(note.trim());
+    return " ";
+  });
+
+  const [name, ...extra] = text.split(",");
+  if (extra.join(",").trim()) notes.push(extra.join(",").trim());
+
+  return {
+    raw,
+    name: name.replace(/\s+/g, " ").trim() || raw,
+    quantity: quantity && quantity > 0 ? quantity : null,
+    unit,
+    notes: notes.length > 0 ? notes.join(", ") : null,
+  };
+};
+
+const nameWords = (name: string) =>
+  simplify(name)
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1)
+    .map(singular);
+
+// Un mot de la ligne couvre celui du catalogue s'il lui est égal ou en est
+// une abréviation (tickets de caisse : « BRIOCH » pour « brioche »).
+const coversWord = (lineWord: string, word: string) =>
+  lineWord === word || (lineWord.length >= 4 && word.startsWith(lineWord));
+
+/**
+ * Rapproche chaque ligne d'un ingrédient du catalogue : nom identique
+ * (casse, accents et pluriels ignorés), sinon l'ingrédient le plus précis
+ * dont tous les mots figurent dans la ligne, en entier ou abrégés.
+ */
+export const matchIngredientLines = async (
+  client: PrismaClient,
+  lines: ParsedIngredientLine[]
+): Promise<ImportedIngredientLine[]> =>
+  Promise.all(
+    lines.map(async (line) => {
+      const words = nameWords(line.name);
+      const keyword = [...words].sort((a, b) => b.length - a.length)[0];
+
+      const candidates = keyword
+        ? await client.ingredient.findMany({
+            where: {
+              OR: [
+                { name: { equals: line.name, mode: "insensitive" } },
+                { name: { contains: keyword, mode: "insensitive" } },
+              ],
+            },
+            select: { id: true, name: true },
+            take: 25,
+          })
+        : [];
+
+      const exact = candidates.find(
+        (candidate) => nameWords(candidate.name).join(" ") === words.join(" ")
+      );
+      const partial = candidates
+        .filter((candidate) =>
+          nameWords(candidate.name).every((word) =>
+            words.some((lineWord) => coversWord(lineWord, word))
+          )
+        )
+        .sort((a, b) => b.name.length - a.name.length)[0];
+
+      const match = exact ?? partial ?? null;
+
+      return {
+        ...line,
+        ingredientId: match?.id ?? null,
+        matchedName: match?.name ?? null,
+        confidence: exact ? "exact" : partial ? "partial" : "none",
+      };
+    })
+  );
+
+// Adresses internes refusées : l'import ne doit pas servir à sonder le réseau
+// du serveur (boucle locale, réseaux privés, métadonnées cloud, IPv6 locales).
+const isPrivateAddress = (address: string): boolean => {
+  // IPv4 encapsulée en IPv6 (::ffff:127.0.0.1, normalisée en ::ffff:7f00:1)
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  const mappedHex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+  if (mappedHex) {
+    const [high, low] = mappedHex.slice(1).map((part) => parseInt(part, 16));
+    return isPrivateAddress(
+      [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".")
+    );
+  }
+
+  if (isIP(address) === 4) {
+    const [a, b] = address.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    );
+  }
+
+  const normalized = address.toLowerCase();
+  return (
+    normalized === "::" ||
+    normalized === "::1" ||
+    /^f[cd]/.test(normalized) ||
+    /^fe[89ab]/.test(normalized) ||
+    /^ff/.test(normalized)
+  );
+};
+
+const blockedAddressError = () =>
+  createApiError("Cette adresse ne peut pas être importée", 400);
+
+// Résout l'hôte et refuse la requête si l'une de ses adresses est interne.
+const resolvePublicAddress = async (hostname: string) => {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const family = isIP(host);
+  if (family) {
+    if (isPrivateAddress(host)) throw blockedAddressError();
+    return { address: host, family: family as 4 | 6 };
+  }
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookup(host, { all: true });
+  } catch {
+    throw createApiError("Impossible de récupérer la page de la recette", 502);
+  }
+  if (
+    !addresses.length ||
+    addresses.some(({ address }) => isPrivateAddress(address))
+  ) {
+    throw blockedAddressError();
+  }
+  return {
+    address: addresses[0].address,
+    family: addresses[0].family as 4 | 6,
+  };
+};
+
+const assertImportableUrl = async (url: URL) => {
+  if (!["http:", "https:"].includes(url.protocol)) {
+    throw createApiError("Seules les URL http(s) sont acceptées", 400);
+  }
+  await resolvePublicAddress(url.hostname);
+};
+
+/**
+ * Télécharge le HTML d'une page de recette publique. Les redirections sont
+ * suivies une à une et chaque étape est revérifiée ; la résolution DNS faite
+ * à la connexion est elle aussi contrôlée (pas de rebinding vers le réseau local).
+ */
+export const fetchRecipePage = async (url: string) => {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    throw createApiError("URL invalide", 400);
+  }
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+    await assertImportableUrl(target);
+
+    let response;
+    try {
+      response = await axios.get<string>(target.toString(), {
+        timeout: FETCH_TIMEOUT_MS,
+        maxContentLength: MAX_PAGE_BYTES,
+        maxRedirects: 0,
+        validateStatus: (status) => status >= 200 && status < 400,
+        lookup: (hostname: string) => resolvePublicAddress(hostname),
+        responseType: "text",
+        headers: {
+          "User-Agent": "FridgePro/1.0",
+          Accept: "text/html,application/xhtml+xml",
+        },
+      });
+    } catch {
+      throw createApiError(
+        "Impossible de récupérer la page de la recette",
+        502
+      );
+    }
+
+    const location =
+      response.status >= 300 ? response.headers.location : undefined;
+    if (!location) {
+      return String(response.data);
+    }
+
+    try {
+      target = new URL(String(location), target);
+    } catch {
+      throw createApiError(
+        "Impossible de récupérer la page de la recette",
+        502
+      );
+    }
+  }
+
+  throw createApiError("Trop de redirections vers la page de la recette", 502);
+};
+
+/**
+ * Construit un brouillon de recette à partir du HTML d'une page. Rien n'est
+ * enregistré : l'utilisateur valide le brouillon avant la création.
+ */
+export const buildRecipeImportDraft = async (
+  client: PrismaClient,
+  html: string,
+  sourceUrl: string | null = null
+): Promise<RecipeImportDraft> => {
+  const recipe = extractRecipeJsonLd(html);
+  if (!recipe) {
+    throw createApiError(
+      "Aucune recette schema.org n'a été trouvée dans cette page",
+      422
+    );
+  }
+
+  const ingredientLines = (
+    Array.isArray(recipe.recipeIngredient)
+      ? recipe.recipeIngredient
+      : Array.isArray(recipe.ingredients)
+      ? recipe.ingredients
+      : []
+  )
+    .map(asText)
+    .filter(Boolean);
+
+  const prepTime = parseIsoDuration(recipe.prepTime);
+  const cookTime = parseIsoDuration(recipe.cookTime);
+  const totalTime = parseIsoDuration(recipe.totalTime);
+
+  return {
+    title: asText(recipe.name) || "Recette importée",
+    description: asText(recipe.description) || null,
+    servings: parseYield(recipe.recipeYield),
+    // Seul le temps total est parfois renseigné : il devient la préparation
+    prepTime: prepTime ?? (cookTime === null ? totalTime : null),
+    cookTime,
+    imageUrl: parseImage(recipe.image),
+    instructions: parseInstructions(recipe.recipeInstructions),
+    ingredients: await matchIngredientLines(
+      client,
+      ingredientLines.map(parseIngredientLine)
+    ),
+    sourceUrl,
+  };
+};
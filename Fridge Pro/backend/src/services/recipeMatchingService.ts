@@ -0,0 +1,378 @@
+// Comparaison quantitative entre les besoins d'une recette et le stock du frigo.
+import {
+  ConversionProfile,
+  convertQuantity,
+  roundQuantity,
+} from "./unitService";
+import { daysUntil } from "./stockService";
+
+// Entrée de stock minimale (un item du frigo).
+export interface StockEntry {
+  ingredientId: string;
+  quantity: number;
+  unit: string;
+}
+
+// Ligne de recette minimale, avec l'ingrédient pour les conversions.
+export interface RequirementEntry {
+  ingredientId: string;
+  quantity: number;
+  unit: string;
+  ingredient?: ConversionProfile | null;
+}
+
+export interface IngredientCoverage {
+  ingredientId: string;
+  requiredQuantity: number;
+  unit: string; // unité de la recette
+  availableQuantity: number; // exprimée dans l'unité de la recette
+  shortfall: number; // quantité manquante, dans l'unité de la recette
+  coverage: number; // ratio 0..1
+  comparable: boolean; // false si aucune conversion possible (présence seule)
+}
+
+export interface RecipeCoverage {
+  ingredients: IngredientCoverage[];
+  score: number; // couverture moyenne 0..100
+  missingCount: number;
+  makeable: boolean;
+}
+
+/**
+ * Regroupe les items du frigo par ingrédient.
+ */
+export const buildStockIndex = <T extends StockEntry>(items: T[]) => {
+  const index = new Map<string, T[]>();
+  items.forEach((item) => {
+    const entries = index.get(item.ingredientId) ?? [];
+    entries.push(item);
+    index.set(item.ingredientId, entries);
+  });
+  return index;
+};
+
+/**
+ * Calcule la couverture d'une ligne de recette par le stock disponible.
+ * Un stock dans une unité inconvertible compte comme présent (comportement historique).
+ */
+export const computeIngredientCoverage = (
+  requirement: RequirementEntry,
+  stock: StockEntry[] = []
+): IngredientCoverage => {
+  let availableQuantity = 0;
+  let hasIncomparableStock = false;
+
+  stock.forEach((entry) => {
+    const converted = convertQuantity(
+      entry.quantity,
+      entry.unit,
+      requirement.unit,
+      requirement.ingredient ?? undefined
+    );
+    if (converted === null) {
+      hasIncomparableStock = true;
+    } else {
+      availableQuantity += converted;
+    }
+  });
+
+  const comparable = !(hasIncomparableStock && availableQuantity === 0);
+  const coverage = !comparable
+    ? 1
+    : requirement.quantity > 0
+    ? Math.min(availableQuantity / requirement.quantity, 1)
+    : 1;
+
+  return {
+    ingredientId: requirement.ingredientId,
+    requiredQuantity: requirement.quantity,
+    unit: requirement.unit,
+    availableQuantity: roundQuantity(availableQuantity),
+    shortfall: comparable
+      ? roundQuantity(Math.max(requirement.quantity - availableQuantity, 0))
+      : 0,
+    coverage,
+    comparable,
+  };
+};
+
+/**
+ * Agrège la couverture de toutes les lignes d'une recette.
+ */
+export const computeRecipeCoverage = (
+  requirements: RequirementEntry[],
+  stockIndex: Map<string, StockEntry[]>
+): RecipeCoverage => {
+  const ingredients = requirements.map((requirement) =>
+    computeIngredientCoverage(
+      requirement,
+      stockIndex.get(requirement.ingredientId)
+    )
+  );
+
+  const totalCoverage = ingredients.reduce(
+    (acc, ingredient) => acc + ingredient.coverage,
+    0
+  );
+  const missingCount = ingredients.filter(
+    (ingredient) => ingredient.coverage < 1
+  ).length;
+
+  return {
+    ingredients,
+    score: ingredients.length ? (totalCoverage / ingredients.length) * 100 : 0,
+    missingCount,
+    makeable: ingredients.length > 0 && missingCount === 0,
+  };
+};
+
+// Item du frigo décrémentable (identifiant requis pour la mise à jour).
+export interface ConsumableStockEntry extends StockEntry {
+  id: string;
+}
+
+export interface StockUpdate {
+  fridgeItemId: string;
+  unit: string; // unité de l'item du frigo
+  before: number;
+  after: number;
+  deleted: boolean;
+}
+
+export interface ConsumptionLine {
+  ingredientId: string;
+  requiredQuantity: number; // quantité mise à l'échelle, unité de la recette
+  unit: string;
+  consumedQuantity: number;
+  shortfall: number;
+  updates: StockUpdate[];
+}
+
+/**
+ * Planifie la consommation d'une recette (mise à l'échelle par `factor`)
+ * sur le stock, dans l'ordre des entrées fournies. Fonction pure : aucune écriture.
+ * Un lot entamé par une ligne n'offre plus que son reste aux lignes suivantes.
+ */
+export const planConsumption = (
+  requirements: RequirementEntry[],
+  stockIndex: Map<string, ConsumableStockEntry[]>,
+  factor = 1
+): ConsumptionLine[] => {
+  const leftovers = new Map<string, number>();
+
+  return requirements.map((requirement) => {
+    const profile = requirement.ingredient ?? undefined;
+    const requiredQuantity = roundQuantity(requirement.quantity * factor);
+    let remaining = requiredQuantity;
+    const updates: StockUpdate[] = [];
+
+    for (const entry of stockIndex.get(requirement.ingredientId) ?? []) {
+      if (remaining <= 0) break;
+
+      const before = leftovers.get(entry.id) ?? entry.quantity;
+      const available = convertQuantity(
+        before,
+        entry.unit,
+        requirement.unit,
+        profile
+      );
+      if (available === null || available <= 0) continue;
+
+      const taken = Math.min(available, remaining);
+      const deducted =
+        taken === available
+          ? before
+          : convertQuantity(taken, requirement.unit, entry.unit, profile) ?? 0;
+      const after = roundQuantity(Math.max(before - deducted, 0));
+
+      leftovers.set(entry.id, after);
+      updates.push({
+        fridgeItemId: entry.id,
+        unit: entry.unit,
+        before,
+        after,
+        deleted: after <= 0,
+      });
+      remaining = roundQuantity(remaining - taken);
+    }
+
+    return {
+      ingredientId: requirement.ingredientId,
+      requiredQuantity,
+      unit: requirement.unit,
+      consumedQuantity: roundQuantity(requiredQuantity - remaining),
+      shortfall: Math.max(remaining, 0),
+      updates,
+    };
+  });
+};
+
+/**
+ * Additionne les besoins par ingrédient, dans l'unité de la première ligne.
+ * Une ligne dans une unité inconvertible reste une entrée distincte.
+ */
+export const aggregateRequirements = <T extends RequirementEntry>(
+  requirements: T[]
+): T[] => {
+  const aggregated: T[] = [];
+
+  requirements.forEach((requirement) => {
+    const profile = requirement.ingredient ?? undefined;
+    const target = aggregated.find(
+      (entry) =>
+        entry.ingredientId === requirement.ingredientId &&
+        convertQuantity(1, requirement.unit, entry.unit, profile) !== null
+    );
+
+    if (!target) {
+      aggregated.push({ ...requirement });
+      return;
+    }
+
+    target.quantity = roundQuantity(
+      target.quantity +
+        (convertQuantity(
+          requirement.quantity,
+          requirement.unit,
+          target.unit,
+          profile
+        ) ?? 0)
+    );
+  });
+
+  return aggregated;
+};
+
+/**
+ * Regroupe les lignes d'une recette par ingrédient (voir aggregateRequirements).
+ * Une ligne dans une unité inconvertible n'est pas perdue : elle est ajoutée
+ * aux notes de la ligne de l'ingrédient (« + 2 pièce »).
+ */
+export const combineRecipeLines = <
+  T extends RequirementEntry & { notes?: string | null }
+>(
+  lines: T[]
+): T[] =>
+  aggregateRequirements(lines).reduce((acc, line) => {
+    const existing = acc.find(
+      (entry) => entry.ingredientId === line.ingredientId
+    );
+    if (!existing) {
+      acc.push(line);
+    } else {
+      const extra = `+ ${line.quantity} ${line.unit}`;
+      existing.notes = existing.notes ? `${existing.notes} ${extra}` : extra;
+    }
+    return acc;
+  }, [] as T[]);
+
+// Au-delà de cet horizon, une date limite ne pèse plus dans le classement anti-gaspi.
+export const ANTI_WASTE_HORIZON_DAYS = 7;
+
+// Lot daté, pour le classement anti-gaspi.
+export interface DatedStockEntry extends ConsumableStockEntry {
+  expiryDate: Date | null;
+}
+
+export interface RescuedItem {
+  fridgeItemId: string;
+  ingredientId: string;
+  quantity: number; // quantité du lot utilisée par la recette, unité du lot
+  unit: string;
+  expiryDate: Date;
+  daysLeft: number;
+}
+
+export interface RecipeRescue {
+  rescuedItems: RescuedItem[];
+  score: number; // somme des poids d'urgence des lots utilisés, pondérés par la part consommée
+}
+
+/**
+ * Poids d'urgence d'un lot : 1 s'il expire aujourd'hui, décroissant jusqu'à
+ * l'horizon, 0 au-delà. Un lot déjà périmé n'est pas « sauvé ».
+ */
+export const expiryWeight = (
+  daysLeft: number,
+  horizon = ANTI_WASTE_HORIZON_DAYS
+) =>
+  daysLeft < 0 || daysLeft > horizon
+    ? 0
+    : (horizon - daysLeft + 1) / (horizon + 1);
+
+/**
+ * Identifie les lots proches de leur date limite qu'une recette consommerait,
+ * en suivant le même ordre de consommation que la cuisson (stock trié FIFO).
+ */
+export const computeRecipeRescue = (
+  requirements: RequirementEntry[],
+  stockIndex: Map<string, DatedStockEntry[]>,
+  now = new Date()
+): RecipeRescue => {
+  const lots = new Map<string, DatedStockEntry>();
+  stockIndex.forEach((entries) =>
+    entries.forEach((entry) => lots.set(entry.id, entry))
+  );
+
+  const rescuedItems: RescuedItem[] = [];
+  let score = 0;
+
+  planConsumption(requirements, stockIndex).forEach((line) =>
+    line.updates.forEach((update) => {
+      const lot = lots.get(update.fridgeItemId);
+      if (!lot?.expiryDate || update.before <= 0) return;
+
+      const daysLeft = daysUntil(lot.expiryDate, now);
+      const weight = expiryWeight(daysLeft);
+      if (weight === 0) return;
+
+      const used = roundQuantity(update.before - update.after);
+      score += weight * (used / update.before);
+      rescuedItems.push({
+        fridgeItemId: lot.id,
+        ingredientId: lot.ingredientId,
+        quantity: used,
+        unit: update.unit,
+        expiryDate: lot.expiryDate,
+        daysLeft,
+      });
+    })
+  );
+
+  return {
+    rescuedItems: rescuedItems.sort((a, b) => a.daysLeft - b.daysLeft),
+    score: roundQuantity(score),
+  };
+};
+
+/**
+ * Ce qu'il reste à acheter : le manque de chaque ligne une fois le stock consommé.
+ * Un stock uniquement dans une unité non comparable compte comme présent
+ * (comme pour les suggestions) : la ligne est écartée et signalée.
+ */
+export const computeShoppingNeeds = <T extends RequirementEntry>(
+  requirements: T[],
+  stockIndex: Map<string, ConsumableStockEntry[]>,
+  factor = 1
+) => {
+  const missing: T[] = [];
+  const uncomparable: T[] = [];
+
+  planConsumption(requirements, stockIndex, factor).forEach((line, index) => {
+    const requirement = requirements[index];
+    if (line.shortfall <= 0) return;
+
+    const coverage = computeIngredientCoverage(
+      requirement,
+      stockIndex.get(requirement.ingredientId)
+    );
+    if (!coverage.comparable) {
+      uncomparable.push(requirement);
+      return;
+    }
+
+    missing.push({ ...requirement, quantity: line.shortfall });
+  });
+
+  return { missing, uncomparable };
+};
@@ -0,0 +1,43 @@
+// Diffusion en temps réel des modifications de listes de courses (flux SSE).
+import { EventEmitter } from "events";
+
+export type ShoppingListEventType =
+  | "list_created"
+  | "list_updated"
+  | "list_deleted"
+  | "item_added"
+  | "item_updated"
+  | "item_removed"
+  | "share_added"
+  | "share_removed";
+
+export interface ShoppingListEvent {
+  type: ShoppingListEventType;
+  listId: string;
+  householdId: string | null;
+  item?: unknown; // article complet (ajout ou modification)
+  itemId?: string;
+  targetUserId?: string; // collaborateur concerné par un partage
+  actor: { id: string; firstName: string };
+}
+
+// Bus en mémoire : suffisant tant que l'API tourne dans un seul processus.
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export const publishListEvent = (event: ShoppingListEvent) => {
+  emitter.emit("event", event);
+};
+
+/**
+ * Abonne un flux à tous les événements ; le filtrage par liste accessible est
+ * fait par l'abonné. Retourne la fonction de désabonnement.
+ */
+export const subscribeToListEvents = (
+  listener: (event: ShoppingListEvent) => void
+) => {
+  emitter.on("event", listener);
+  return () => {
+    emitter.off("event", listener);
+  };
+};
@@ -0,0 +1,144 @@
+// Listes de courses partagées entre les routes : ajout d'articles (fusion des quantités) et droits d'accès.
+import { Ingredient, Prisma } from "@prisma/client";
+import { mergeQuantities, normalizeUnit } from "./unitService";
+
+export const shoppingItemInclude = {
+  ingredient: {
+    include: {
+      category: true,
+    },
+  },
+};
+
+export interface ShoppingItemInput {
+  ingredientId: string;
+  quantity: number;
+  unit: string;
+  notes?: string;
+}
+
+/**
+ * Ajoute un article à une liste, ou additionne sa quantité à l'article
+ * existant du même ingrédient (erreur 400 si les unités sont incompatibles).
+ */
+export const addItemToShoppingList = async (
+  client: Prisma.TransactionClient,
+  shoppingListId: string,
+  input: ShoppingItemInput,
+  ingredient: Ingredient
+) => {
+  const existingItem = await client.shoppingListItem.findFirst({
+    where: {
+      shoppingListId,
+      ingredientId: input.ingredientId,
+    },
+  });
+
+  if (existingItem) {
+    const merged = mergeQuantities(existingItem, input, ingredient);
+
+    return client.shoppingListItem.update({
+      where: { id: existingItem.id },
+      data: {
+        quantity: merged.quantity,
+        unit: merged.unit,
+        notes: input.notes,
+      },
+      include: shoppingItemInclude,
+    });
+  }
+
+  return client.shoppingListItem.create({
+    data: {
+      shoppingListId,
+      ingredientId: input.ingredientId,
+      quantity: input.quantity,
+      unit: normalizeUnit(input.unit),
+      notes: input.notes,
+    },
+    include: shoppingItemInclude,
+  });
+};
+
+/**
+ * Ajoute une série de besoins à une liste. Un même ingrédient présent dans
+ * plusieurs unités inconvertibles est reporté en note sur le premier article.
+ */
+export const addNeedsToShoppingList = async (
+  client: Prisma.TransactionClient,
+  shoppingListId: string,
+  needs: (ShoppingItemInput & { ingredient: Ingredient })[]
+) => {
+  const items = [];
+
+  for (const need of needs) {
+    const sameIngredient = needs.filter(
+      (other) => other.ingredientId === need.ingredientId
+    );
+    if (sameIngredient[0] !== need) continue;
+
+    const extras = sameIngredient
+      .slice(1)
+      .map((other) => `+ ${other.quantity} ${other.unit}`);
+
+    items.push(
+      await addItemToShoppingList(
+        client,
+        shoppingListId,
+        {
+          ingredientId: need.ingredientId,
+          quantity: need.quantity,
+          unit: need.unit,
+          notes: extras.length ? extras.join(", ") : need.notes,
+        },
+        need.ingredient
+      )
+    );
+  }
+
+  return items;
+};
+
+export const LIST_PERMISSIONS = ["view", "edit"] as const;
+
+export type ListPermission = (typeof LIST_PERMISSIONS)[number];
+
+// owner : membre du foyer de la liste (partage, rangement dans le frigo, suppression)
+export type ListAccess = ListPermission | "owner";
+
+const ACCESS_RANK: Record<ListAccess, number> = { view: 0, edit: 1, owner: 2 };
+
+export const hasListAccess = (access: ListAccess, required: ListAccess) =>
+  ACCESS_RANK[access] >= ACCESS_RANK[required];
+
+// Listes visibles : celles du foyer actif et celles partagées avec l'utilisateur.
+export const accessibleListsWhere = (
+  userId: string,
+  householdId: string
+): Prisma.ShoppingListWhereInput => ({
+  OR: [{ householdId }, { shares: { some: { userId } } }],
+});
+
+/**
+ * Niveau d'accès d'un utilisateur à une liste, d'après son foyer actif et les
+ * partages de la liste (null si elle ne lui est pas accessible).
+ */
+export const listAccessFor = (
+  list: {
+    householdId: string | null;
+    shares: { userId: string; permission: string }[];
+  },
+  userId: string,
+  householdId: string
+): ListAccess | null => {
+  if (list.householdId === householdId) {
+    return "owner";
+  }
+
+  const share = list.shares.find((item) => item.userId === userId);
+  if (!share) {
+    return null;
+  }
+
+  return share.permission === "edit" ? "edit" : "view";
+};
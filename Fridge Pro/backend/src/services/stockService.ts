@@ -0,0 +1,234 @@
+// Gestion des lots du frigo : ordre FIFO, regroupement par ingrédient et application des consommations.
+import { Prisma } from "@prisma/client";
+import {
+  ConversionProfile,
+  convertQuantity,
+  mergeQuantities,
+  normalizeUnit,
+  roundQuantity,
+} from "./unitService";
+import type { StockUpdate } from "./recipeMatchingService";
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const startOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+// Nombre de jours calendaires restants avant la date limite (négatif si dépassée).
+export const daysUntil = (expiryDate: Date, now = new Date()) =>
+  Math.round(
+    (startOfDay(expiryDate).getTime() - startOfDay(now).getTime()) / DAY_MS
+  );
+
+// Les lots qui expirent en premier sont consommés en premier, puis les plus anciens.
+export const fifoOrderBy: Prisma.FridgeItemOrderByWithRelationInput[] = [
+  { expiryDate: { sort: "asc", nulls: "last" } },
+  { addedDate: "asc" },
+];
+
+/**
+ * Cherche un lot du foyer dans lequel fusionner un ajout :
+ * même ingrédient, même date limite et même emplacement.
+ */
+export const findMergeableLot = (
+  client: Prisma.TransactionClient,
+  params: {
+    householdId: string;
+    ingredientId: string;
+    expiryDate?: Date | null;
+    location?: string | null;
+  }
+) =>
+  client.fridgeItem.findFirst({
+    where: {
+      householdId: params.householdId,
+      ingredientId: params.ingredientId,
+      expiryDate: params.expiryDate ?? null,
+      location: params.location ?? null,
+    },
+    orderBy: { addedDate: "desc" },
+  });
+
+// Date limite indicative d'un produit acheté aujourd'hui, selon sa catégorie.
+export const defaultExpiryDate = (
+  defaultExpiryDays: number | null | undefined,
+  now = new Date()
+) => {
+  if (defaultExpiryDays === null || defaultExpiryDays === undefined) {
+    return undefined;
+  }
+
+  const expiryDate = startOfDay(now);
+  expiryDate.setDate(expiryDate.getDate() + defaultExpiryDays);
+  return expiryDate;
+};
+
+/**
+ * Range une quantité dans le frigo : fusion dans le lot compatible (même date
+ * limite, même emplacement, unité convertible), sinon création d'un nouveau lot.
+ */
+export const stockIngredient = async (
+  client: Prisma.TransactionClient,
+  params: {
+    userId: string; // membre qui range le produit
+    householdId: string;
+    ingredient: ConversionProfile & { id: string };
+    quantity: number;
+    unit: string;
+    expiryDate?: Date;
+    location?: string;
+    notes?: string | null;
+  }
+) => {
+  const {
+    userId,
+    householdId,
+    ingredient,
+    quantity,
+    unit,
+    expiryDate,
+    location,
+  } = params;
+  const include = { ingredient: { include: { category: true } } };
+
+  const existingLot = await findMergeableLot(client, {
+    householdId,
+    ingredientId: ingredient.id,
+    expiryDate,
+    location,
+  });
+
+  if (
+    existingLot &&
+    convertQuantity(1, unit, existingLot.unit, ingredient) !== null
+  ) {
+    const merged = mergeQuantities(existingLot, { quantity, unit }, ingredient);
+    const fridgeItem = await client.fridgeItem.update({
+      where: { id: existingLot.id },
+      data: { quantity: merged.quantity, unit: merged.unit },
+      include,
+    });
+    return { fridgeItem, merged: true };
+  }
+
+  const fridgeItem = await client.fridgeItem.create({
+    data: {
+      userId,
+      householdId,
+      ingredientId: ingredient.id,
+      quantity,
+      unit: normalizeUnit(unit),
+      expiryDate,
+      location,
+      notes: params.notes ?? undefined,
+    },
+    include,
+  });
+  return { fridgeItem, merged: false };
+};
+
+interface GroupableLot {
+  ingredientId: string;
+  quantity: number;
+  unit: string;
+  expiryDate: Date | null;
+  ingredient: ConversionProfile;
+}
+
+/**
+ * Regroupe les lots par ingrédient avec un total exprimé dans l'unité du premier lot.
+ * Les lots dans une unité inconvertible restent listés mais hors total.
+ */
+export const groupLotsByIngredient = <T extends GroupableLot>(lots: T[]) => {
+  const groups = new Map<
+    string,
+    {
+      ingredientId: string;
+      ingredient: T["ingredient"];
+      totalQuantity: number;
+      unit: string;
+      nextExpiryDate: Date | null;
+      lots: T[];
+    }
+  >();
+
+  lots.forEach((lot) => {
+    const group = groups.get(lot.ingredientId);
+
+    if (!group) {
+      groups.set(lot.ingredientId, {
+        ingredientId: lot.ingredientId,
+        ingredient: lot.ingredient,
+        totalQuantity: lot.quantity,
+        unit: lot.unit,
+        nextExpiryDate: lot.expiryDate,
+        lots: [lot],
+      });
+      return;
+    }
+
+    const converted = convertQuantity(
+      lot.quantity,
+      lot.unit,
+      group.unit,
+      lot.ingredient
+    );
+    if (converted !== null) {
+      group.totalQuantity = roundQuantity(group.totalQuantity + converted);
+    }
+    if (
+      lot.expiryDate &&
+      (!group.nextExpiryDate || lot.expiryDate < group.nextExpiryDate)
+    ) {
+      group.nextExpiryDate = lot.expiryDate;
+    }
+    group.lots.push(lot);
+  });
+
+  return Array.from(groups.values());
+};
+
+/**
+ * Verrouille les lots du foyer pour ces ingrédients jusqu'à la fin de la
+ * transaction. À appeler avant de lire le stock à consommer : une consommation
+ * concurrente attend la fin de celle-ci, puis relit les quantités restantes
+ * (les écritures de applyStockUpdates sont des valeurs absolues).
+ */
+export const lockHouseholdLots = async (
+  tx: Prisma.TransactionClient,
+  householdId: string,
+  ingredientIds: string[]
+) => {
+  if (ingredientIds.length === 0) return;
+
+  await tx.$queryRaw`
+    SELECT id FROM "fridge_items"
+    WHERE "householdId" = ${householdId}
+      AND "ingredientId" IN (${Prisma.join(ingredientIds)})
+    FOR UPDATE`;
+};
+
+/**
+ * Applique un plan de consommation : lots épuisés supprimés, autres décrémentés.
+ * Le plan doit avoir été calculé sur des lots verrouillés (lockHouseholdLots).
+ */
+export const applyStockUpdates = async (
+  tx: Prisma.TransactionClient,
+  updates: StockUpdate[]
+) => {
+  for (const update of updates) {
+    if (update.deleted) {
+      await tx.fridgeItem.delete({
+        where: { id: update.fridgeItemId },
+      });
+    } else {
+      await tx.fridgeItem.update({
+        where: { id: update.fridgeItemId },
+        data: { quantity: update.after },
+      });
+    }
+  }
+};
@@ -0,0 +1,284 @@
+// Registre d'unités partagé : normalisation, familles et conversions de quantités.
+import { createApiError } from "../middleware/errorHandler";
+
+export type UnitFamily = "mass" | "volume" | "count";
+
+export interface UnitDefinition {
+  code: string; // forme canonique stockée en base
+  family: UnitFamily;
+  factor: number; // multiplicateur vers l'unité de base (g, ml ou pièce)
+}
+
+// Facteurs propres à un ingrédient pour passer d'une famille à l'autre.
+export interface ConversionProfile {
+  name?: string;
+  density?: number | null; // g par ml
+  pieceWeight?: number | null; // g par pièce
+}
+
+export interface Quantity {
+  quantity: number;
+  unit: string;
+}
+
+const UNITS: Record<string, UnitDefinition> = {
+  mg: { code: "mg", family: "mass", factor: 0.001 },
+  g: { code: "g", family: "mass", factor: 1 },
+  kg: { code: "kg", family: "mass", factor: 1000 },
+  ml: { code: "ml", family: "volume", factor: 1 },
+  cl: { code: "cl", family: "volume", factor: 10 },
+  dl: { code: "dl", family: "volume", factor: 100 },
+  L: { code: "L", family: "volume", factor: 1000 },
+  "c. à café": { code: "c. à café", family: "volume", factor: 5 },
+  "c. à soupe": { code: "c. à soupe", family: "volume", factor: 15 },
+  pièce: { code: "pièce", family: "count", factor: 1 },
+};
+
+// Alias saisis par les utilisateurs ou renvoyés par l'IA (clés compactées, sans points ni espaces).
+const ALIASES: Record<string, string> = {
+  mg: "mg",
+  milligramme: "mg",
+  milligrammes: "mg",
+  g: "g",
+  gr: "g",
+  grs: "g",
+  gramme: "g",
+  grammes: "g",
+  kg: "kg",
+  kgs: "kg",
+  kilo: "kg",
+  kilos: "kg",
+  kilogramme: "kg",
+  kilogrammes: "kg",
+  ml: "ml",
+  millilitre: "ml",
+  millilitres: "ml",
+  cl: "cl",
+  centilitre: "cl",
+  centilitres: "cl",
+  dl: "dl",
+  décilitre: "dl",
+  décilitres: "dl",
+  l: "L",
+  litre: "L",
+  litres: "L",
+  càc: "c. à café",
+  cac: "c. à café",
+  cc: "c. à café",
+  cuillèreàcafé: "c. à café",
+  cuillèresàcafé: "c. à café",
+  cuillereacafe: "c. à café",
+  càcafé: "c. à café",
+  cacafe: "c. à café",
+  tsp: "c. à café",
+  teaspoon: "c. à café",
+  teaspoons: "c. à café",
+  càs: "c. à soupe",
+  cas: "c. à soupe",
+  cs: "c. à soupe",
+  cuillèreàsoupe: "c. à soupe",
+  cuillèresàsoupe: "c. à soupe",
+  cuillereasoupe: "c. à soupe",
+  càsoupe: "c. à soupe",
+  casoupe: "c. à soupe",
+  tbsp: "c. à soupe",
+  tablespoon: "c. à soupe",
+  tablespoons: "c. à soupe",
+  pièce: "pièce",
+  pièces: "pièce",
+  piece: "pièce",
+  pieces: "pièce",
+  pc: "pièce",
+  pcs: "pièce",
+  unité: "pièce",
+  unités: "pièce",
+  u: "pièce",
+};
+
+const compactUnit = (unit: string) =>
+  unit.trim().toLowerCase().replace(/[.\s]/g, "");
+
+// Évite les artefacts flottants (0.1 + 0.2) dans les quantités stockées.
+export const roundQuantity = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Retrouve la définition d'une unité connue, ou null pour une unité libre
+ * (paquet, botte, régime...).
+ */
+export const resolveUnit = (unit: string): UnitDefinition | null => {
+  const alias = ALIASES[compactUnit(unit)];
+  return alias ? UNITS[alias] : null;
+};
+
+/**
+ * Forme canonique à persister : code du registre ou saisie nettoyée.
+ */
+export const normalizeUnit = (unit: string) =>
+  resolveUnit(unit)?.code ?? unit.trim();
+
+// Quantité exprimée en grammes, si le profil de l'ingrédient le permet.
+const toGrams = (
+  baseQuantity: number,
+  family: UnitFamily,
+  profile?: ConversionProfile
+) => {
+  if (family === "mass") return baseQuantity;
+  if (family === "volume" && profile?.density) {
+    return baseQuantity * profile.density;
+  }
+  if (family === "count" && profile?.pieceWeight) {
+    return baseQuantity * profile.pieceWeight;
+  }
+  return null;
+};
+
+const fromGrams = (
+  grams: number,
+  family: UnitFamily,
+  profile?: ConversionProfile
+) => {
+  if (family === "mass") return grams;
+  if (family === "volume" && profile?.density) {
+    return grams / profile.density;
+  }
+  if (family === "count" && profile?.pieceWeight) {
+    return grams / profile.pieceWeight;
+  }
+  return null;
+};
+
+/**
+ * Convertit une quantité d'une unité vers une autre.
+ * Les changements de famille (masse/volume/pièce) passent par la densité ou
+ * le poids unitaire de l'ingrédient. Renvoie null si la conversion est impossible.
+ */
+export const convertQuantity = (
+  quantity: number,
+  fromUnit: string,
+  toUnit: string,
+  profile?: ConversionProfile
+): number | null => {
+  const from = resolveUnit(fromUnit);
+  const to = resolveUnit(toUnit);
+
+  if (!from || !to) {
+    // Unités libres : seules deux saisies identiques sont comparables
+    return compactUnit(fromUnit) === compactUnit(toUnit) ? quantity : null;
+  }
+
+  const baseQuantity = quantity * from.factor;
+
+  if (from.family === to.family) {
+    return roundQuantity(baseQuantity / to.factor);
+  }
+
+  const grams = toGrams(baseQuantity, from.family, profile);
+  if (grams === null) return null;
+
+  const converted = fromGrams(grams, to.family, profile);
+  return converted === null ? null : roundQuantity(converted / to.factor);
+};
+
+/**
+ * Indique si deux unités sont comparables pour un ingrédient donné.
+ */
+export const areUnitsCompatible = (
+  unitA: string,
+  unitB: string,
+  profile?: ConversionProfile
+) => convertQuantity(1, unitA, unitB, profile) !== null;
+
+/**
+ * Additionne une quantité à un stock existant en conservant l'unité du stock.
+ * Lève une erreur 400 si les unités ne peuvent pas être converties.
+ */
+export const mergeQuantities = (
+  existing: Quantity,
+  added: Quantity,
+  profile?: ConversionProfile
+): Quantity => {
+  const unit = normalizeUnit(existing.unit);
+  const converted = convertQuantity(added.quantity, added.unit, unit, profile);
+
+  if (converted === null) {
+    throw createApiError(
+      `Impossible d'additionner ${added.quantity} ${added.unit} à ${
+        existing.quantity
+      } ${existing.unit}${
+        profile?.name ? ` pour ${profile.name}` : ""
+      } : unités incompatibles`,
+      400
+    );
+  }
+
+  return {
+    quantity: roundQuantity(existing.quantity + converted),
+    unit,
+  };
+};
+
+const roundToStep = (value: number, step: number) =>
+  roundQuantity(Math.round(value / step) * step);
+
+// Précision lisible : au demi sous 20, à l'unité sous 100, puis par 5 et par 10.
+const roundForDisplay = (value: number, largeUnit: boolean) => {
+  if (largeUnit && value < 10) return roundToStep(value, 0.1);
+  if (value < 1) return roundToStep(value, 0.05);
+  if (value < 20) return roundToStep(value, 0.5);
+  if (value < 100) return roundToStep(value, 1);
+  if (value < 1000) return roundToStep(value, 5);
+  return roundToStep(value, 10);
+};
+
+// Unité la plus parlante pour une quantité de base (g ou ml).
+const displayUnitFor = (base: number, definition: UnitDefinition) => {
+  if (definition.family === "mass") {
+    if (base >= 1000) return "kg";
+    return base < 1 ? "mg" : "g";
+  }
+  if (base >= 1000) return "L";
+  // Les recettes en cl, dl ou L restent en centilitres
+  return definition.code !== "ml" && base >= 10 ? "cl" : "ml";
+};
+
+/**
+ * Multiplie une quantité (changement du nombre de portions) en arrondissant
+ * selon l'unité : pièces entières (ou demi-pièces si la recette en utilise),
+ * cuillères au quart, et 1500 g affichés 1,5 kg.
+ */
+export const scaleQuantity = (
+  quantity: number,
+  unit: string,
+  factor: number
+): Quantity => {
+  if (factor === 1) return { quantity, unit };
+
+  const scaled = quantity * factor;
+  const definition = resolveUnit(unit);
+
+  if (!definition || definition.family === "count") {
+    const step = Number.isInteger(quantity) ? 1 : 0.5;
+    return { quantity: Math.max(step, roundToStep(scaled, step)), unit };
+  }
+
+  if (definition.code === "c. à café" || definition.code === "c. à soupe") {
+    const teaspoons = (scaled * definition.factor) / UNITS["c. à café"].factor;
+    return teaspoons >= 3
+      ? {
+          quantity: Math.max(0.25, roundToStep(teaspoons / 3, 0.25)),
+          unit: "c. à soupe",
+        }
+      : {
+          quantity: Math.max(0.25, roundToStep(teaspoons, 0.25)),
+          unit: "c. à café",
+        };
+  }
+
+  const base = scaled * definition.factor;
+  const target = UNITS[displayUnitFor(base, definition)];
+
+  return {
+    quantity: roundForDisplay(base / target.factor, target.factor >= 1000),
+    unit: target.code,
+  };
+};
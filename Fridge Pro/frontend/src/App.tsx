@@ -5,6 +5,9 @@ import { HomePage } from "@/pages/HomePage";
 import { FridgePage } from "@/pages/FridgePage";
 import { RecipesPage } from "@/pages/RecipesPage";
 import { ShoppingListPage } from "@/pages/ShoppingListPage";
+import { MealPlannerPage } from "@/pages/MealPlannerPage";
+import { JournalPage } from "@/pages/JournalPage";
+import { HouseholdPage } from "@/pages/HouseholdPage";
 import { AuthPage } from "@/pages/AuthPage";
 import { ProfilePage } from "@/pages/ProfilePage";
 import OpenFoodFactsTest from "@/components/OpenFoodFactsTest";
@@ -28,6 +31,9 @@ function App() {
         <Route path="fridge" element={<FridgePage />} />
         <Route path="recipes" element={<RecipesPage />} />
         <Route path="shopping-list" element={<ShoppingListPage />} />
+        <Route path="meal-planner" element={<MealPlannerPage />} />
+        <Route path="journal" element={<JournalPage />} />
+        <Route path="household" element={<HouseholdPage />} />
         <Route path="profile" element={<ProfilePage />} />
         <Route path="test-openff" element={<OpenFoodFactsTest />} />
       </Route>
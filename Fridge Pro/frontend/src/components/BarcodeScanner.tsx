@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from "react";
+import { CameraOff } from "lucide-react";
+
+// API BarcodeDetector (Chrome/Android), absente des types DOM standard
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: {
+  formats?: string[];
+}) => BarcodeDetectorInstance;
+
+const getBarcodeDetector = () =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor })
+    .BarcodeDetector;
+
+export const isBarcodeScanSupported = () =>
+  !!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia;
+
+interface BarcodeScannerProps {
+  onDetected: (code: string) => void;
+}
+
+export function BarcodeScanner({ onDetected }: BarcodeScannerProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const onDetectedRef = useRef(onDetected);
+  const [error, setError] = useState<string | null>(null);
+
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!Detector) return;
+
+    const detector = new Detector({
+      formats: ["ean_13", "ean_8", "upc_a", "upc_e"],
+    });
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (stopped || !video) return;
+
+      try {
+        const [barcode] = await detector.detect(video);
+        if (barcode?.rawValue && !stopped) {
+          stopped = true;
+          onDetectedRef.current(barcode.rawValue);
+          return;
+        }
+      } catch {
+        // image pas encore disponible : on réessaie au prochain passage
+      }
+      timer = window.setTimeout(scan, 400);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then(async (mediaStream) => {
+        stream = mediaStream;
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = mediaStream;
+        await videoRef.current.play();
+        scan();
+      })
+      .catch(() => setError("Impossible d'accéder à la caméra"));
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center p-6 bg-gray-100 rounded-lg text-sm text-gray-600">
+        <CameraOff className="w-5 h-5 mr-2" />
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative overflow-hidden rounded-lg bg-black">
+      <video
+        ref={videoRef}
+        className="w-full h-48 object-cover"
+        muted
+        playsInline
+      />
+      <div className="absolute inset-x-8 top-1/2 h-0.5 bg-red-500/80" />
+    </div>
+  );
+}
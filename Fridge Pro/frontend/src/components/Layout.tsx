@@ -3,11 +3,15 @@ import {
   Home,
   Refrigerator,
   ChefHat,
+  CalendarDays,
+  BarChart3,
   ShoppingCart,
+  Users,
   User,
   LogOut,
 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { NotificationBell } from "@/components/NotificationBell";
 
 export function Layout() {
   const location = useLocation();
@@ -17,7 +21,10 @@ export function Layout() {
     { name: "Accueil", href: "/", icon: Home },
     { name: "Mon Frigo", href: "/fridge", icon: Refrigerator },
     { name: "Recettes", href: "/recipes", icon: ChefHat },
+    { name: "Planning", href: "/meal-planner", icon: CalendarDays },
+    { name: "Journal", href: "/journal", icon: BarChart3 },
     { name: "Liste de courses", href: "/shopping-list", icon: ShoppingCart },
+    { name: "Foyer", href: "/household", icon: Users },
   ];
 
   const isActive = (href: string) => {
@@ -63,6 +70,8 @@ export function Layout() {
 
             {/* User menu */}
             <div className="flex items-center space-x-4">
+              <NotificationBell />
+
               <Link
                 to="/profile"
                 className={`flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors ${
@@ -90,7 +99,7 @@ export function Layout() {
 
         {/* Mobile navigation */}
         <div className="md:hidden border-t">
-          <div className="grid grid-cols-4 gap-1 p-2">
+          <div className="grid grid-cols-5 gap-1 p-2">
             {navigation.map((item) => {
               const Icon = item.icon;
               return (
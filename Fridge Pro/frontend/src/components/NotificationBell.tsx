@@ -0,0 +1,147 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Bell, AlertTriangle, Clock, Users } from "lucide-react";
+import { notificationService } from "@/services/notificationService";
+import type { AppNotification } from "@/types";
+
+export function NotificationBell() {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const queryClient = useQueryClient();
+
+  // Les alertes sont générées côté serveur : on rafraîchit régulièrement
+  const { data } = useQuery({
+    queryKey: ["notifications"],
+    queryFn: () => notificationService.getNotifications(),
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const markAsReadMutation = useMutation({
+    mutationFn: notificationService.markAsRead,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notifications"] });
+    },
+  });
+
+  const markAllAsReadMutation = useMutation({
+    mutationFn: notificationService.markAllAsRead,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notifications"] });
+    },
+  });
+
+  // Fermer le panneau lors d'un clic à l'extérieur
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const handleNotificationClick = (notification: AppNotification) => {
+    if (!notification.read) {
+      markAsReadMutation.mutate(notification.id);
+    }
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="relative flex items-center px-3 py-2 rounded-md text-gray-600 hover:text-primary-600 hover:bg-gray-100 transition-colors"
+        aria-label="Notifications"
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute top-1 right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold flex items-center justify-center">
+            {unreadCount > 9 ? "9+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 rounded-lg shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <span className="text-sm font-semibold text-gray-900">
+              Notifications
+            </span>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markAllAsReadMutation.mutate()}
+                className="text-xs text-primary-600 hover:underline"
+              >
+                Tout marquer comme lu
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">
+              Aucune notification
+            </p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map((notification) => {
+                const isInvitation =
+                  notification.type === "household_invitation";
+                const Icon = isInvitation
+                  ? Users
+                  : notification.type === "expired"
+                  ? AlertTriangle
+                  : Clock;
+                return (
+                  <li key={notification.id}>
+                    <Link
+                      to={isInvitation ? "/household" : "/fridge"}
+                      onClick={() => handleNotificationClick(notification)}
+                      className={`flex items-start space-x-3 px-4 py-3 hover:bg-gray-50 ${
+                        notification.read ? "" : "bg-primary-50"
+                      }`}
+                    >
+                      <Icon
+                        className={`w-4 h-4 mt-0.5 flex-shrink-0 ${
+                          isInvitation
+                            ? "text-primary-600"
+                            : notification.type === "expired"
+                            ? "text-red-600"
+                            : "text-orange-600"
+                        }`}
+                      />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900">
+                          {notification.title}
+                        </p>
+                        <p className="text-sm text-gray-600">
+                          {notification.message}
+                        </p>
+                        <p className="text-xs text-gray-400 mt-1">
+                          {new Date(notification.createdAt).toLocaleString(
+                            "fr-FR"
+                          )}
+                        </p>
+                      </div>
+                    </Link>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
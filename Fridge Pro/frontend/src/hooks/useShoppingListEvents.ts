@@ -0,0 +1,82 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import type { ShoppingList, ShoppingListEvent } from "@/types";
+
+const EVENT_TYPES: ShoppingListEvent["type"][] = [
+  "list_created",
+  "list_updated",
+  "list_deleted",
+  "item_added",
+  "item_updated",
+  "item_removed",
+  "share_added",
+  "share_removed",
+];
+
+/**
+ * Synchronise les listes de courses en temps réel (flux SSE) : les articles
+ * ajoutés, cochés ou retirés par les autres membres sont appliqués au cache,
+ * les autres changements rechargent les listes.
+ */
+export const useShoppingListEvents = (currentUserId?: string) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const token = localStorage.getItem("token");
+    if (!token) return;
+
+    // EventSource ne permet pas d'en-tête Authorization : token en paramètre
+    const source = new EventSource(
+      `/api/shopping-lists/events?access_token=${encodeURIComponent(token)}`
+    );
+
+    const updateList = (
+      listId: string,
+      update: (list: ShoppingList) => ShoppingList
+    ) =>
+      queryClient.setQueryData<ShoppingList[]>(["shoppingLists"], (lists) =>
+        lists?.map((list) => (list.id === listId ? update(list) : list))
+      );
+
+    const handleEvent = (message: MessageEvent<string>) => {
+      const event: ShoppingListEvent = JSON.parse(message.data);
+      const { item } = event;
+
+      if (
+        (event.type === "item_added" || event.type === "item_updated") &&
+        item
+      ) {
+        updateList(event.listId, (list) => ({
+          ...list,
+          items: list.items.some((existing) => existing.id === item.id)
+            ? list.items.map((existing) =>
+                existing.id === item.id ? item : existing
+              )
+            : [...list.items, item],
+        }));
+
+        if (event.type === "item_added" && event.actor.id !== currentUserId) {
+          toast(`${event.actor.firstName} a ajouté ${item.ingredient.name}`);
+        }
+        return;
+      }
+
+      if (event.type === "item_removed") {
+        updateList(event.listId, (list) => ({
+          ...list,
+          items: list.items.filter((existing) => existing.id !== event.itemId),
+        }));
+        return;
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["shoppingLists"] });
+    };
+
+    EVENT_TYPES.forEach((type) =>
+      source.addEventListener(type, handleEvent as EventListener)
+    );
+
+    return () => source.close();
+  }, [queryClient, currentUserId]);
+};
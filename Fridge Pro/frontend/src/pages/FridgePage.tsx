@@ -13,14 +13,28 @@ import {
   AlertTriangle,
   Upload,
   ScanLine,
+  MinusCircle,
+  MapPin,
+  Barcode,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
 import { Modal } from "@/components/ui/Modal";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import {
+  BarcodeScanner,
+  isBarcodeScanSupported,
+} from "@/components/BarcodeScanner";
 import { fridgeService } from "@/services/fridgeService";
-import type { FridgeItem, AddFridgeItemRequest, Ingredient } from "@/types";
+import type {
+  FridgeItem,
+  FridgeGroup,
+  AddFridgeItemRequest,
+  Ingredient,
+  ImportedIngredientLine,
+  IngredientMatchConfidence,
+} from "@/types";
 
 // Schéma de validation
 const fridgeItemSchema = z.object({
@@ -28,18 +42,50 @@ const fridgeItemSchema = z.object({
   quantity: z.number().min(0.1, "La quantité doit être supérieure à 0"),
   unit: z.string().min(1, "Veuillez spécifier une unité"),
   expiryDate: z.string().optional(),
+  location: z.string().optional(),
   notes: z.string().optional(),
 });
 
 type FridgeItemForm = z.infer<typeof fridgeItemSchema>;
 
+const consumeSchema = z.object({
+  quantity: z.number().min(0.01, "La quantité doit être supérieure à 0"),
+  unit: z.string().min(1, "Veuillez spécifier une unité"),
+});
+
+type ConsumeForm = z.infer<typeof consumeSchema>;
+
+// Ligne du ticket en cours de relecture : seules les lignes cochées sont rangées
+interface ReceiptReviewLine extends ImportedIngredientLine {
+  included: boolean;
+  expiryDate: string;
+}
+
+const MATCH_BADGES: Record<
+  IngredientMatchConfidence,
+  { label: string; className: string }
+> = {
+  exact: { label: "Reconnu", className: "bg-green-100 text-green-800" },
+  partial: { label: "À vérifier", className: "bg-yellow-100 text-yellow-800" },
+  none: { label: "Nouvel ingrédient", className: "bg-gray-100 text-gray-700" },
+};
+
 export function FridgePage() {
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<FridgeItem | null>(null);
+  const [consumingGroup, setConsumingGroup] = useState<FridgeGroup | null>(
+    null
+  );
   const [searchTerm, setSearchTerm] = useState("");
   const [ingredientSearch, setIngredientSearch] = useState("");
   const [ingredientInputValue, setIngredientInputValue] = useState("");
   const [isScanning, setIsScanning] = useState(false);
+  const [barcode, setBarcode] = useState("");
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [isLookingUpBarcode, setIsLookingUpBarcode] = useState(false);
+  const [receiptReview, setReceiptReview] = useState<
+    ReceiptReviewLine[] | null
+  >(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const queryClient = useQueryClient();
 
@@ -51,15 +97,25 @@ export function FridgePage() {
       quantity: 1,
       unit: "",
       expiryDate: "",
+      location: "",
       notes: "",
     },
   });
 
-  // Récupérer les éléments du frigo
-  const { data: fridgeItems = [], isLoading } = useQuery({
-    queryKey: ["fridgeItems"],
-    queryFn: fridgeService.getFridgeItems,
+  const consumeForm = useForm<ConsumeForm>({
+    resolver: zodResolver(consumeSchema),
+    defaultValues: {
+      quantity: 1,
+      unit: "",
+    },
+  });
+
+  // Récupérer les lots du frigo, regroupés par ingrédient
+  const { data: fridgeGroups = [], isLoading } = useQuery({
+    queryKey: ["fridgeItems", "groups"],
+    queryFn: fridgeService.getFridgeGroups,
   });
+  const fridgeItems = fridgeGroups.flatMap((group) => group.lots);
 
   // Récupérer les ingrédients pour le formulaire
   const { data: ingredients = [] } = useQuery({
@@ -71,65 +127,76 @@ export function FridgePage() {
     enabled: !!ingredientSearch || isAddModalOpen || !!editingItem,
   });
 
+  // Catalogue complet pour réassocier les lignes du ticket
+  const { data: availableIngredients = [] } = useQuery({
+    queryKey: ["availableIngredients"],
+    queryFn: () => fridgeService.getIngredients(),
+    enabled: !!receiptReview,
+    staleTime: 1000 * 60 * 5,
+  });
+
   const closeModal = () => {
     setIsAddModalOpen(false);
     setEditingItem(null);
     form.reset();
     setIngredientInputValue("");
     setIngredientSearch("");
+    setBarcode("");
+    setIsCameraOpen(false);
   };
 
-  const handleIngredientSelection = async (ingredient: Ingredient) => {
+  // Pré-remplit le formulaire à partir du produit scanné
+  const handleBarcodeLookup = async (code: string) => {
+    const trimmed = code.trim();
+    if (!trimmed || isLookingUpBarcode) return;
+
+    setIsLookingUpBarcode(true);
     try {
-      let selected = ingredient;
-
-      if (ingredient.id.startsWith("off_")) {
-        const created = await fridgeService.createIngredient({
-          name: ingredient.name,
-          categoryId:
-            ingredient.category && ingredient.category.id !== "external"
-              ? ingredient.category.id
-              : undefined,
-        });
-        selected = created;
-      }
+      const { ingredient, created, product } =
+        await fridgeService.lookupBarcode(trimmed);
 
-      form.setValue("ingredientId", selected.id, { shouldValidate: true });
+      form.setValue("ingredientId", ingredient.id, { shouldValidate: true });
       form.clearErrors("ingredientId");
-      setIngredientInputValue(selected.name);
+      setIngredientInputValue(ingredient.name);
       setIngredientSearch("");
-    } catch (error: any) {
-      if (error?.statusCode === 400 || error?.response?.status === 400) {
-        try {
-          const existingIngredients = await fridgeService.getIngredients();
-          const existing = existingIngredients.find(
-            (item) =>
-              !item.id.startsWith("off_") &&
-              item.name.toLowerCase() === ingredient.name.toLowerCase()
-          );
-
-          if (existing) {
-            form.setValue("ingredientId", existing.id, {
-              shouldValidate: true,
-            });
-            form.clearErrors("ingredientId");
-            setIngredientInputValue(existing.name);
-            setIngredientSearch("");
-            return;
-          }
-        } catch {
-          // ignore and fall back to error message below
-        }
+      if (product.packageQuantity && product.packageUnit) {
+        form.setValue("quantity", product.packageQuantity);
+        form.setValue("unit", product.packageUnit, { shouldValidate: true });
       }
-
-      toast.error(
-        error?.response?.data?.message ||
-          error?.message ||
-          "Impossible d'ajouter cet ingrédient"
+      if (created) {
+        queryClient.invalidateQueries({ queryKey: ["ingredients"] });
+      }
+      toast.success(
+        `Produit reconnu : ${product.name}${
+          product.brand ? ` (${product.brand})` : ""
+        }`
       );
+    } catch (error: any) {
+      toast.error(error?.message || "Produit introuvable pour ce code-barres");
+    } finally {
+      setIsLookingUpBarcode(false);
     }
   };
 
+  const handleBarcodeDetected = (code: string) => {
+    setIsCameraOpen(false);
+    setBarcode(code);
+    handleBarcodeLookup(code);
+  };
+
+  const handleIngredientSelection = async (ingredient: Ingredient) => {
+    // Résultat OpenFoodFacts : enregistré dans le catalogue via son code-barres
+    if (ingredient.id.startsWith("off_")) {
+      await handleBarcodeLookup(ingredient.id.slice("off_".length));
+      return;
+    }
+
+    form.setValue("ingredientId", ingredient.id, { shouldValidate: true });
+    form.clearErrors("ingredientId");
+    setIngredientInputValue(ingredient.name);
+    setIngredientSearch("");
+  };
+
   const handleScanTicketClick = () => {
     if (isScanning) return;
     fileInputRef.current?.click();
@@ -146,9 +213,13 @@ export function FridgePage() {
 
     try {
       const result = await fridgeService.scanReceipt(file);
-      await queryClient.invalidateQueries({ queryKey: ["fridgeItems"] });
-      toast.success(
-        result.message || "Ingrédients ajoutés depuis le ticket de caisse !"
+      // Les lignes sans correspondance (souvent des erreurs de lecture) sont décochées
+      setReceiptReview(
+        result.lines.map((line) => ({
+          ...line,
+          included: line.confidence !== "none",
+          expiryDate: "",
+        }))
       );
     } catch (error: any) {
       const message =
@@ -160,6 +231,64 @@ export function FridgePage() {
     }
   };
 
+  const commitReceiptMutation = useMutation({
+    mutationFn: (lines: ReceiptReviewLine[]) =>
+      fridgeService.commitReceipt({
+        lines: lines.map((line) => ({
+          ingredientId: line.ingredientId || undefined,
+          name: line.ingredientId ? undefined : line.name.trim(),
+          quantity: line.quantity ?? 0,
+          unit: line.unit.trim() || "pièce",
+          expiryDate: line.expiryDate || undefined,
+          notes: line.notes?.trim() || undefined,
+        })),
+      }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["fridgeItems"] });
+      if (result.ingredientsCreated > 0) {
+        queryClient.invalidateQueries({ queryKey: ["availableIngredients"] });
+      }
+      toast.success(result.message);
+      setReceiptReview(null);
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.message || "Erreur lors de l'ajout du ticket au frigo"
+      );
+    },
+  });
+
+  const updateReceiptLine = (
+    index: number,
+    changes: Partial<ReceiptReviewLine>
+  ) =>
+    setReceiptReview((lines) =>
+      lines
+        ? lines.map((line, lineIndex) =>
+            lineIndex === index ? { ...line, ...changes } : line
+          )
+        : lines
+    );
+
+  const handleConfirmReceipt = () => {
+    const confirmed = receiptReview?.filter((line) => line.included) ?? [];
+
+    if (confirmed.length === 0) {
+      toast.error("Cochez au moins une ligne à ajouter au frigo");
+      return;
+    }
+    if (confirmed.some((line) => !line.quantity || line.quantity <= 0)) {
+      toast.error("Indiquez une quantité pour chaque ligne cochée");
+      return;
+    }
+    if (confirmed.some((line) => !line.ingredientId && !line.name.trim())) {
+      toast.error("Nommez ou associez chaque ligne cochée");
+      return;
+    }
+
+    commitReceiptMutation.mutate(confirmed);
+  };
+
   const openAddModal = () => {
     setEditingItem(null);
     form.reset();
@@ -210,11 +339,48 @@ export function FridgePage() {
     },
   });
 
-  // Filtrer les éléments du frigo
-  const filteredItems = fridgeItems.filter(
-    (item) =>
-      item.ingredient.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      item.ingredient.category?.name
+  const consumeMutation = useMutation({
+    mutationFn: fridgeService.consumeFridgeItem,
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["fridgeItems"] });
+      if (result.shortfall > 0) {
+        toast.error(
+          `Stock insuffisant : ${result.consumedQuantity} ${result.unit} consommé(s) sur ${result.requiredQuantity}`
+        );
+      } else {
+        toast.success("Consommation enregistrée !");
+      }
+      closeConsumeModal();
+    },
+    onError: (error: any) => {
+      toast.error(error?.message || "Erreur lors de la consommation");
+    },
+  });
+
+  const openConsumeModal = (group: FridgeGroup) => {
+    setConsumingGroup(group);
+    consumeForm.reset({ quantity: 1, unit: group.unit });
+  };
+
+  const closeConsumeModal = () => {
+    setConsumingGroup(null);
+    consumeForm.reset();
+  };
+
+  const handleConsume = (data: ConsumeForm) => {
+    if (!consumingGroup) return;
+    consumeMutation.mutate({
+      ingredientId: consumingGroup.ingredientId,
+      quantity: data.quantity,
+      unit: data.unit,
+    });
+  };
+
+  // Filtrer les ingrédients du frigo
+  const filteredGroups = fridgeGroups.filter(
+    (group) =>
+      group.ingredient.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      group.ingredient.category?.name
         .toLowerCase()
         .includes(searchTerm.toLowerCase())
   );
@@ -225,7 +391,7 @@ export function FridgePage() {
   threeDaysFromNow.setDate(threeDaysFromNow.getDate() + 3);
 
   const stats = {
-    total: fridgeItems.length,
+    total: fridgeGroups.length,
     expiringSoon: fridgeItems.filter((item) => {
       if (!item.expiryDate) return false;
       const expiryDate = new Date(item.expiryDate);
@@ -244,6 +410,7 @@ export function FridgePage() {
       quantity: data.quantity,
       unit: data.unit,
       expiryDate: data.expiryDate || undefined,
+      location: data.location || undefined,
       notes: data.notes || undefined,
     };
 
@@ -262,6 +429,7 @@ export function FridgePage() {
       quantity: item.quantity,
       unit: item.unit,
       expiryDate: item.expiryDate ? item.expiryDate.split("T")[0] : "",
+      location: item.location || "",
       notes: item.notes || "",
     });
     setIngredientInputValue(item.ingredient.name);
@@ -269,7 +437,7 @@ export function FridgePage() {
   };
 
   const handleDelete = (id: string) => {
-    if (confirm("Êtes-vous sûr de vouloir supprimer cet ingrédient ?")) {
+    if (confirm("Êtes-vous sûr de vouloir supprimer ce lot ?")) {
       deleteMutation.mutate(id);
     }
   };
@@ -397,7 +565,7 @@ export function FridgePage() {
         <div className="flex justify-center py-12">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
         </div>
-      ) : filteredItems.length === 0 ? (
+      ) : filteredGroups.length === 0 ? (
         <Card>
           <CardContent className="text-center py-12">
             <div className="text-gray-400 mb-4">
@@ -421,72 +589,101 @@ export function FridgePage() {
         </Card>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredItems.map((item) => {
-            const expiryStatus = getExpiryStatus(item.expiryDate);
+          {filteredGroups.map((group) => {
+            const expiryStatus = getExpiryStatus(group.nextExpiryDate);
             return (
-              <Card key={item.id} hover className="relative">
+              <Card key={group.ingredientId} hover className="relative">
                 <CardHeader className="pb-3">
                   <div className="flex items-start justify-between">
                     <div className="flex items-center space-x-3">
                       <div className="text-2xl">
-                        {item.ingredient.category?.icon || "🥬"}
+                        {group.ingredient.category?.icon || "🥬"}
                       </div>
                       <div>
                         <CardTitle className="text-lg">
-                          {item.ingredient.name}
+                          {group.ingredient.name}
                         </CardTitle>
                         <p className="text-sm text-gray-500">
-                          {item.ingredient.category?.name}
+                          {group.ingredient.category?.name}
                         </p>
                       </div>
                     </div>
-                    <div className="flex space-x-1">
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        onClick={() => handleEdit(item)}
-                      >
-                        <Edit3 className="w-4 h-4" />
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        onClick={() => handleDelete(item.id)}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
-                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => openConsumeModal(group)}
+                      title="Consommer"
+                    >
+                      <MinusCircle className="w-4 h-4" />
+                    </Button>
                   </div>
                 </CardHeader>
 
                 <CardContent className="pt-0">
                   <div className="space-y-2">
                     <div className="flex justify-between text-sm">
-                      <span className="text-gray-600">Quantité :</span>
-                      <span className="font-medium">{item.quantity}</span>
+                      <span className="text-gray-600">Total :</span>
+                      <span className="font-medium">
+                        {group.totalQuantity} {group.unit}
+                      </span>
                     </div>
 
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-600">Unité :</span>
-                      <span className="font-medium">{item.unit}</span>
+                    {/* Lots, du premier à consommer au dernier */}
+                    <div className="divide-y divide-gray-100 border-t border-gray-100">
+                      {group.lots.map((lot) => {
+                        const lotStatus = getExpiryStatus(lot.expiryDate);
+                        return (
+                          <div
+                            key={lot.id}
+                            className="flex items-start justify-between py-2 text-sm"
+                          >
+                            <div className="space-y-0.5">
+                              <div className="font-medium">
+                                {lot.quantity} {lot.unit}
+                              </div>
+                              <div
+                                className={
+                                  lotStatus ? lotStatus.color : "text-gray-500"
+                                }
+                              >
+                                {lot.expiryDate
+                                  ? `Expire le ${new Date(
+                                      lot.expiryDate
+                                    ).toLocaleDateString("fr-FR")}`
+                                  : "Sans date limite"}
+                              </div>
+                              {lot.location && (
+                                <div className="flex items-center text-gray-500">
+                                  <MapPin className="w-3 h-3 mr-1" />
+                                  {lot.location}
+                                </div>
+                              )}
+                              {lot.notes && (
+                                <div className="text-gray-600 italic">
+                                  {lot.notes}
+                                </div>
+                              )}
+                            </div>
+                            <div className="flex space-x-1">
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => handleEdit(lot)}
+                              >
+                                <Edit3 className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => handleDelete(lot.id)}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        );
+                      })}
                     </div>
-
-                    {item.expiryDate && (
-                      <div className="flex justify-between text-sm">
-                        <span className="text-gray-600">Expire le:</span>
-                        <span className={`font-medium ${expiryStatus?.color}`}>
-                          {new Date(item.expiryDate).toLocaleDateString(
-                            "fr-FR"
-                          )}
-                        </span>
-                      </div>
-                    )}
-
-                    {item.notes && (
-                      <div className="text-sm text-gray-600 italic">
-                        {item.notes}
-                      </div>
-                    )}
                   </div>
 
                   {expiryStatus && (
@@ -514,6 +711,56 @@ export function FridgePage() {
         size="md"
       >
         <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+          {/* Code-barres */}
+          {!editingItem && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Code-barres (optionnel)
+              </label>
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  placeholder="EAN, ex. 3017620422003"
+                  value={barcode}
+                  onChange={(e) => setBarcode(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      handleBarcodeLookup(barcode);
+                    }
+                  }}
+                  className="flex-1 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => handleBarcodeLookup(barcode)}
+                  loading={isLookingUpBarcode}
+                  disabled={!barcode.trim()}
+                >
+                  <Barcode className="w-4 h-4 mr-2" />
+                  Rechercher
+                </Button>
+                {isBarcodeScanSupported() && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    title="Scanner avec la caméra"
+                    onClick={() => setIsCameraOpen((open) => !open)}
+                  >
+                    <ScanLine className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+              {isCameraOpen && (
+                <div className="mt-3">
+                  <BarcodeScanner onDetected={handleBarcodeDetected} />
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Sélection de l'ingrédient */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -594,6 +841,13 @@ export function FridgePage() {
             {...form.register("expiryDate")}
           />
 
+          {/* Emplacement */}
+          <Input
+            label="Emplacement (optionnel)"
+            placeholder="Frigo, congélateur, placard..."
+            {...form.register("location")}
+          />
+
           {/* Notes */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -621,6 +875,231 @@ export function FridgePage() {
           </div>
         </form>
       </Modal>
+
+      {/* Modal de consommation */}
+      <Modal
+        isOpen={!!consumingGroup}
+        onClose={closeConsumeModal}
+        title={
+          consumingGroup ? `Consommer : ${consumingGroup.ingredient.name}` : ""
+        }
+        size="sm"
+      >
+        <form
+          onSubmit={consumeForm.handleSubmit(handleConsume)}
+          className="space-y-6"
+        >
+          <p className="text-sm text-gray-600">
+            Les lots qui expirent le plus tôt sont utilisés en premier.
+          </p>
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Quantité"
+              type="number"
+              step="0.01"
+              min="0.01"
+              error={consumeForm.formState.errors.quantity?.message}
+              {...consumeForm.register("quantity", { valueAsNumber: true })}
+            />
+            <Input
+              label="Unité"
+              error={consumeForm.formState.errors.unit?.message}
+              {...consumeForm.register("unit")}
+            />
+          </div>
+          <div className="flex justify-end space-x-3">
+            <Button type="button" variant="outline" onClick={closeConsumeModal}>
+              Annuler
+            </Button>
+            <Button type="submit" loading={consumeMutation.isPending}>
+              Consommer
+            </Button>
+          </div>
+        </form>
+      </Modal>
+      {/* Relecture du ticket de caisse */}
+      <Modal
+        isOpen={!!receiptReview}
+        onClose={() => setReceiptReview(null)}
+        title="Vérifier le ticket de caisse"
+        size="xl"
+      >
+        {receiptReview && (
+          <div className="space-y-6">
+            <p className="text-sm text-gray-600">
+              Seules les lignes cochées sont ajoutées au frigo. Sans ingrédient
+              sélectionné, un nouvel ingrédient est créé avec le nom indiqué.
+            </p>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-2 w-8" />
+                    <th className="py-2 pr-2">Ligne du ticket</th>
+                    <th className="py-2 pr-2">Ingrédient</th>
+                    <th className="py-2 pr-2 w-24">Quantité</th>
+                    <th className="py-2 pr-2 w-24">Unité</th>
+                    <th className="py-2 w-36">Date limite</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {receiptReview.map((line, index) => (
+                    <tr
+                      key={index}
+                      className={`border-b border-gray-100 align-top ${
+                        line.included ? "" : "opacity-50"
+                      }`}
+                    >
+                      <td className="py-3 pr-2">
+                        <input
+                          type="checkbox"
+                          checked={line.included}
+                          onChange={(event) =>
+                            updateReceiptLine(index, {
+                              included: event.target.checked,
+                            })
+                          }
+                          className="mt-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
+                      </td>
+                      <td className="py-3 pr-2">
+                        <p className="font-mono text-xs text-gray-700">
+                          {line.raw}
+                        </p>
+                        <span
+                          className={`inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-medium ${
+                            MATCH_BADGES[line.confidence].className
+                          }`}
+                        >
+                          {MATCH_BADGES[line.confidence].label}
+                        </span>
+                      </td>
+                      <td className="py-3 pr-2 space-y-2">
+                        <select
+                          value={line.ingredientId ?? ""}
+                          disabled={!line.included}
+                          onChange={(event) => {
+                            const ingredient = availableIngredients.find(
+                              (candidate) => candidate.id === event.target.value
+                            );
+                            updateReceiptLine(index, {
+                              ingredientId: ingredient?.id ?? null,
+                              matchedName: ingredient?.name ?? null,
+                              confidence: ingredient ? "exact" : "none",
+                            });
+                          }}
+                          className="w-full px-2 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                        >
+                          <option value="">Créer « {line.name} »</option>
+                          {line.ingredientId &&
+                            !availableIngredients.some(
+                              (ingredient) =>
+                                ingredient.id === line.ingredientId
+                            ) && (
+                              <option value={line.ingredientId}>
+                                {line.matchedName}
+                              </option>
+                            )}
+                          {availableIngredients.map((ingredient) => (
+                            <option key={ingredient.id} value={ingredient.id}>
+                              {ingredient.name}
+                            </option>
+                          ))}
+                        </select>
+                        {!line.ingredientId && (
+                          <input
+                            type="text"
+                            value={line.name}
+                            disabled={!line.included}
+                            placeholder="Nom du nouvel ingrédient"
+                            onChange={(event) =>
+                              updateReceiptLine(index, {
+                                name: event.target.value,
+                              })
+                            }
+                            className="w-full px-2 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                          />
+                        )}
+                      </td>
+                      <td className="py-3 pr-2">
+                        <input
+                          type="number"
+                          step="any"
+                          min={0}
+                          value={line.quantity ?? ""}
+                          disabled={!line.included}
+                          onChange={(event) =>
+                            updateReceiptLine(index, {
+                              quantity:
+                                event.target.value === ""
+                                  ? null
+                                  : Number(event.target.value),
+                            })
+                          }
+                          className={`w-full px-2 py-1.5 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+                            line.quantity || !line.included
+                              ? "border-gray-300"
+                              : "border-red-400"
+                          }`}
+                        />
+                      </td>
+                      <td className="py-3 pr-2">
+                        <input
+                          type="text"
+                          value={line.unit}
+                          disabled={!line.included}
+                          onChange={(event) =>
+                            updateReceiptLine(index, {
+                              unit: event.target.value,
+                            })
+                          }
+                          className="w-full px-2 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                        />
+                      </td>
+                      <td className="py-3">
+                        <input
+                          type="date"
+                          value={line.expiryDate}
+                          disabled={!line.included}
+                          onChange={(event) =>
+                            updateReceiptLine(index, {
+                              expiryDate: event.target.value,
+                            })
+                          }
+                          className="w-full px-2 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-500">
+                {receiptReview.filter((line) => line.included).length} ligne(s)
+                sur {receiptReview.length} à ajouter
+              </p>
+              <div className="flex space-x-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setReceiptReview(null)}
+                >
+                  Annuler
+                </Button>
+                <Button
+                  onClick={handleConfirmReceipt}
+                  loading={commitReceiptMutation.isPending}
+                >
+                  Ajouter au frigo
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </Modal>
     </div>
   );
 }
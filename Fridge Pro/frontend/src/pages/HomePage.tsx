@@ -8,6 +8,7 @@ import {
   ChefHat,
   Sparkles,
   ScanLine,
+  Leaf,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/Button";
@@ -30,10 +31,27 @@ export function HomePage() {
 
   const { data: suggestedRecipes = [], isError: recipesError } = useQuery({
     queryKey: ["suggestedRecipes"],
-    queryFn: recipeService.getSuggestedRecipes,
+    queryFn: () => recipeService.getSuggestedRecipes(),
     retry: false,
   });
 
+  const { data: antiWasteRecipes = [] } = useQuery({
+    queryKey: ["suggestedRecipes", "antiwaste"],
+    queryFn: () => recipeService.getSuggestedRecipes("antiwaste"),
+    retry: false,
+  });
+
+  // Recettes qui écoulent au moins un produit proche de sa date limite
+  const rescuingRecipes = antiWasteRecipes
+    .filter((recipe) => (recipe.rescuedItems?.length ?? 0) > 0)
+    .slice(0, 3);
+
+  const formatDaysLeft = (daysLeft: number) => {
+    if (daysLeft === 0) return "expire aujourd'hui";
+    if (daysLeft === 1) return "expire demain";
+    return `expire dans ${daysLeft} jours`;
+  };
+
   const { data: favoriteRecipes = [], isError: favoritesError } = useQuery({
     queryKey: ["favoriteRecipes"],
     queryFn: recipeService.getFavoriteRecipes,
@@ -42,7 +60,7 @@ export function HomePage() {
 
   const { data: shoppingLists = [], isError: shoppingError } = useQuery({
     queryKey: ["shoppingLists"],
-    queryFn: shoppingListService.getShoppingLists,
+    queryFn: () => shoppingListService.getShoppingLists(),
     retry: false,
   });
 
@@ -204,6 +222,56 @@ export function HomePage() {
         </Card>
       </div>
 
+      {/* Anti-gaspi */}
+      {rescuingRecipes.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl flex items-center">
+              <Leaf className="w-5 h-5 mr-2 text-green-600" />
+              Anti-gaspi : à cuisiner en priorité
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              {rescuingRecipes.map((recipe) => (
+                <Card key={recipe.id} hover>
+                  <CardContent className="p-4">
+                    <h3 className="font-medium text-gray-900 mb-2 line-clamp-1">
+                      {recipe.title}
+                    </h3>
+                    <ul className="space-y-1 text-sm">
+                      {recipe.rescuedItems?.map((item) => (
+                        <li
+                          key={item.fridgeItemId}
+                          className="flex justify-between"
+                        >
+                          <span className="text-gray-700">
+                            {item.ingredientName} ({item.quantity} {item.unit})
+                          </span>
+                          <span
+                            className={
+                              item.daysLeft <= 1
+                                ? "text-red-600"
+                                : "text-orange-600"
+                            }
+                          >
+                            {formatDaysLeft(item.daysLeft)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="mt-2 text-xs text-gray-500">
+                      {recipe.compatibilityScore ?? 0}% des ingrédients
+                      disponibles
+                    </p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Recettes recommandées */}
       <Card>
         <CardHeader>
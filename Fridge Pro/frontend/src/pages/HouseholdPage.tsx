@@ -0,0 +1,531 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import {
+  Users,
+  UserPlus,
+  Mail,
+  Crown,
+  Copy,
+  LogOut,
+  Trash2,
+  Home,
+  Check,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { useAuth } from "@/hooks/useAuth";
+import { householdService } from "@/services/householdService";
+import type { HouseholdRole } from "@/types";
+
+const ROLE_LABELS: Record<HouseholdRole, string> = {
+  owner: "Propriétaire",
+  member: "Membre",
+};
+
+// Lien à partager : la page d'accueil du foyer accepte le jeton en paramètre
+const invitationLink = (token: string) =>
+  `${window.location.origin}/household?token=${token}`;
+
+export function HouseholdPage() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkToken = searchParams.get("token");
+
+  const [newName, setNewName] = useState("");
+  const [renameValue, setRenameValue] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<HouseholdRole>("member");
+  const [lastInviteToken, setLastInviteToken] = useState<string | null>(null);
+
+  const { data: household, isLoading } = useQuery({
+    queryKey: ["household"],
+    queryFn: householdService.getCurrentHousehold,
+  });
+
+  const { data: households = [] } = useQuery({
+    queryKey: ["households"],
+    queryFn: householdService.getHouseholds,
+  });
+
+  const { data: invitations = [] } = useQuery({
+    queryKey: ["householdInvitations"],
+    queryFn: householdService.getMyInvitations,
+  });
+
+  const isOwner = household?.role === "owner";
+
+  // Le foyer actif change le frigo, les listes et les suggestions : tout recharger
+  const refreshAll = () => queryClient.invalidateQueries();
+
+  const activateMutation = useMutation({
+    mutationFn: householdService.activateHousehold,
+    onSuccess: () => {
+      refreshAll();
+      toast.success("Foyer actif modifié");
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: householdService.createHousehold,
+    onSuccess: () => {
+      setNewName("");
+      refreshAll();
+      toast.success("Foyer créé !");
+    },
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: (name: string) =>
+      householdService.renameHousehold(household!.id, name),
+    onSuccess: () => {
+      setRenameValue(null);
+      queryClient.invalidateQueries({ queryKey: ["household"] });
+      queryClient.invalidateQueries({ queryKey: ["households"] });
+      toast.success("Foyer renommé");
+    },
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: () =>
+      householdService.inviteMember(household!.id, {
+        email: inviteEmail,
+        role: inviteRole,
+      }),
+    onSuccess: (invitation) => {
+      setInviteEmail("");
+      setLastInviteToken(invitation.token ?? null);
+      queryClient.invalidateQueries({ queryKey: ["household"] });
+      toast.success("Invitation envoyée !");
+    },
+  });
+
+  const cancelInvitationMutation = useMutation({
+    mutationFn: (invitationId: string) =>
+      householdService.cancelInvitation(household!.id, invitationId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["household"] });
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: householdService.acceptInvitation,
+    onSuccess: () => {
+      if (linkToken) {
+        setSearchParams({});
+      }
+      refreshAll();
+      toast.success("Bienvenue dans le foyer !");
+    },
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: HouseholdRole }) =>
+      householdService.updateMemberRole(household!.id, userId, role),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["household"] });
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: (userId: string) =>
+      householdService.removeMember(household!.id, userId),
+    onSuccess: (_, userId) => {
+      if (userId === user?.id) {
+        refreshAll();
+        toast.success("Vous avez quitté le foyer");
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["household"] });
+        toast.success("Membre retiré");
+      }
+    },
+  });
+
+  const handleCopyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(invitationLink(token));
+      toast.success("Lien copié");
+    } catch {
+      toast.error("Impossible de copier le lien");
+    }
+  };
+
+  const handleLeave = () => {
+    const alone = (household?.members.length ?? 0) <= 1;
+    const message = alone
+      ? "Vous êtes le dernier membre : le foyer, son frigo et ses listes seront supprimés. Continuer ?"
+      : "Quitter ce foyer ? Vous n'aurez plus accès à son frigo ni à ses listes.";
+    if (user && window.confirm(message)) {
+      removeMemberMutation.mutate(user.id);
+    }
+  };
+
+  if (isLoading || !household) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Mon foyer 🏠</h1>
+        <p className="text-gray-600">
+          Partagez le frigo et les listes de courses avec votre foyer
+        </p>
+      </div>
+
+      {/* Invitation reçue par lien */}
+      {linkToken && (
+        <Card>
+          <CardContent className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 pt-6">
+            <div className="flex items-center space-x-3">
+              <Mail className="w-5 h-5 text-primary-600" />
+              <span className="text-gray-900">
+                Vous avez reçu un lien d'invitation à un foyer.
+              </span>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => acceptMutation.mutate(linkToken)}
+                loading={acceptMutation.isPending}
+              >
+                Rejoindre
+              </Button>
+              <Button variant="outline" onClick={() => setSearchParams({})}>
+                Ignorer
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Invitations reçues */}
+      {invitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Mail className="w-5 h-5" />
+              <span>Invitations reçues</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y divide-gray-100">
+              {invitations.map((invitation) => (
+                <li
+                  key={invitation.id}
+                  className="flex items-center justify-between py-3"
+                >
+                  <div>
+                    <div className="font-medium text-gray-900">
+                      {invitation.household?.name}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Invité par {invitation.invitedBy?.firstName}{" "}
+                      {invitation.invitedBy?.lastName} · expire le{" "}
+                      {new Date(invitation.expiresAt).toLocaleDateString(
+                        "fr-FR"
+                      )}
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => acceptMutation.mutate(invitation.token!)}
+                    loading={acceptMutation.isPending}
+                  >
+                    Accepter
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Foyer actif */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center space-x-2">
+                  <Users className="w-5 h-5" />
+                  <span>{household.name}</span>
+                </CardTitle>
+                {isOwner && renameValue === null && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setRenameValue(household.name)}
+                  >
+                    Renommer
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {renameValue !== null && (
+                <div className="flex gap-2">
+                  <Input
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                  />
+                  <Button
+                    onClick={() => renameMutation.mutate(renameValue.trim())}
+                    disabled={!renameValue.trim()}
+                    loading={renameMutation.isPending}
+                  >
+                    Enregistrer
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => setRenameValue(null)}
+                  >
+                    Annuler
+                  </Button>
+                </div>
+              )}
+
+              <ul className="divide-y divide-gray-100">
+                {household.members.map((member) => (
+                  <li
+                    key={member.id}
+                    className="flex items-center justify-between py-3"
+                  >
+                    <div>
+                      <div className="flex items-center space-x-2 font-medium text-gray-900">
+                        <span>
+                          {member.user.firstName} {member.user.lastName}
+                        </span>
+                        {member.role === "owner" && (
+                          <Crown
+                            className="w-4 h-4 text-yellow-500"
+                            aria-label="Propriétaire"
+                          />
+                        )}
+                        {member.user.id === user?.id && (
+                          <span className="text-xs text-gray-500">(vous)</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {member.user.email}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {isOwner && member.user.id !== user?.id ? (
+                        <>
+                          <select
+                            value={member.role}
+                            onChange={(e) =>
+                              roleMutation.mutate({
+                                userId: member.user.id,
+                                role: e.target.value as HouseholdRole,
+                              })
+                            }
+                            className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                          >
+                            {Object.entries(ROLE_LABELS).map(
+                              ([role, label]) => (
+                                <option key={role} value={role}>
+                                  {label}
+                                </option>
+                              )
+                            )}
+                          </select>
+                          <button
+                            onClick={() =>
+                              removeMemberMutation.mutate(member.user.id)
+                            }
+                            className="p-2 text-gray-400 hover:text-red-500"
+                            title="Retirer du foyer"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </>
+                      ) : (
+                        <span className="text-sm text-gray-500">
+                          {ROLE_LABELS[member.role]}
+                        </span>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              <Button variant="outline" onClick={handleLeave}>
+                <LogOut className="w-4 h-4 mr-2" />
+                Quitter le foyer
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Invitations */}
+          {isOwner && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <UserPlus className="w-5 h-5" />
+                  <span>Inviter quelqu'un</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                  <div className="md:col-span-2">
+                    <Input
+                      label="Email"
+                      type="email"
+                      placeholder="prenom@exemple.fr"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Rôle
+                    </label>
+                    <select
+                      value={inviteRole}
+                      onChange={(e) =>
+                        setInviteRole(e.target.value as HouseholdRole)
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    >
+                      {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                        <option key={role} value={role}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <Button
+                    onClick={() => inviteMutation.mutate()}
+                    disabled={!inviteEmail.trim()}
+                    loading={inviteMutation.isPending}
+                  >
+                    Inviter
+                  </Button>
+                </div>
+
+                {lastInviteToken && (
+                  <div className="flex items-center justify-between bg-primary-50 p-3 rounded-lg text-sm">
+                    <span className="text-gray-700 truncate mr-2">
+                      {invitationLink(lastInviteToken)}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleCopyLink(lastInviteToken)}
+                    >
+                      <Copy className="w-4 h-4 mr-1" />
+                      Copier
+                    </Button>
+                  </div>
+                )}
+
+                {household.invitations.length > 0 && (
+                  <ul className="divide-y divide-gray-100">
+                    {household.invitations.map((invitation) => (
+                      <li
+                        key={invitation.id}
+                        className="flex items-center justify-between py-2 text-sm"
+                      >
+                        <div>
+                          <span className="text-gray-900">
+                            {invitation.email}
+                          </span>
+                          <span className="text-gray-500">
+                            {" "}
+                            · {ROLE_LABELS[invitation.role]} · expire le{" "}
+                            {new Date(invitation.expiresAt).toLocaleDateString(
+                              "fr-FR"
+                            )}
+                          </span>
+                        </div>
+                        <button
+                          onClick={() =>
+                            cancelInvitationMutation.mutate(invitation.id)
+                          }
+                          className="p-2 text-gray-400 hover:text-red-500"
+                          title="Annuler l'invitation"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        {/* Mes foyers */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Home className="w-5 h-5" />
+              <span>Mes foyers</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ul className="space-y-2">
+              {households.map((item) => (
+                <li key={item.id}>
+                  <button
+                    onClick={() =>
+                      !item.active && activateMutation.mutate(item.id)
+                    }
+                    className={`w-full flex items-center justify-between p-3 rounded-lg border text-left transition-colors ${
+                      item.active
+                        ? "border-primary-500 bg-primary-50"
+                        : "border-gray-200 hover:bg-gray-50"
+                    }`}
+                  >
+                    <div>
+                      <div className="font-medium text-gray-900">
+                        {item.name}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {item.memberCount} membre
+                        {item.memberCount > 1 ? "s" : ""} ·{" "}
+                        {ROLE_LABELS[item.role]}
+                      </div>
+                    </div>
+                    {item.active && (
+                      <Check className="w-4 h-4 text-primary-600" />
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="space-y-2">
+              <Input
+                label="Nouveau foyer"
+                placeholder="Colocation, maison de vacances..."
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+              />
+              <Button
+                className="w-full"
+                variant="outline"
+                onClick={() => createMutation.mutate(newName.trim())}
+                disabled={!newName.trim()}
+                loading={createMutation.isPending}
+              >
+                Créer et activer
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,513 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { BarChart3, Plus, Target, Trash2, AlertTriangle } from "lucide-react";
+
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { journalService } from "@/services/journalService";
+import { recipeService } from "@/services/recipeService";
+import { fridgeService } from "@/services/fridgeService";
+import type { NutritionGoals, NutritionValues } from "@/types";
+
+type Nutrient = keyof NutritionValues;
+
+const NUTRIENTS: { value: Nutrient; label: string; unit: string }[] = [
+  { value: "calories", label: "Calories", unit: "kcal" },
+  { value: "protein", label: "Protéines", unit: "g" },
+  { value: "carbs", label: "Glucides", unit: "g" },
+  { value: "fat", label: "Lipides", unit: "g" },
+  { value: "fiber", label: "Fibres", unit: "g" },
+];
+
+const PERIODS = [7, 14, 30];
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+// Format AAAA-MM-JJ attendu par l'API
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(
+    2,
+    "0"
+  )}-${String(date.getDate()).padStart(2, "0")}`;
+
+const formatDay = (key: string) =>
+  new Date(`${key}T00:00:00`).toLocaleDateString("fr-FR", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+  });
+
+export function JournalPage() {
+  const queryClient = useQueryClient();
+  const today = toDateKey(new Date());
+
+  const [period, setPeriod] = useState(7);
+  const [nutrient, setNutrient] = useState<Nutrient>("calories");
+  const [selectedDay, setSelectedDay] = useState(today);
+  const [entryType, setEntryType] = useState<"recipe" | "ingredient">("recipe");
+  const [entryForm, setEntryForm] = useState({
+    recipeId: "",
+    servings: 1,
+    ingredientId: "",
+    quantity: 100,
+    unit: "g",
+  });
+  const [goalsForm, setGoalsForm] = useState<Record<Nutrient, string>>({
+    calories: "",
+    protein: "",
+    carbs: "",
+    fat: "",
+    fiber: "",
+  });
+
+  const from = toDateKey(addDays(new Date(), -(period - 1)));
+
+  const { data: journal, isLoading } = useQuery({
+    queryKey: ["journal", from, today],
+    queryFn: () => journalService.getJournal({ from, to: today }),
+  });
+
+  const { data: recipes = [] } = useQuery({
+    queryKey: ["recipes", "journal"],
+    queryFn: () => recipeService.getRecipes(),
+    enabled: entryType === "recipe",
+  });
+
+  const { data: ingredients = [] } = useQuery({
+    queryKey: ["availableIngredients"],
+    queryFn: () => fridgeService.getIngredients(),
+    enabled: entryType === "ingredient",
+    staleTime: 1000 * 60 * 5,
+  });
+
+  // Pré-remplit le formulaire d'objectifs avec les valeurs enregistrées
+  useEffect(() => {
+    if (journal?.goals) {
+      setGoalsForm({
+        calories: journal.goals.calories?.toString() ?? "",
+        protein: journal.goals.protein?.toString() ?? "",
+        carbs: journal.goals.carbs?.toString() ?? "",
+        fat: journal.goals.fat?.toString() ?? "",
+        fiber: journal.goals.fiber?.toString() ?? "",
+      });
+    }
+  }, [journal?.goals]);
+
+  const invalidateJournal = () =>
+    queryClient.invalidateQueries({ queryKey: ["journal"] });
+
+  const addEntryMutation = useMutation({
+    mutationFn: () =>
+      journalService.addEntry(
+        entryType === "recipe"
+          ? {
+              date: selectedDay,
+              recipeId: entryForm.recipeId,
+              servings: entryForm.servings,
+            }
+          : {
+              date: selectedDay,
+              ingredientId: entryForm.ingredientId,
+              quantity: entryForm.quantity,
+              unit: entryForm.unit,
+            }
+      ),
+    onSuccess: () => {
+      invalidateJournal();
+      toast.success("Ajouté au journal !");
+    },
+    onError: (error: any) => {
+      toast.error(error?.message || "Erreur lors de l'ajout au journal");
+    },
+  });
+
+  const deleteEntryMutation = useMutation({
+    mutationFn: journalService.deleteEntry,
+    onSuccess: invalidateJournal,
+    onError: (error: any) => {
+      toast.error(error?.message || "Erreur lors de la suppression");
+    },
+  });
+
+  const updateGoalsMutation = useMutation({
+    mutationFn: (goals: Partial<NutritionGoals>) =>
+      journalService.updateGoals(goals),
+    onSuccess: () => {
+      invalidateJournal();
+      toast.success("Objectifs enregistrés !");
+    },
+    onError: (error: any) => {
+      toast.error(error?.message || "Erreur lors de l'enregistrement");
+    },
+  });
+
+  const handleSaveGoals = () => {
+    const goals = {} as NutritionGoals;
+    NUTRIENTS.forEach(({ value }) => {
+      const raw = goalsForm[value].trim();
+      goals[value] = raw ? Number(raw) : null;
+    });
+    updateGoalsMutation.mutate(goals);
+  };
+
+  const canAddEntry =
+    entryType === "recipe"
+      ? !!entryForm.recipeId && entryForm.servings > 0
+      : !!entryForm.ingredientId &&
+        entryForm.quantity > 0 &&
+        !!entryForm.unit.trim();
+
+  const days = journal?.days ?? [];
+  const goal = journal?.goals[nutrient] ?? null;
+  const nutrientInfo = NUTRIENTS.find(({ value }) => value === nutrient)!;
+  const chartMax = Math.max(
+    goal ?? 0,
+    ...days.map((day) => day.totals[nutrient]),
+    1
+  );
+  const selected = days.find((day) => day.date === selectedDay);
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Journal 📊</h1>
+        <p className="text-gray-600">
+          Suivez ce que vous mangez au quotidien et vos objectifs
+        </p>
+      </div>
+
+      {/* Graphique */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <CardTitle className="flex items-center space-x-2">
+              <BarChart3 className="w-5 h-5" />
+              <span>{nutrientInfo.label} par jour</span>
+            </CardTitle>
+            <div className="flex flex-wrap gap-2">
+              <select
+                value={nutrient}
+                onChange={(e) => setNutrient(e.target.value as Nutrient)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              >
+                {NUTRIENTS.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {PERIODS.map((days) => (
+                <Button
+                  key={days}
+                  size="sm"
+                  variant={period === days ? "primary" : "outline"}
+                  onClick={() => setPeriod(days)}
+                >
+                  {days} jours
+                </Button>
+              ))}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          ) : (
+            <div className="relative h-56 flex items-end gap-1 border-b border-gray-200">
+              {goal !== null && (
+                <div
+                  className="absolute left-0 right-0 border-t-2 border-dashed border-primary-400"
+                  style={{ bottom: `${(goal / chartMax) * 100}%` }}
+                  title={`Objectif : ${goal} ${nutrientInfo.unit}`}
+                />
+              )}
+              {days.map((day) => {
+                const value = day.totals[nutrient];
+                return (
+                  <button
+                    key={day.date}
+                    type="button"
+                    onClick={() => setSelectedDay(day.date)}
+                    className="flex-1 h-full flex flex-col justify-end group"
+                    title={`${formatDay(day.date)} : ${value} ${
+                      nutrientInfo.unit
+                    }`}
+                  >
+                    <div
+                      className={`w-full rounded-t transition-colors ${
+                        day.date === selectedDay
+                          ? "bg-primary-600"
+                          : goal !== null && value > goal
+                          ? "bg-orange-400 group-hover:bg-orange-500"
+                          : "bg-primary-300 group-hover:bg-primary-400"
+                      }`}
+                      style={{ height: `${(value / chartMax) * 100}%` }}
+                    />
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          {days.length > 0 && (
+            <div className="flex justify-between mt-2 text-xs text-gray-500">
+              <span>{formatDay(days[0].date)}</span>
+              <span>{formatDay(days[days.length - 1].date)}</span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Détail du jour */}
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="capitalize">
+                {formatDay(selectedDay)}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {selected && (
+                <div className="grid grid-cols-5 gap-2 text-center text-sm">
+                  {NUTRIENTS.map(({ value, label, unit }) => {
+                    const dayGoal = journal?.goals[value];
+                    return (
+                      <div key={value} className="bg-gray-50 p-2 rounded-lg">
+                        <div className="font-semibold text-gray-900">
+                          {selected.totals[value]} {unit}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {label}
+                          {dayGoal != null && ` / ${dayGoal}`}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {selected && !selected.complete && (
+                <div className="flex items-center space-x-2 text-xs text-orange-600">
+                  <AlertTriangle className="w-4 h-4" />
+                  <span>
+                    Certaines entrées n'ont pas de données nutritionnelles
+                    complètes : totaux sous-estimés.
+                  </span>
+                </div>
+              )}
+
+              {selected?.entries.length ? (
+                <ul className="divide-y divide-gray-100">
+                  {selected.entries.map((entry) => (
+                    <li
+                      key={entry.id}
+                      className="flex items-center justify-between py-2"
+                    >
+                      <div>
+                        <div className="font-medium text-gray-900">
+                          {entry.label}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {entry.servings != null
+                            ? `${entry.servings} portion${
+                                entry.servings > 1 ? "s" : ""
+                              }`
+                            : `${entry.quantity} ${entry.unit}`}{" "}
+                          · {Math.round(entry.calories)} kcal
+                          {entry.coverage < 100 &&
+                            ` · données ${entry.coverage} %`}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => deleteEntryMutation.mutate(entry.id)}
+                        className="p-2 text-gray-400 hover:text-red-500"
+                        title="Retirer du journal"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  Rien de noté pour ce jour.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Ajout d'une consommation */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Plus className="w-5 h-5" />
+                <span>Noter une consommation</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant={entryType === "recipe" ? "primary" : "outline"}
+                  onClick={() => setEntryType("recipe")}
+                >
+                  Recette
+                </Button>
+                <Button
+                  size="sm"
+                  variant={entryType === "ingredient" ? "primary" : "outline"}
+                  onClick={() => setEntryType("ingredient")}
+                >
+                  Ingrédient
+                </Button>
+              </div>
+
+              <Input
+                label="Jour"
+                type="date"
+                max={today}
+                value={selectedDay}
+                onChange={(e) =>
+                  e.target.value && setSelectedDay(e.target.value)
+                }
+              />
+
+              {entryType === "recipe" ? (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Recette
+                    </label>
+                    <select
+                      value={entryForm.recipeId}
+                      onChange={(e) =>
+                        setEntryForm({ ...entryForm, recipeId: e.target.value })
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    >
+                      <option value="">Choisir une recette</option>
+                      {recipes.map((recipe) => (
+                        <option key={recipe.id} value={recipe.id}>
+                          {recipe.title}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <Input
+                    label="Portions"
+                    type="number"
+                    min="0.5"
+                    step="0.5"
+                    value={entryForm.servings}
+                    onChange={(e) =>
+                      setEntryForm({
+                        ...entryForm,
+                        servings: Number(e.target.value),
+                      })
+                    }
+                  />
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Ingrédient
+                    </label>
+                    <select
+                      value={entryForm.ingredientId}
+                      onChange={(e) =>
+                        setEntryForm({
+                          ...entryForm,
+                          ingredientId: e.target.value,
+                        })
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    >
+                      <option value="">Choisir un ingrédient</option>
+                      {ingredients.map((ingredient) => (
+                        <option key={ingredient.id} value={ingredient.id}>
+                          {ingredient.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <Input
+                    label="Quantité"
+                    type="number"
+                    min="0"
+                    value={entryForm.quantity}
+                    onChange={(e) =>
+                      setEntryForm({
+                        ...entryForm,
+                        quantity: Number(e.target.value),
+                      })
+                    }
+                  />
+                  <Input
+                    label="Unité"
+                    value={entryForm.unit}
+                    onChange={(e) =>
+                      setEntryForm({ ...entryForm, unit: e.target.value })
+                    }
+                  />
+                </div>
+              )}
+
+              <Button
+                onClick={() => addEntryMutation.mutate()}
+                disabled={!canAddEntry}
+                loading={addEntryMutation.isPending}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Ajouter au journal
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Objectifs */}
+        <div>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Target className="w-5 h-5" />
+                <span>Objectifs quotidiens</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {NUTRIENTS.map(({ value, label, unit }) => (
+                <Input
+                  key={value}
+                  label={`${label} (${unit})`}
+                  type="number"
+                  min="0"
+                  placeholder="Aucun objectif"
+                  value={goalsForm[value]}
+                  onChange={(e) =>
+                    setGoalsForm({ ...goalsForm, [value]: e.target.value })
+                  }
+                />
+              ))}
+              <Button
+                className="w-full"
+                onClick={handleSaveGoals}
+                loading={updateGoalsMutation.isPending}
+              >
+                Enregistrer
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,449 @@
+import { useState, DragEvent } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import toast from "react-hot-toast";
+import {
+  ChevronLeft,
+  ChevronRight,
+  CalendarDays,
+  ChefHat,
+  Search,
+  X,
+  Minus,
+  Plus,
+  GripVertical,
+  ShoppingCart,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/Button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { mealPlanService } from "@/services/mealPlanService";
+import { recipeService } from "@/services/recipeService";
+import type { MealPlan, MealPlanEntry, MealSlot } from "@/types";
+
+const MEAL_SLOTS: { value: MealSlot; label: string }[] = [
+  { value: "breakfast", label: "Petit-déjeuner" },
+  { value: "lunch", label: "Déjeuner" },
+  { value: "dinner", label: "Dîner" },
+  { value: "snack", label: "Goûter" },
+];
+
+// Charge utile transportée pendant un glisser-déposer
+type DragPayload =
+  | { type: "recipe"; recipeId: string }
+  | { type: "entry"; entryId: string };
+
+const DRAG_FORMAT = "application/json";
+
+// Lundi de la semaine contenant la date (heure locale)
+const getWeekStart = (date: Date) => {
+  const monday = new Date(date);
+  monday.setHours(0, 0, 0, 0);
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return monday;
+};
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+// Format AAAA-MM-JJ attendu par l'API
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(
+    2,
+    "0"
+  )}-${String(date.getDate()).padStart(2, "0")}`;
+
+export function MealPlannerPage() {
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [recipeSearch, setRecipeSearch] = useState("");
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+
+  const weekKey = toDateKey(weekStart);
+  const days = Array.from({ length: 7 }, (_, index) =>
+    addDays(weekStart, index)
+  );
+
+  // Planning de la semaine affichée
+  const { data: mealPlan, isLoading } = useQuery({
+    queryKey: ["mealPlans", weekKey],
+    queryFn: async () => {
+      const plans = await mealPlanService.getMealPlans({
+        from: weekKey,
+        to: weekKey,
+      });
+      return plans[0] ?? null;
+    },
+  });
+
+  // Recettes disponibles à glisser sur le planning
+  const { data: recipes = [] } = useQuery({
+    queryKey: ["recipes", "planner", recipeSearch],
+    queryFn: () => recipeService.getRecipes({ search: recipeSearch }),
+  });
+
+  const invalidatePlan = () =>
+    queryClient.invalidateQueries({ queryKey: ["mealPlans"] });
+
+  // Le planning de la semaine est créé au premier dépôt
+  const ensureMealPlan = async (): Promise<MealPlan> =>
+    mealPlan ?? mealPlanService.createMealPlan({ weekStart: weekKey });
+
+  const addEntryMutation = useMutation({
+    mutationFn: async (entry: {
+      recipeId: string;
+      date: string;
+      slot: MealSlot;
+    }) => {
+      const plan = await ensureMealPlan();
+      return mealPlanService.addEntry(plan.id, entry);
+    },
+    onSuccess: () => {
+      invalidatePlan();
+      toast.success("Recette ajoutée au planning !");
+    },
+    onError: (error: any) => {
+      toast.error(error?.message || "Erreur lors de l'ajout au planning");
+    },
+  });
+
+  const updateEntryMutation = useMutation({
+    mutationFn: ({
+      entry,
+      updates,
+    }: {
+      entry: MealPlanEntry;
+      updates: { date?: string; slot?: MealSlot; servings?: number };
+    }) => mealPlanService.updateEntry(entry.mealPlanId, entry.id, updates),
+    onSuccess: invalidatePlan,
+    onError: (error: any) => {
+      toast.error(error?.message || "Erreur lors de la modification");
+    },
+  });
+
+  const deleteEntryMutation = useMutation({
+    mutationFn: (entry: MealPlanEntry) =>
+      mealPlanService.deleteEntry(entry.mealPlanId, entry.id),
+    onSuccess: invalidatePlan,
+    onError: () => {
+      toast.error("Erreur lors de la suppression");
+    },
+  });
+
+  const entries = mealPlan?.entries ?? [];
+  const getCellEntries = (dateKey: string, slot: MealSlot) =>
+    entries.filter(
+      (entry) => entry.date.slice(0, 10) === dateKey && entry.slot === slot
+    );
+
+  const handleDragStart = (event: DragEvent, payload: DragPayload) => {
+    event.dataTransfer.setData(DRAG_FORMAT, JSON.stringify(payload));
+    event.dataTransfer.effectAllowed =
+      payload.type === "recipe" ? "copy" : "move";
+  };
+
+  const handleDrop = (event: DragEvent, dateKey: string, slot: MealSlot) => {
+    event.preventDefault();
+    setDropTarget(null);
+
+    const raw = event.dataTransfer.getData(DRAG_FORMAT);
+    if (!raw) return;
+
+    const payload = JSON.parse(raw) as DragPayload;
+
+    if (payload.type === "recipe") {
+      addEntryMutation.mutate({
+        recipeId: payload.recipeId,
+        date: dateKey,
+        slot,
+      });
+      return;
+    }
+
+    const entry = entries.find((item) => item.id === payload.entryId);
+    if (!entry) return;
+    if (entry.date.slice(0, 10) === dateKey && entry.slot === slot) return;
+
+    updateEntryMutation.mutate({ entry, updates: { date: dateKey, slot } });
+  };
+
+  const generateShoppingListMutation = useMutation({
+    mutationFn: () =>
+      mealPlanService.generateShoppingList({
+        from: weekKey,
+        to: toDateKey(addDays(weekStart, 6)),
+      }),
+    onSuccess: (result) => {
+      if (result.skippedItems.length) {
+        toast(
+          `Non ajouté(s), stock non comparable : ${result.skippedItems
+            .map((item) => item.name)
+            .join(", ")}`
+        );
+      }
+      if (!result.shoppingList) {
+        toast.success("Tout le nécessaire est déjà dans le frigo !");
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["shoppingLists"] });
+      toast.success(
+        `Liste créée : ${result.shoppingList.items.length} article(s) à acheter`
+      );
+      navigate("/shopping-list");
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.message || "Erreur lors de la création de la liste de courses"
+      );
+    },
+  });
+
+  const changeServings = (entry: MealPlanEntry, delta: number) => {
+    const servings = entry.servings + delta;
+    if (servings < 1) return;
+    updateEntryMutation.mutate({ entry, updates: { servings } });
+  };
+
+  const isCurrentWeek = weekKey === toDateKey(getWeekStart(new Date()));
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">
+            Planning des repas
+          </h1>
+          <p className="text-gray-600">
+            Glissez vos recettes sur les jours de la semaine
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setWeekStart(addDays(weekStart, -7))}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm font-medium text-gray-700 min-w-[12rem] text-center">
+            Semaine du{" "}
+            {weekStart.toLocaleDateString("fr-FR", {
+              day: "numeric",
+              month: "long",
+            })}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setWeekStart(addDays(weekStart, 7))}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          {!isCurrentWeek && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setWeekStart(getWeekStart(new Date()))}
+            >
+              Aujourd'hui
+            </Button>
+          )}
+          <Button
+            size="sm"
+            onClick={() => generateShoppingListMutation.mutate()}
+            loading={generateShoppingListMutation.isPending}
+            disabled={entries.length === 0}
+            className="flex items-center"
+          >
+            <ShoppingCart className="w-4 h-4 mr-2" />
+            Liste de courses
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Recettes à glisser */}
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center">
+              <ChefHat className="w-5 h-5 mr-2" />
+              Recettes
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              <input
+                type="text"
+                placeholder="Rechercher..."
+                value={recipeSearch}
+                onChange={(e) => setRecipeSearch(e.target.value)}
+                className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+            </div>
+            <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+              {recipes.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-4">
+                  Aucune recette trouvée
+                </p>
+              ) : (
+                recipes.map((recipe) => (
+                  <div
+                    key={recipe.id}
+                    draggable
+                    onDragStart={(event) =>
+                      handleDragStart(event, {
+                        type: "recipe",
+                        recipeId: recipe.id,
+                      })
+                    }
+                    className="flex items-center p-2 border border-gray-200 rounded-lg bg-white cursor-grab hover:border-primary-300 hover:bg-primary-50"
+                  >
+                    <GripVertical className="w-4 h-4 mr-2 text-gray-400 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {recipe.title}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {recipe.servings} pers.
+                        {recipe.prepTime
+                          ? ` · ${recipe.prepTime + (recipe.cookTime || 0)} min`
+                          : ""}
+                      </p>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Grille de la semaine */}
+        <Card className="lg:col-span-3 overflow-x-auto">
+          <CardContent className="p-4">
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-[7rem_repeat(7,minmax(7rem,1fr))] gap-2 min-w-[56rem]">
+                <div />
+                {days.map((day) => (
+                  <div
+                    key={toDateKey(day)}
+                    className={`text-center text-sm font-medium py-2 rounded-md ${
+                      toDateKey(day) === toDateKey(new Date())
+                        ? "bg-primary-50 text-primary-700"
+                        : "text-gray-700"
+                    }`}
+                  >
+                    <div className="capitalize">
+                      {day.toLocaleDateString("fr-FR", { weekday: "short" })}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {day.toLocaleDateString("fr-FR", {
+                        day: "numeric",
+                        month: "short",
+                      })}
+                    </div>
+                  </div>
+                ))}
+
+                {MEAL_SLOTS.map((slot) => (
+                  <div key={slot.value} className="contents">
+                    <div className="flex items-center text-sm font-medium text-gray-600">
+                      {slot.label}
+                    </div>
+                    {days.map((day) => {
+                      const dateKey = toDateKey(day);
+                      const cellKey = `${dateKey}-${slot.value}`;
+                      return (
+                        <div
+                          key={cellKey}
+                          onDragOver={(event) => {
+                            event.preventDefault();
+                            setDropTarget(cellKey);
+                          }}
+                          onDragLeave={() => setDropTarget(null)}
+                          onDrop={(event) =>
+                            handleDrop(event, dateKey, slot.value)
+                          }
+                          className={`min-h-[5rem] p-1 space-y-1 rounded-lg border border-dashed transition-colors ${
+                            dropTarget === cellKey
+                              ? "border-primary-400 bg-primary-50"
+                              : "border-gray-200 bg-gray-50"
+                          }`}
+                        >
+                          {getCellEntries(dateKey, slot.value).map((entry) => (
+                            <div
+                              key={entry.id}
+                              draggable
+                              onDragStart={(event) =>
+                                handleDragStart(event, {
+                                  type: "entry",
+                                  entryId: entry.id,
+                                })
+                              }
+                              className="p-1.5 bg-white border border-gray-200 rounded-md shadow-sm cursor-grab text-xs"
+                            >
+                              <div className="flex items-start justify-between gap-1">
+                                <span className="font-medium text-gray-900 line-clamp-2">
+                                  {entry.recipe.title}
+                                </span>
+                                <button
+                                  onClick={() =>
+                                    deleteEntryMutation.mutate(entry)
+                                  }
+                                  className="text-gray-400 hover:text-red-600"
+                                  aria-label="Retirer du planning"
+                                >
+                                  <X className="w-3 h-3" />
+                                </button>
+                              </div>
+                              <div className="flex items-center mt-1 text-gray-500">
+                                <button
+                                  onClick={() => changeServings(entry, -1)}
+                                  className="hover:text-primary-600"
+                                  aria-label="Retirer une portion"
+                                >
+                                  <Minus className="w-3 h-3" />
+                                </button>
+                                <span className="mx-1">
+                                  {entry.servings} pers.
+                                </span>
+                                <button
+                                  onClick={() => changeServings(entry, 1)}
+                                  className="hover:text-primary-600"
+                                  aria-label="Ajouter une portion"
+                                >
+                                  <Plus className="w-3 h-3" />
+                                </button>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {!isLoading && entries.length === 0 && (
+              <p className="mt-4 text-sm text-gray-500 text-center flex items-center justify-center">
+                <CalendarDays className="w-4 h-4 mr-2" />
+                Aucun repas prévu cette semaine
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -12,6 +13,9 @@ import {
   X,
   Shield,
   Activity,
+  AlertTriangle,
+  Download,
+  Upload,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/Button";
@@ -19,6 +23,8 @@ import { Input } from "@/components/ui/Input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
 import { useAuth } from "@/hooks/useAuth";
 import { userService } from "@/services/userService";
+import { fridgeService } from "@/services/fridgeService";
+import type { AccountImportReport, ArchiveSection } from "@/types";
 
 // Schéma de validation
 const profileSchema = z.object({
@@ -31,14 +37,37 @@ const profileSchema = z.object({
     .max(255, "La clé ne doit pas dépasser 255 caractères")
     .optional()
     .nullable(),
+  expiryAlertDays: z
+    .number({ invalid_type_error: "La fenêtre d'alerte doit être un nombre" })
+    .int("La fenêtre d'alerte doit être un nombre entier")
+    .min(0, "La fenêtre d'alerte ne peut pas être négative")
+    .max(30, "La fenêtre d'alerte ne peut pas dépasser 30 jours"),
+  allergens: z.array(z.string()),
+  dietaryProfiles: z.array(z.string()),
+  // Saisie libre séparée par des virgules
+  dietExclusions: z.string().max(500, "Liste d'exclusions trop longue"),
 });
 
 type ProfileForm = z.infer<typeof profileSchema>;
 
+const ARCHIVE_SECTION_LABELS: Record<ArchiveSection, string> = {
+  fridgeItems: "Lots du frigo",
+  recipes: "Recettes",
+  favorites: "Favoris",
+  shoppingLists: "Listes de courses",
+};
+
 export function ProfilePage() {
   const { user, setUser } = useAuth();
   const [isEditing, setIsEditing] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importReport, setImportReport] = useState<AccountImportReport | null>(
+    null
+  );
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+  const queryClient = useQueryClient();
 
   const maskGeminiKey = (value?: string | null) => {
     if (!value) return null;
@@ -48,6 +77,63 @@ export function ProfilePage() {
     return `${value.slice(0, 4)}••••${value.slice(-4)}`;
   };
 
+  const { data: allergenOptions = [] } = useQuery({
+    queryKey: ["allergens"],
+    queryFn: fridgeService.getAllergens,
+    staleTime: Infinity,
+  });
+
+  const { data: dietOptions = [] } = useQuery({
+    queryKey: ["dietaryProfiles"],
+    queryFn: userService.getDietaryProfiles,
+    staleTime: Infinity,
+  });
+
+  const handleExportData = async () => {
+    setIsExporting(true);
+    try {
+      const { blob, filename } = await userService.exportAccount();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error("Erreur lors de l'export de vos données");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Restaure une archive exportée, puis recharge le profil et les données
+  const handleImportData = async (file: File) => {
+    setIsImporting(true);
+    try {
+      let archive: unknown;
+      try {
+        archive = JSON.parse(await file.text());
+      } catch {
+        toast.error("Ce fichier n'est pas une archive valide");
+        return;
+      }
+
+      const report = await userService.importAccount(archive);
+      setImportReport(report);
+      setUser(await userService.getProfile());
+      queryClient.invalidateQueries();
+      toast.success("Données importées");
+    } catch (error: any) {
+      toast.error(error?.message || "Erreur lors de l'import de vos données");
+    } finally {
+      setIsImporting(false);
+      if (archiveInputRef.current) archiveInputRef.current.value = "";
+    }
+  };
+
+  const allergenLabel = (code: string) =>
+    allergenOptions.find((allergen) => allergen.code === code)?.label ?? code;
+
   // Formulaire
   const form = useForm<ProfileForm>({
     resolver: zodResolver(profileSchema),
@@ -56,6 +142,10 @@ export function ProfilePage() {
       lastName: user?.lastName || "",
       email: user?.email || "",
       geminiApiKey: user?.geminiApiKey || "",
+      expiryAlertDays: user?.expiryAlertDays ?? 3,
+      allergens: user?.allergens ?? [],
+      dietaryProfiles: user?.dietaryProfiles ?? [],
+      dietExclusions: user?.dietExclusions?.join(", ") ?? "",
     },
   });
 
@@ -66,6 +156,10 @@ export function ProfilePage() {
         lastName: user.lastName,
         email: user.email,
         geminiApiKey: user.geminiApiKey || "",
+        expiryAlertDays: user.expiryAlertDays ?? 3,
+        allergens: user.allergens ?? [],
+        dietaryProfiles: user.dietaryProfiles ?? [],
+        dietExclusions: user.dietExclusions?.join(", ") ?? "",
       });
     }
   }, [user, form]);
@@ -79,6 +173,10 @@ export function ProfilePage() {
         geminiApiKey: data.geminiApiKey?.trim()
           ? data.geminiApiKey.trim()
           : null,
+        dietExclusions: data.dietExclusions
+          .split(",")
+          .map((value) => value.trim())
+          .filter(Boolean),
       };
 
       const updatedUser = await userService.updateProfile(payload);
@@ -98,6 +196,10 @@ export function ProfilePage() {
       lastName: user?.lastName || "",
       email: user?.email || "",
       geminiApiKey: user?.geminiApiKey || "",
+      expiryAlertDays: user?.expiryAlertDays ?? 3,
+      allergens: user?.allergens ?? [],
+      dietaryProfiles: user?.dietaryProfiles ?? [],
+      dietExclusions: user?.dietExclusions?.join(", ") ?? "",
     });
     setIsEditing(false);
   };
@@ -194,6 +296,71 @@ export function ProfilePage() {
                     error={form.formState.errors.geminiApiKey?.message || undefined}
                     {...form.register("geminiApiKey")}
                   />
+
+                  <Input
+                    label="Alertes de péremption (jours)"
+                    type="number"
+                    min="0"
+                    max="30"
+                    helper="Vous serez prévenu lorsque un produit expire dans ce délai."
+                    error={form.formState.errors.expiryAlertDays?.message}
+                    {...form.register("expiryAlertDays", { valueAsNumber: true })}
+                  />
+
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">
+                      Allergies
+                    </label>
+                    <p className="text-sm text-gray-500 mt-1">
+                      Les recettes qui en contiennent seront signalées et exclues des suggestions.
+                    </p>
+                    <div className="mt-2 grid grid-cols-2 md:grid-cols-3 gap-2">
+                      {allergenOptions.map((allergen) => (
+                        <label
+                          key={allergen.code}
+                          className="flex items-center space-x-2 text-sm text-gray-700"
+                        >
+                          <input
+                            type="checkbox"
+                            value={allergen.code}
+                            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                            {...form.register("allergens")}
+                          />
+                          <span>{allergen.label}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">
+                      Régimes alimentaires
+                    </label>
+                    <div className="mt-2 grid grid-cols-2 md:grid-cols-3 gap-2">
+                      {dietOptions.map((diet) => (
+                        <label
+                          key={diet.code}
+                          className="flex items-center space-x-2 text-sm text-gray-700"
+                        >
+                          <input
+                            type="checkbox"
+                            value={diet.code}
+                            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                            {...form.register("dietaryProfiles")}
+                          />
+                          <span>{diet.label}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  <Input
+                    label="Ingrédients à éviter"
+                    placeholder="coriandre, champignon"
+                    helper="Séparez les ingrédients par des virgules."
+                    error={form.formState.errors.dietExclusions?.message}
+                    {...form.register("dietExclusions")}
+                  />
                 </form>
               ) : (
                 <div className="space-y-6">
@@ -237,6 +404,60 @@ export function ProfilePage() {
                     </p>
                   </div>
 
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">
+                      Alertes de péremption
+                    </label>
+                    <p className="mt-1 text-lg text-gray-900">
+                      {user.expiryAlertDays ?? 3} jour(s) avant la date limite
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">
+                      Allergies
+                    </label>
+                    {user.allergens?.length ? (
+                      <div className="mt-2 flex flex-wrap gap-2">
+                        {user.allergens.map((code) => (
+                          <span
+                            key={code}
+                            className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-700"
+                          >
+                            <AlertTriangle className="w-3 h-3 mr-1" />
+                            {allergenLabel(code)}
+                          </span>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="mt-1 text-lg text-gray-900">
+                        Aucune allergie renseignée
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">
+                      Régimes alimentaires
+                    </label>
+                    <p className="mt-1 text-lg text-gray-900">
+                      {user.dietaryProfiles?.length
+                        ? user.dietaryProfiles
+                            .map(
+                              (code) =>
+                                dietOptions.find((diet) => diet.code === code)
+                                  ?.label ?? code
+                            )
+                            .join(", ")
+                        : "Aucun régime particulier"}
+                    </p>
+                    {!!user.dietExclusions?.length && (
+                      <p className="text-sm text-gray-500 mt-1">
+                        À éviter : {user.dietExclusions.join(", ")}
+                      </p>
+                    )}
+                  </div>
+
                   <div>
                     <label className="text-sm font-medium text-gray-700">
                       Membre depuis
@@ -318,9 +539,86 @@ export function ProfilePage() {
                 <Button variant="outline" size="sm" className="w-full">
                   Changer le mot de passe
                 </Button>
-                <Button variant="outline" size="sm" className="w-full">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  loading={isExporting}
+                  onClick={handleExportData}
+                >
+                  <Download className="w-4 h-4 mr-2" />
                   Télécharger mes données
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  loading={isImporting}
+                  onClick={() => archiveInputRef.current?.click()}
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  Importer mes données
+                </Button>
+                <input
+                  ref={archiveInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(event) => {
+                    const file = event.target.files?.[0];
+                    if (file) handleImportData(file);
+                  }}
+                />
+                {importReport && (
+                  <div className="rounded-lg bg-gray-50 p-3 text-sm space-y-2">
+                    <p className="font-medium text-gray-900">
+                      Bilan de l'import
+                    </p>
+                    <ul className="space-y-1 text-gray-600">
+                      {(
+                        Object.keys(ARCHIVE_SECTION_LABELS) as ArchiveSection[]
+                      ).map((section) => (
+                        <li key={section} className="flex justify-between">
+                          <span>{ARCHIVE_SECTION_LABELS[section]}</span>
+                          <span className="font-medium">
+                            {importReport.imported[section]}
+                          </span>
+                        </li>
+                      ))}
+                      <li className="flex justify-between">
+                        <span>Nouveaux ingrédients</span>
+                        <span className="font-medium">
+                          {importReport.ingredientsCreated}
+                        </span>
+                      </li>
+                    </ul>
+                    {importReport.preferencesUpdated.length > 0 && (
+                      <p className="text-gray-600">
+                        Préférences restaurées :{" "}
+                        {importReport.preferencesUpdated.length}
+                      </p>
+                    )}
+                    {importReport.conflicts.length > 0 && (
+                      <div>
+                        <p className="flex items-center text-orange-700 font-medium">
+                          <AlertTriangle className="w-4 h-4 mr-1" />
+                          {importReport.conflicts.length} élément(s) ignoré(s)
+                        </p>
+                        <ul className="mt-1 space-y-1 text-xs text-gray-600">
+                          {importReport.conflicts.map((conflict, index) => (
+                            <li key={index}>
+                              <span className="font-medium">
+                                {ARCHIVE_SECTION_LABELS[conflict.section]} ·{" "}
+                                {conflict.name}
+                              </span>{" "}
+                              — {conflict.message}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                )}
                 <Button variant="danger" size="sm" className="w-full">
                   Supprimer mon compte
                 </Button>
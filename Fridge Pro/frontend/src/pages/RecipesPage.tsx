@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm, useFieldArray } from "react-hook-form";
 import { z } from "zod";
@@ -12,6 +12,13 @@ import {
   Plus,
   Sparkles,
   Trash2,
+  UtensilsCrossed,
+  ShoppingCart,
+  AlertTriangle,
+  Pencil,
+  Download,
+  ExternalLink,
+  Minus,
 } from "lucide-react";
 import toast from "react-hot-toast";
 
@@ -20,7 +27,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
 import { Modal } from "@/components/ui/Modal";
 import { recipeService } from "@/services/recipeService";
 import { fridgeService } from "@/services/fridgeService";
-import type { Recipe } from "@/types";
+import { shoppingListService } from "@/services/shoppingListService";
+import { userService } from "@/services/userService";
+import type {
+  ImportedIngredientLine,
+  IngredientMatchConfidence,
+  Recipe,
+  RecipeExportFormat,
+  RecipeImportDraft,
+} from "@/types";
 import { useAuthStore } from "@/stores/authStore";
 
 const generateRecipeSchema = z.object({
@@ -84,6 +99,45 @@ const createRecipeSchema = z.object({
     .min(1, "Ajoutez au moins une étape"),
 });
 
+type RecipeFormValues = z.infer<typeof createRecipeSchema>;
+
+const toRecipePayload = (values: RecipeFormValues) => ({
+  title: values.title.trim(),
+  description: values.description?.trim() || undefined,
+  instructions: values.instructions.map((step) => step.text.trim()),
+  prepTime: values.prepTime ?? undefined,
+  cookTime: values.cookTime ?? undefined,
+  servings: values.servings,
+  difficulty: values.difficulty,
+  ingredients: values.ingredients.map((ingredient) => ({
+    ingredientId: ingredient.ingredientId,
+    quantity: ingredient.quantity,
+    unit: ingredient.unit.trim(),
+    notes: ingredient.notes?.trim() || undefined,
+  })),
+});
+
+// Brouillon d'import en cours de relecture (champs modifiables par l'utilisateur)
+interface ImportReview extends Omit<RecipeImportDraft, "servings"> {
+  servings: number;
+  difficulty: Recipe["difficulty"];
+}
+
+const EXPORT_FORMATS: { format: RecipeExportFormat; label: string }[] = [
+  { format: "pdf", label: "PDF" },
+  { format: "markdown", label: "Markdown" },
+  { format: "jsonld", label: "JSON-LD" },
+];
+
+const MATCH_BADGES: Record<
+  IngredientMatchConfidence,
+  { label: string; className: string }
+> = {
+  exact: { label: "Reconnu", className: "bg-green-100 text-green-800" },
+  partial: { label: "À vérifier", className: "bg-yellow-100 text-yellow-800" },
+  none: { label: "Nouvel ingrédient", className: "bg-gray-100 text-gray-700" },
+};
+
 export function RecipesPage() {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedDifficulty, setSelectedDifficulty] = useState<string>("");
@@ -91,9 +145,25 @@ export function RecipesPage() {
   const [showOnlyFavorites, setShowOnlyFavorites] = useState(false);
   const [showOnlyAI, setShowOnlyAI] = useState(false);
   const [showOnlyMyRecipes, setShowOnlyMyRecipes] = useState(false);
+  const [hideAllergenRecipes, setHideAllergenRecipes] = useState(false);
+  const [showOnlyDietCompliant, setShowOnlyDietCompliant] = useState(false);
   const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null);
+  const [detailServings, setDetailServings] = useState(1);
   const [isGenerateModalOpen, setIsGenerateModalOpen] = useState(false);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [editingRecipeId, setEditingRecipeId] = useState<string | null>(null);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [importMode, setImportMode] = useState<"url" | "html">("url");
+  const [importUrl, setImportUrl] = useState("");
+  const [importHtml, setImportHtml] = useState("");
+  const [importReview, setImportReview] = useState<ImportReview | null>(null);
+  const [isCookPreviewOpen, setIsCookPreviewOpen] = useState(false);
+  const [cookServings, setCookServings] = useState(1);
+  const [journalServings, setJournalServings] = useState(1); // 0 = ne rien noter
+  const [isShoppingPanelOpen, setIsShoppingPanelOpen] = useState(false);
+  const [shoppingServings, setShoppingServings] = useState(1);
+  // Liste cible des ingrédients manquants ("" = nouvelle liste)
+  const [targetListId, setTargetListId] = useState("");
   const queryClient = useQueryClient();
   const currentUser = useAuthStore((state) => state.user);
 
@@ -112,7 +182,7 @@ export function RecipesPage() {
     formState: { errors: generateErrors },
   } = generateRecipeForm;
 
-  const createRecipeForm = useForm<z.infer<typeof createRecipeSchema>>({
+  const createRecipeForm = useForm<RecipeFormValues>({
     resolver: zodResolver(createRecipeSchema),
     defaultValues: {
       title: "",
@@ -167,10 +237,40 @@ export function RecipesPage() {
     useQuery({
       queryKey: ["availableIngredients"],
       queryFn: () => fridgeService.getIngredients(),
-      enabled: isCreateModalOpen,
+      enabled: isCreateModalOpen || !!importReview,
       staleTime: 1000 * 60 * 5,
     });
 
+  const { data: allergenOptions = [] } = useQuery({
+    queryKey: ["allergens"],
+    queryFn: fridgeService.getAllergens,
+    staleTime: Infinity,
+  });
+
+  const allergenLabels = (codes: string[] = []) =>
+    codes
+      .map(
+        (code) =>
+          allergenOptions.find((allergen) => allergen.code === code)?.label ??
+          code
+      )
+      .join(", ");
+
+  const { data: dietOptions = [] } = useQuery({
+    queryKey: ["dietaryProfiles"],
+    queryFn: userService.getDietaryProfiles,
+    staleTime: Infinity,
+  });
+
+  const dietReasonLabel = (reason: string) =>
+    reason === "exclusion"
+      ? "ingrédient exclu"
+      : dietOptions.find((diet) => diet.code === reason)?.label ?? reason;
+
+  const hasDietPreferences =
+    !!currentUser?.dietaryProfiles?.length ||
+    !!currentUser?.dietExclusions?.length;
+
   // Récupérer les recettes avec filtres
   const { data: recipes = [], isLoading } = useQuery({
     queryKey: [
@@ -180,6 +280,8 @@ export function RecipesPage() {
         difficulty: selectedDifficulty,
         canMake: showOnlyMakeable,
         favorites: showOnlyFavorites,
+        excludeAllergens: hideAllergenRecipes,
+        matchDiet: showOnlyDietCompliant,
       },
     ],
     queryFn: () =>
@@ -188,6 +290,8 @@ export function RecipesPage() {
         difficulty: selectedDifficulty || undefined,
         makeable: showOnlyMakeable || undefined,
         favorites: showOnlyFavorites || undefined,
+        excludeAllergens: hideAllergenRecipes || undefined,
+        matchDiet: showOnlyDietCompliant || undefined,
       }),
   });
 
@@ -244,29 +348,8 @@ export function RecipesPage() {
   });
 
   const createRecipeMutation = useMutation({
-    mutationFn: async (values: z.infer<typeof createRecipeSchema>) => {
-      const formattedInstructions = values.instructions.map((step) =>
-        step.text.trim()
-      );
-
-      const payload = {
-        title: values.title.trim(),
-        description: values.description?.trim() || undefined,
-        instructions: formattedInstructions,
-        prepTime: values.prepTime ?? undefined,
-        cookTime: values.cookTime ?? undefined,
-        servings: values.servings,
-        difficulty: values.difficulty,
-        ingredients: values.ingredients.map((ingredient) => ({
-          ingredientId: ingredient.ingredientId,
-          quantity: ingredient.quantity,
-          unit: ingredient.unit.trim(),
-          notes: ingredient.notes?.trim() || undefined,
-        })),
-      };
-
-      return recipeService.createRecipe(payload);
-    },
+    mutationFn: async (values: RecipeFormValues) =>
+      recipeService.createRecipe(toRecipePayload(values)),
     onSuccess: (recipe) => {
       toast.success("Recette ajoutée !");
       queryClient.invalidateQueries({ queryKey: ["recipes"] });
@@ -281,6 +364,183 @@ export function RecipesPage() {
     },
   });
 
+  const updateRecipeMutation = useMutation({
+    mutationFn: async ({
+      recipeId,
+      values,
+    }: {
+      recipeId: string;
+      values: RecipeFormValues;
+    }) =>
+      recipeService.updateRecipe(recipeId, {
+        ...toRecipePayload(values),
+        // Chaîne vide pour effacer une description existante
+        description: values.description?.trim() ?? "",
+      }),
+    onSuccess: (recipe) => {
+      toast.success("Recette modifiée !");
+      queryClient.invalidateQueries({ queryKey: ["recipes"] });
+      queryClient.invalidateQueries({ queryKey: ["suggestedRecipes"] });
+      queryClient.invalidateQueries({ queryKey: ["favoriteRecipes"] });
+      queryClient.invalidateQueries({ queryKey: ["recipe", recipe.id] });
+      closeRecipeForm();
+      setSelectedRecipe(recipe);
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.message || "Erreur lors de la modification de la recette"
+      );
+    },
+  });
+
+  const closeRecipeForm = () => {
+    setIsCreateModalOpen(false);
+    setEditingRecipeId(null);
+    resetCreateForm();
+  };
+
+  // Ouvre le formulaire de création pré-rempli avec la recette à modifier
+  const openEditRecipe = (recipe: Recipe) => {
+    resetCreateForm({
+      title: recipe.title,
+      description: recipe.description ?? "",
+      prepTime: recipe.prepTime ?? 0,
+      cookTime: recipe.cookTime ?? 0,
+      servings: recipe.servings,
+      difficulty: recipe.difficulty,
+      ingredients: recipe.ingredients.map((ri) => ({
+        ingredientId: ri.ingredientId,
+        quantity: ri.quantity,
+        unit: ri.unit,
+        notes: ri.notes ?? "",
+      })),
+      instructions: recipe.instructions.map((text) => ({ text })),
+    });
+    setEditingRecipeId(recipe.id);
+    setSelectedRecipe(null);
+    setIsCreateModalOpen(true);
+  };
+
+  const closeImportModal = () => {
+    setIsImportModalOpen(false);
+    setImportReview(null);
+    setImportUrl("");
+    setImportHtml("");
+  };
+
+  const analyzeImportMutation = useMutation({
+    mutationFn: () =>
+      recipeService.importRecipe(
+        importMode === "url" ? { url: importUrl.trim() } : { html: importHtml }
+      ),
+    onSuccess: (draft) => {
+      setImportReview({
+        ...draft,
+        servings: draft.servings ?? 4,
+        difficulty: "medium",
+      });
+    },
+    onError: (error: any) => {
+      toast.error(error?.message || "Impossible d'analyser cette recette");
+    },
+  });
+
+  const confirmImportMutation = useMutation({
+    mutationFn: (review: ImportReview) =>
+      recipeService.confirmImport({
+        title: review.title.trim(),
+        description: review.description?.trim() || undefined,
+        instructions: review.instructions
+          .map((step) => step.trim())
+          .filter(Boolean),
+        prepTime: review.prepTime ?? undefined,
+        cookTime: review.cookTime ?? undefined,
+        servings: review.servings,
+        difficulty: review.difficulty,
+        imageUrl: review.imageUrl || undefined,
+        sourceUrl: review.sourceUrl || undefined,
+        ingredients: review.ingredients.map((line) => ({
+          ingredientId: line.ingredientId || undefined,
+          name: line.ingredientId ? undefined : line.name.trim(),
+          quantity: line.quantity ?? 0,
+          unit: line.unit.trim() || "pièce",
+          notes: line.notes?.trim() || undefined,
+        })),
+      }),
+    onSuccess: (recipe) => {
+      toast.success("Recette importée !");
+      queryClient.invalidateQueries({ queryKey: ["recipes"] });
+      queryClient.invalidateQueries({ queryKey: ["suggestedRecipes"] });
+      closeImportModal();
+      setSelectedRecipe(recipe);
+    },
+    onError: (error: any) => {
+      toast.error(error?.message || "Erreur lors de l'import de la recette");
+    },
+  });
+
+  const updateImportLine = (
+    index: number,
+    changes: Partial<ImportedIngredientLine>
+  ) =>
+    setImportReview((review) =>
+      review
+        ? {
+            ...review,
+            ingredients: review.ingredients.map((line, lineIndex) =>
+              lineIndex === index ? { ...line, ...changes } : line
+            ),
+          }
+        : review
+    );
+
+  const handleConfirmImport = () => {
+    if (!importReview) return;
+
+    if (importReview.title.trim().length < 3) {
+      toast.error("Le titre doit contenir au moins 3 caractères");
+      return;
+    }
+    if (importReview.ingredients.length === 0) {
+      toast.error("Ajoutez au moins un ingrédient");
+      return;
+    }
+    if (importReview.ingredients.some((line) => !line.quantity)) {
+      toast.error("Indiquez une quantité pour chaque ingrédient");
+      return;
+    }
+    if (!importReview.instructions.some((step) => step.trim())) {
+      toast.error("Ajoutez au moins une étape");
+      return;
+    }
+
+    confirmImportMutation.mutate(importReview);
+  };
+
+  const exportRecipeMutation = useMutation({
+    mutationFn: ({
+      recipeId,
+      format,
+    }: {
+      recipeId: string;
+      format: RecipeExportFormat;
+    }) => recipeService.exportRecipe(recipeId, format),
+    onSuccess: ({ blob, filename }) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: () => {
+      toast.error("Erreur lors de l'export de la recette");
+    },
+  });
+
+  const isSavingRecipe =
+    createRecipeMutation.isPending || updateRecipeMutation.isPending;
+
   const deleteRecipeMutation = useMutation({
     mutationFn: async (recipeId: string) =>
       recipeService.deleteRecipe(recipeId),
@@ -296,6 +556,116 @@ export function RecipesPage() {
     },
   });
 
+  // Chaque recette ouverte démarre sur son nombre de portions d'origine
+  useEffect(() => {
+    if (selectedRecipe) setDetailServings(selectedRecipe.servings);
+  }, [selectedRecipe?.id]);
+
+  const isScaled =
+    !!selectedRecipe && detailServings !== selectedRecipe.servings;
+
+  // Détail de la recette ouverte (valeurs nutritionnelles, quantités recalculées)
+  const { data: recipeDetail, isLoading: isRecipeDetailLoading } = useQuery({
+    queryKey: ["recipe", selectedRecipe?.id, detailServings],
+    queryFn: () =>
+      recipeService.getRecipe(
+        selectedRecipe!.id,
+        isScaled ? detailServings : undefined
+      ),
+    enabled: !!selectedRecipe,
+    placeholderData: (previous) => previous,
+  });
+  const nutrition = recipeDetail?.nutrition;
+
+  const scaledIngredient = (recipeIngredientId: string) =>
+    isScaled
+      ? recipeDetail?.ingredients.find(
+          (ingredient) => ingredient.id === recipeIngredientId
+        )
+      : undefined;
+
+  // Aperçu de ce que la recette va consommer dans le frigo
+  const { data: cookPreview, isFetching: isCookPreviewLoading } = useQuery({
+    queryKey: ["cookPreview", selectedRecipe?.id, cookServings],
+    queryFn: () =>
+      recipeService.cookRecipe(selectedRecipe!.id, {
+        servings: cookServings,
+        dryRun: true,
+      }),
+    enabled: isCookPreviewOpen && !!selectedRecipe,
+  });
+
+  const cookRecipeMutation = useMutation({
+    mutationFn: ({
+      recipeId,
+      servings,
+      journalServings,
+    }: {
+      recipeId: string;
+      servings: number;
+      journalServings?: number;
+    }) => recipeService.cookRecipe(recipeId, { servings, journalServings }),
+    onSuccess: (result) => {
+      toast.success(
+        `Frigo mis à jour : ${result.updatedCount} ajusté(s), ${
+          result.removedCount
+        } épuisé(s)${result.journalEntry ? ", repas noté au journal" : ""}`
+      );
+      queryClient.invalidateQueries({ queryKey: ["fridgeItems"] });
+      queryClient.invalidateQueries({ queryKey: ["journal"] });
+      queryClient.invalidateQueries({ queryKey: ["suggestedRecipes"] });
+      queryClient.invalidateQueries({ queryKey: ["recipes"] });
+      setIsCookPreviewOpen(false);
+    },
+    onError: (error: any) => {
+      toast.error(error?.message || "Erreur lors de la mise à jour du frigo");
+    },
+  });
+
+  const { data: shoppingLists = [] } = useQuery({
+    queryKey: ["shoppingLists"],
+    queryFn: () => shoppingListService.getShoppingLists(),
+    enabled: isShoppingPanelOpen,
+  });
+
+  const addMissingMutation = useMutation({
+    mutationFn: ({
+      recipeId,
+      servings,
+      shoppingListId,
+    }: {
+      recipeId: string;
+      servings: number;
+      shoppingListId?: string;
+    }) =>
+      recipeService.addMissingToShoppingList(recipeId, {
+        servings,
+        shoppingListId,
+      }),
+    onSuccess: (result) => {
+      if (!result.shoppingList) {
+        toast.success("Tous les ingrédients sont déjà dans le frigo !");
+      } else {
+        toast.success(
+          `${result.addedCount} ingrédient(s) ajouté(s) à « ${result.shoppingList.name} »`
+        );
+        queryClient.invalidateQueries({ queryKey: ["shoppingLists"] });
+      }
+      setIsShoppingPanelOpen(false);
+    },
+    onError: (error: any) => {
+      toast.error(
+        error?.message || "Erreur lors de l'ajout à la liste de courses"
+      );
+    },
+  });
+
+  const closeRecipeDetail = () => {
+    setSelectedRecipe(null);
+    setIsCookPreviewOpen(false);
+    setIsShoppingPanelOpen(false);
+  };
+
   // Filtrer les recettes côté client pour la recherche instantanée
   const filteredRecipes = recipes.filter((recipe) => {
     const matchesSearch =
@@ -350,12 +720,13 @@ export function RecipesPage() {
     }
   };
 
-  const deletableRecipe =
+  const manageableRecipe =
     selectedRecipe &&
     currentUser &&
     selectedRecipe.createdById === currentUser.id &&
     (selectedRecipe.source === "ai_generated" ||
-      selectedRecipe.source === "user")
+      selectedRecipe.source === "user" ||
+      selectedRecipe.source === "imported")
       ? selectedRecipe
       : null;
 
@@ -371,6 +742,14 @@ export function RecipesPage() {
         </div>
 
         <div className="flex flex-col sm:flex-row gap-3">
+          <Button
+            variant="outline"
+            onClick={() => setIsImportModalOpen(true)}
+            className="flex items-center"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Importer
+          </Button>
           <Button
             variant="outline"
             onClick={() => setIsGenerateModalOpen(true)}
@@ -382,6 +761,7 @@ export function RecipesPage() {
           <Button
             onClick={() => {
               resetCreateForm();
+              setEditingRecipeId(null);
               setIsCreateModalOpen(true);
             }}
             className="flex items-center"
@@ -466,6 +846,34 @@ export function RecipesPage() {
                 Mes recettes
               </span>
             </label>
+
+            {!!currentUser?.allergens?.length && (
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={hideAllergenRecipes}
+                  onChange={(e) => setHideAllergenRecipes(e.target.checked)}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span className="text-sm font-medium text-gray-700">
+                  Masquer les recettes avec mes allergènes
+                </span>
+              </label>
+            )}
+
+            {hasDietPreferences && (
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showOnlyDietCompliant}
+                  onChange={(e) => setShowOnlyDietCompliant(e.target.checked)}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span className="text-sm font-medium text-gray-700">
+                  Compatibles avec mon régime
+                </span>
+              </label>
+            )}
           </div>
 
           {/* Stats */}
@@ -541,6 +949,11 @@ export function RecipesPage() {
                       IA
                     </span>
                   )}
+                  {recipe.source === "imported" && (
+                    <span className="px-2 py-1 rounded-full text-xs font-medium bg-teal-100 text-teal-800">
+                      Importée
+                    </span>
+                  )}
                   {recipe.source === "user" &&
                     recipe.createdById === currentUser?.id && (
                       <span className="px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
@@ -628,6 +1041,22 @@ export function RecipesPage() {
                       "..."}
                   </div>
                 </div>
+
+                {/* Alerte allergènes */}
+                {!!recipe.allergenWarnings?.length && (
+                  <div className="mt-3 flex items-center space-x-1 text-xs font-medium text-red-700">
+                    <AlertTriangle className="w-4 h-4" />
+                    <span>
+                      Contient : {allergenLabels(recipe.allergenWarnings)}
+                    </span>
+                  </div>
+                )}
+
+                {recipe.dietCompliant === false && (
+                  <div className="mt-2 text-xs font-medium text-amber-700">
+                    🥗 Hors régime
+                  </div>
+                )}
               </CardContent>
             </Card>
           ))}
@@ -712,19 +1141,377 @@ export function RecipesPage() {
         </form>
       </Modal>
 
-      {/* Modal création manuelle */}
+      {/* Modal import depuis une page web */}
+      <Modal
+        isOpen={isImportModalOpen}
+        onClose={closeImportModal}
+        title={
+          importReview ? "Vérifier la recette importée" : "Importer une recette"
+        }
+        size="xl"
+      >
+        {!importReview ? (
+          <form
+            onSubmit={(event) => {
+              event.preventDefault();
+              analyzeImportMutation.mutate();
+            }}
+            className="space-y-4"
+          >
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                size="sm"
+                variant={importMode === "url" ? "primary" : "outline"}
+                onClick={() => setImportMode("url")}
+              >
+                Depuis une URL
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant={importMode === "html" ? "primary" : "outline"}
+                onClick={() => setImportMode("html")}
+              >
+                Coller le HTML
+              </Button>
+            </div>
+
+            {importMode === "url" ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Adresse de la recette
+                </label>
+                <input
+                  type="url"
+                  required
+                  value={importUrl}
+                  onChange={(event) => setImportUrl(event.target.value)}
+                  placeholder="https://www.exemple.fr/recettes/quiche-lorraine"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                />
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Code source de la page
+                </label>
+                <textarea
+                  required
+                  rows={8}
+                  value={importHtml}
+                  onChange={(event) => setImportHtml(event.target.value)}
+                  placeholder="<html>...</html>"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                />
+              </div>
+            )}
+
+            <p className="text-sm text-gray-500">
+              La page doit décrire sa recette au format schema.org (c'est le cas
+              de la plupart des sites de cuisine). Rien n'est enregistré avant
+              votre validation.
+            </p>
+
+            <div className="flex justify-end space-x-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={closeImportModal}
+                disabled={analyzeImportMutation.isPending}
+              >
+                Annuler
+              </Button>
+              <Button type="submit" loading={analyzeImportMutation.isPending}>
+                Analyser
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-6 max-h-[80vh] overflow-y-auto pr-1">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Titre *
+                </label>
+                <input
+                  type="text"
+                  value={importReview.title}
+                  onChange={(event) =>
+                    setImportReview({
+                      ...importReview,
+                      title: event.target.value,
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-3 md:col-span-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Personnes
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={importReview.servings}
+                    onChange={(event) =>
+                      setImportReview({
+                        ...importReview,
+                        servings: Math.max(1, Number(event.target.value) || 1),
+                      })
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Préparation (min)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={importReview.prepTime ?? ""}
+                    onChange={(event) =>
+                      setImportReview({
+                        ...importReview,
+                        prepTime:
+                          event.target.value === ""
+                            ? null
+                            : Number(event.target.value),
+                      })
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Cuisson (min)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={importReview.cookTime ?? ""}
+                    onChange={(event) =>
+                      setImportReview({
+                        ...importReview,
+                        cookTime:
+                          event.target.value === ""
+                            ? null
+                            : Number(event.target.value),
+                      })
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Difficulté
+                </label>
+                <select
+                  value={importReview.difficulty}
+                  onChange={(event) =>
+                    setImportReview({
+                      ...importReview,
+                      difficulty: event.target.value as Recipe["difficulty"],
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                >
+                  <option value="easy">Facile</option>
+                  <option value="medium">Moyen</option>
+                  <option value="hard">Difficile</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">
+                Ingrédients
+              </h3>
+              <p className="text-sm text-gray-500 mb-3">
+                Vérifiez l'association de chaque ligne : sans ingrédient
+                sélectionné, un nouvel ingrédient est créé avec le nom indiqué.
+              </p>
+
+              <div className="space-y-3">
+                {importReview.ingredients.map((line, index) => (
+                  <div
+                    key={index}
+                    className="p-3 border border-gray-200 rounded-lg bg-gray-50 space-y-2"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-xs text-gray-500 italic truncate">
+                        {line.raw}
+                      </p>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                            MATCH_BADGES[line.confidence].className
+                          }`}
+                        >
+                          {MATCH_BADGES[line.confidence].label}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setImportReview({
+                              ...importReview,
+                              ingredients: importReview.ingredients.filter(
+                                (_, lineIndex) => lineIndex !== index
+                              ),
+                            })
+                          }
+                          className="text-gray-400 hover:text-red-600"
+                          title="Retirer la ligne"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                      <input
+                        type="number"
+                        step="any"
+                        min={0}
+                        value={line.quantity ?? ""}
+                        placeholder="Quantité"
+                        onChange={(event) =>
+                          updateImportLine(index, {
+                            quantity:
+                              event.target.value === ""
+                                ? null
+                                : Number(event.target.value),
+                          })
+                        }
+                        className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+                          line.quantity ? "border-gray-300" : "border-red-400"
+                        }`}
+                      />
+                      <input
+                        type="text"
+                        value={line.unit}
+                        placeholder="Unité"
+                        onChange={(event) =>
+                          updateImportLine(index, { unit: event.target.value })
+                        }
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      />
+                      <select
+                        value={line.ingredientId ?? ""}
+                        onChange={(event) => {
+                          const ingredient = availableIngredients.find(
+                            (candidate) => candidate.id === event.target.value
+                          );
+                          updateImportLine(index, {
+                            ingredientId: ingredient?.id ?? null,
+                            matchedName: ingredient?.name ?? null,
+                            confidence: ingredient ? "exact" : "none",
+                          });
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent md:col-span-2"
+                      >
+                        <option value="">Créer « {line.name} »</option>
+                        {line.ingredientId &&
+                          !availableIngredients.some(
+                            (ingredient) => ingredient.id === line.ingredientId
+                          ) && (
+                            <option value={line.ingredientId}>
+                              {line.matchedName}
+                            </option>
+                          )}
+                        {availableIngredients.map((ingredient) => (
+                          <option key={ingredient.id} value={ingredient.id}>
+                            {ingredient.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {!line.ingredientId && (
+                      <input
+                        type="text"
+                        value={line.name}
+                        placeholder="Nom du nouvel ingrédient"
+                        onChange={(event) =>
+                          updateImportLine(index, { name: event.target.value })
+                        }
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">
+                Étapes
+              </h3>
+              <div className="space-y-2">
+                {importReview.instructions.map((step, index) => (
+                  <div key={index} className="flex items-start gap-2">
+                    <span className="flex-shrink-0 w-6 h-6 mt-2 bg-primary-600 text-white text-sm font-medium rounded-full flex items-center justify-center">
+                      {index + 1}
+                    </span>
+                    <textarea
+                      rows={2}
+                      value={step}
+                      onChange={(event) =>
+                        setImportReview({
+                          ...importReview,
+                          instructions: importReview.instructions.map(
+                            (current, stepIndex) =>
+                              stepIndex === index ? event.target.value : current
+                          ),
+                        })
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setImportReview(null)}
+                disabled={confirmImportMutation.isPending}
+              >
+                Retour
+              </Button>
+              <Button
+                loading={confirmImportMutation.isPending}
+                onClick={handleConfirmImport}
+              >
+                Enregistrer la recette
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* Modal création / modification manuelle */}
       <Modal
         isOpen={isCreateModalOpen}
-        onClose={() => {
-          setIsCreateModalOpen(false);
-          resetCreateForm();
-        }}
-        title="Créer une recette"
+        onClose={closeRecipeForm}
+        title={editingRecipeId ? "Modifier la recette" : "Créer une recette"}
         size="xl"
       >
         <form
           onSubmit={handleCreateSubmit((values) =>
-            createRecipeMutation.mutate(values)
+            editingRecipeId
+              ? updateRecipeMutation.mutate({
+                  recipeId: editingRecipeId,
+                  values,
+                })
+              : createRecipeMutation.mutate(values)
           )}
           className="space-y-6 max-h-[80vh] overflow-y-auto pr-1"
         >
@@ -1039,16 +1826,13 @@ export function RecipesPage() {
             <Button
               type="button"
               variant="outline"
-              onClick={() => {
-                setIsCreateModalOpen(false);
-                resetCreateForm();
-              }}
-              disabled={createRecipeMutation.isPending}
+              onClick={closeRecipeForm}
+              disabled={isSavingRecipe}
             >
               Annuler
             </Button>
-            <Button type="submit" loading={createRecipeMutation.isPending}>
-              Créer la recette
+            <Button type="submit" loading={isSavingRecipe}>
+              {editingRecipeId ? "Enregistrer" : "Créer la recette"}
             </Button>
           </div>
         </form>
@@ -1057,7 +1841,7 @@ export function RecipesPage() {
       {/* Modal détail recette */}
       <Modal
         isOpen={!!selectedRecipe}
-        onClose={() => setSelectedRecipe(null)}
+        onClose={closeRecipeDetail}
         title={selectedRecipe?.title}
         size="xl"
       >
@@ -1081,6 +1865,18 @@ export function RecipesPage() {
                 {selectedRecipe.description && (
                   <p className="text-gray-600">{selectedRecipe.description}</p>
                 )}
+
+                {recipeDetail?.sourceUrl && (
+                  <a
+                    href={recipeDetail.sourceUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center text-sm text-primary-600 hover:underline"
+                  >
+                    <ExternalLink className="w-4 h-4 mr-1" />
+                    Voir la recette d'origine
+                  </a>
+                )}
               </div>
 
               <div className="space-y-4">
@@ -1108,6 +1904,18 @@ export function RecipesPage() {
                       ✨ Générée par l'IA
                     </span>
                   )}
+                  {!!selectedRecipe.allergenWarnings?.length && (
+                    <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-red-100 text-red-800">
+                      <AlertTriangle className="w-4 h-4 mr-1" />
+                      Allergènes :{" "}
+                      {allergenLabels(selectedRecipe.allergenWarnings)}
+                    </span>
+                  )}
+                  {selectedRecipe.dietCompliant === false && (
+                    <span className="px-3 py-1 rounded-full text-sm font-medium bg-amber-100 text-amber-800">
+                      🥗 Hors régime
+                    </span>
+                  )}
                 </div>
 
                 {/* Temps et portions */}
@@ -1122,11 +1930,128 @@ export function RecipesPage() {
                   </div>
                   <div className="bg-gray-50 p-3 rounded-lg">
                     <div className="font-medium text-gray-900">Portions</div>
-                    <div className="text-gray-600">
-                      {selectedRecipe.servings} personne
-                      {selectedRecipe.servings > 1 ? "s" : ""}
+                    <div className="flex items-center space-x-2 text-gray-600">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setDetailServings((servings) =>
+                            Math.max(1, servings - 1)
+                          )
+                        }
+                        disabled={detailServings <= 1}
+                        className="p-1 rounded-full border border-gray-300 hover:bg-white disabled:opacity-40"
+                        aria-label="Une portion de moins"
+                      >
+                        <Minus className="w-3 h-3" />
+                      </button>
+                      <span>
+                        {detailServings} personne
+                        {detailServings > 1 ? "s" : ""}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setDetailServings((servings) =>
+                            Math.min(100, servings + 1)
+                          )
+                        }
+                        disabled={detailServings >= 100}
+                        className="p-1 rounded-full border border-gray-300 hover:bg-white disabled:opacity-40"
+                        aria-label="Une portion de plus"
+                      >
+                        <Plus className="w-3 h-3" />
+                      </button>
                     </div>
+                    {isScaled && (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setDetailServings(selectedRecipe.servings)
+                        }
+                        className="mt-1 text-xs text-primary-600 hover:underline"
+                      >
+                        Recette pour {selectedRecipe.servings}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {/* Valeurs nutritionnelles */}
+                <div className="bg-gray-50 p-3 rounded-lg text-sm">
+                  <div className="font-medium text-gray-900 mb-2">
+                    Valeurs nutritionnelles par portion
                   </div>
+                  {isRecipeDetailLoading ? (
+                    <div className="text-gray-500">Calcul en cours...</div>
+                  ) : nutrition && nutrition.coverage.covered > 0 ? (
+                    <>
+                      <div className="grid grid-cols-5 gap-2 text-center">
+                        {[
+                          {
+                            label: "kcal",
+                            value: nutrition.perServing.calories,
+                          },
+                          {
+                            label: "Protéines",
+                            value: `${nutrition.perServing.protein} g`,
+                          },
+                          {
+                            label: "Glucides",
+                            value: `${nutrition.perServing.carbs} g`,
+                          },
+                          {
+                            label: "Lipides",
+                            value: `${nutrition.perServing.fat} g`,
+                          },
+                          {
+                            label: "Fibres",
+                            value: `${nutrition.perServing.fiber} g`,
+                          },
+                        ].map(({ label, value }) => (
+                          <div key={label}>
+                            <div className="font-semibold text-gray-900">
+                              {value}
+                            </div>
+                            <div className="text-xs text-gray-500">{label}</div>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="mt-3">
+                        <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                          <div
+                            className={`h-full ${
+                              nutrition.coverage.percent === 100
+                                ? "bg-green-500"
+                                : "bg-orange-400"
+                            }`}
+                            style={{ width: `${nutrition.coverage.percent}%` }}
+                          />
+                        </div>
+                        <div
+                          className="mt-1 text-xs text-gray-500"
+                          title={nutrition.coverage.missingIngredients
+                            .map(
+                              (missing) =>
+                                `${missing.ingredientName} : ${
+                                  missing.reason === "unit"
+                                    ? "unité non convertible en grammes"
+                                    : "pas de données"
+                                }`
+                            )
+                            .join("\n")}
+                        >
+                          Calculé sur {nutrition.coverage.covered}/
+                          {nutrition.coverage.total} ingrédients
+                          {nutrition.coverage.percent < 100 &&
+                            " : valeurs sous-estimées"}
+                        </div>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="text-gray-500">
+                      Aucune donnée nutritionnelle pour ces ingrédients
+                    </div>
+                  )}
                 </div>
 
                 {/* Actions */}
@@ -1141,10 +2066,207 @@ export function RecipesPage() {
                       ? "Retirer des favoris"
                       : "Ajouter aux favoris"}
                   </Button>
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => {
+                      setCookServings(detailServings);
+                      setJournalServings(1);
+                      setIsShoppingPanelOpen(false);
+                      setIsCookPreviewOpen(true);
+                    }}
+                  >
+                    <UtensilsCrossed className="w-4 h-4 mr-2" />
+                    J'ai cuisiné ça
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => {
+                      setShoppingServings(detailServings);
+                      setIsCookPreviewOpen(false);
+                      setIsShoppingPanelOpen(true);
+                    }}
+                  >
+                    <ShoppingCart className="w-4 h-4 mr-2" />
+                    Ajouter les manquants
+                  </Button>
                 </div>
               </div>
             </div>
 
+            {/* Aperçu de la consommation du frigo */}
+            {isCookPreviewOpen && (
+              <div className="p-4 border border-primary-200 bg-primary-50 rounded-lg space-y-4">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                  <h3 className="text-lg font-semibold text-gray-900">
+                    Ingrédients retirés du frigo
+                  </h3>
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <span>Portions cuisinées</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={cookServings}
+                      onChange={(e) =>
+                        setCookServings(
+                          Math.max(1, Number(e.target.value) || 1)
+                        )
+                      }
+                      className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    />
+                  </label>
+                  <label
+                    className="flex items-center space-x-2 text-sm text-gray-700"
+                    title="Portions notées dans votre journal nutritionnel (0 pour ne rien noter)"
+                  >
+                    <span>Portions mangées</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={journalServings}
+                      onChange={(e) =>
+                        setJournalServings(
+                          Math.max(0, Number(e.target.value) || 0)
+                        )
+                      }
+                      className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    />
+                  </label>
+                </div>
+
+                {isCookPreviewLoading && !cookPreview ? (
+                  <div className="flex justify-center py-4">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+                  </div>
+                ) : (
+                  <ul className="space-y-2">
+                    {cookPreview?.diff.map((line) => (
+                      <li
+                        key={line.ingredientId}
+                        className="flex items-center justify-between p-2 bg-white rounded-lg text-sm"
+                      >
+                        <span className="font-medium">
+                          {line.ingredientName || "Ingrédient"}
+                        </span>
+                        <span className="text-right">
+                          {line.updates.length === 0 ? (
+                            <span className="text-gray-500">
+                              Absent du frigo
+                            </span>
+                          ) : (
+                            line.updates.map((update) => (
+                              <span
+                                key={update.fridgeItemId}
+                                className={`block ${
+                                  update.deleted
+                                    ? "text-red-600"
+                                    : "text-gray-700"
+                                }`}
+                              >
+                                {update.before} → {update.after} {update.unit}
+                                {update.deleted && " (épuisé)"}
+                              </span>
+                            ))
+                          )}
+                          {line.shortfall > 0 && (
+                            <span className="block text-xs text-orange-600">
+                              Manquait {line.shortfall} {line.unit}
+                            </span>
+                          )}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="flex justify-end space-x-3">
+                  <Button
+                    variant="outline"
+                    onClick={() => setIsCookPreviewOpen(false)}
+                    disabled={cookRecipeMutation.isPending}
+                  >
+                    Annuler
+                  </Button>
+                  <Button
+                    loading={cookRecipeMutation.isPending}
+                    disabled={isCookPreviewLoading}
+                    onClick={() =>
+                      cookRecipeMutation.mutate({
+                        recipeId: selectedRecipe.id,
+                        servings: cookServings,
+                        journalServings: journalServings || undefined,
+                      })
+                    }
+                  >
+                    Mettre à jour le frigo
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {/* Ingrédients manquants vers une liste de courses */}
+            {isShoppingPanelOpen && (
+              <div className="p-4 border border-primary-200 bg-primary-50 rounded-lg space-y-4">
+                <h3 className="text-lg font-semibold text-gray-900">
+                  Ajouter les ingrédients manquants
+                </h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <label className="text-sm text-gray-700 space-y-1">
+                    <span className="block">Liste de courses</span>
+                    <select
+                      value={targetListId}
+                      onChange={(e) => setTargetListId(e.target.value)}
+                      className="w-full px-2 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    >
+                      <option value="">Nouvelle liste</option>
+                      {shoppingLists.map((list) => (
+                        <option key={list.id} value={list.id}>
+                          {list.name}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="text-sm text-gray-700 space-y-1">
+                    <span className="block">Portions</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={shoppingServings}
+                      onChange={(e) =>
+                        setShoppingServings(
+                          Math.max(1, Number(e.target.value) || 1)
+                        )
+                      }
+                      className="w-full px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    />
+                  </label>
+                </div>
+                <div className="flex justify-end space-x-3">
+                  <Button
+                    variant="outline"
+                    onClick={() => setIsShoppingPanelOpen(false)}
+                    disabled={addMissingMutation.isPending}
+                  >
+                    Annuler
+                  </Button>
+                  <Button
+                    loading={addMissingMutation.isPending}
+                    onClick={() =>
+                      addMissingMutation.mutate({
+                        recipeId: selectedRecipe.id,
+                        servings: shoppingServings,
+                        shoppingListId: targetListId || undefined,
+                      })
+                    }
+                  >
+                    Ajouter à la liste
+                  </Button>
+                </div>
+              </div>
+            )}
+
             {/* Ingrédients */}
             <div>
               <h3 className="text-lg font-semibold text-gray-900 mb-4">
@@ -1163,13 +2285,47 @@ export function RecipesPage() {
                       <span className="font-medium">
                         {ingredient.ingredient?.name || "Ingrédient"}
                       </span>
+                      {ingredient.ingredient?.allergens?.some((code) =>
+                        selectedRecipe.allergenWarnings?.includes(code)
+                      ) && (
+                        <AlertTriangle
+                          className="w-4 h-4 text-red-600"
+                          aria-label="Contient un de vos allergènes"
+                        />
+                      )}
                     </div>
-                    <div className="text-sm text-gray-600">
-                      {ingredient.quantity} {ingredient.unit}
+                    <div className="text-sm text-gray-600 text-right">
+                      <div>
+                        {scaledIngredient(ingredient.id)?.quantity ??
+                          ingredient.quantity}{" "}
+                        {scaledIngredient(ingredient.id)?.unit ??
+                          ingredient.unit}
+                      </div>
+                      {!isScaled && !!ingredient.shortfall && (
+                        <div className="text-xs text-orange-600">
+                          Manque {ingredient.shortfall} {ingredient.unit}
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))}
               </div>
+
+              {!!selectedRecipe.dietViolations?.length && (
+                <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                  <div className="font-medium mb-1">
+                    Incompatible avec votre régime :
+                  </div>
+                  <ul className="space-y-1">
+                    {selectedRecipe.dietViolations.map((violation) => (
+                      <li key={violation.ingredientId}>
+                        {violation.ingredientName} (
+                        {violation.reasons.map(dietReasonLabel).join(", ")})
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
 
             {/* Instructions */}
@@ -1189,13 +2345,50 @@ export function RecipesPage() {
               </ol>
             </div>
 
-            {deletableRecipe && (
-              <div className="flex justify-end">
+            {/* Export */}
+            <div className="flex flex-wrap items-center gap-2 pt-4 border-t border-gray-200">
+              <span className="text-sm font-medium text-gray-700 mr-1">
+                Exporter :
+              </span>
+              {EXPORT_FORMATS.map(({ format, label }) => (
+                <Button
+                  key={format}
+                  variant="outline"
+                  size="sm"
+                  loading={
+                    exportRecipeMutation.isPending &&
+                    exportRecipeMutation.variables?.format === format
+                  }
+                  disabled={exportRecipeMutation.isPending}
+                  onClick={() =>
+                    exportRecipeMutation.mutate({
+                      recipeId: selectedRecipe.id,
+                      format,
+                    })
+                  }
+                  className="flex items-center"
+                >
+                  <Download className="w-4 h-4 mr-1" />
+                  {label}
+                </Button>
+              ))}
+            </div>
+
+            {manageableRecipe && (
+              <div className="flex justify-end space-x-3">
+                <Button
+                  variant="outline"
+                  onClick={() => openEditRecipe(manageableRecipe)}
+                  className="flex items-center"
+                >
+                  <Pencil className="w-4 h-4 mr-2" />
+                  Modifier
+                </Button>
                 <Button
                   variant="danger"
                   loading={deleteRecipeMutation.isPending}
                   onClick={() =>
-                    deleteRecipeMutation.mutate(deletableRecipe.id)
+                    deleteRecipeMutation.mutate(manageableRecipe.id)
                   }
                 >
                   Supprimer cette recette
@@ -14,6 +14,12 @@ import {
   Calendar,
   Package,
   ChefHat,
+  PackageCheck,
+  Archive,
+  Share2,
+  Eye,
+  Users,
+  LogOut,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/Button";
@@ -22,13 +28,21 @@ import { Modal } from "@/components/ui/Modal";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
 import { shoppingListService } from "@/services/shoppingListService";
 import { fridgeService } from "@/services/fridgeService";
+import { useAuth } from "@/hooks/useAuth";
+import { useShoppingListEvents } from "@/hooks/useShoppingListEvents";
 import type {
   ShoppingList,
   CreateShoppingListRequest,
   AddShoppingListItemRequest,
   Ingredient,
+  ListPermission,
 } from "@/types";
 
+const PERMISSION_LABELS: Record<ListPermission, string> = {
+  view: "Lecture seule",
+  edit: "Peut modifier",
+};
+
 // Schémas de validation
 const createListSchema = z.object({
   name: z.string().min(1, "Le nom de la liste est requis"),
@@ -50,12 +64,35 @@ export function ShoppingListPage() {
   const [selectedList, setSelectedList] = useState<ShoppingList | null>(null);
   const [ingredientSearch, setIngredientSearch] = useState("");
   const [ingredientInputValue, setIngredientInputValue] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [sharingList, setSharingList] = useState<ShoppingList | null>(null);
+  const [shareEmail, setShareEmail] = useState("");
+  const [sharePermission, setSharePermission] =
+    useState<ListPermission>("edit");
   const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  // Articles ajoutés ou cochés par les autres membres, en direct
+  useShoppingListEvents(user?.id);
 
   // Récupérer les listes de courses
   const { data: shoppingLists = [], isLoading } = useQuery({
     queryKey: ["shoppingLists"],
-    queryFn: shoppingListService.getShoppingLists,
+    queryFn: () => shoppingListService.getShoppingLists(),
+  });
+
+  // Listes déjà rangées dans le frigo
+  const { data: archivedLists = [] } = useQuery({
+    queryKey: ["shoppingLists", "archived"],
+    queryFn: () => shoppingListService.getShoppingLists(true),
+    enabled: showArchived,
+  });
+
+  // Collaborateurs de la liste en cours de partage
+  const { data: shares = [] } = useQuery({
+    queryKey: ["shoppingListShares", sharingList?.id],
+    queryFn: () => shoppingListService.getShares(sharingList!.id),
+    enabled: !!sharingList,
   });
 
   // Récupérer les ingrédients pour le formulaire
@@ -87,6 +124,30 @@ export function ShoppingListPage() {
     },
   });
 
+  const checkoutListMutation = useMutation({
+    mutationFn: (id: string) => shoppingListService.checkoutShoppingList(id),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["shoppingLists"] });
+      queryClient.invalidateQueries({ queryKey: ["fridgeItems"] });
+
+      const mergedCount = result.stockedItems.filter(
+        (item) => item.merged
+      ).length;
+      toast.success(
+        `${result.stockedItems.length} article(s) rangé(s) dans le frigo` +
+          (mergedCount ? ` (${mergedCount} ajouté(s) à un lot existant)` : "")
+      );
+      if (result.remainingCount > 0) {
+        toast(
+          `${result.remainingCount} article(s) non acheté(s) restent sur la liste archivée`
+        );
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error?.message || "Impossible de ranger cette liste");
+    },
+  });
+
   const addItemMutation = useMutation({
     mutationFn: ({
       listId,
@@ -130,6 +191,46 @@ export function ShoppingListPage() {
     },
   });
 
+  const shareListMutation = useMutation({
+    mutationFn: () =>
+      shoppingListService.shareList(sharingList!.id, {
+        email: shareEmail,
+        permission: sharePermission,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["shoppingListShares"] });
+      toast.success("Liste partagée !");
+      setShareEmail("");
+    },
+  });
+
+  const updateShareMutation = useMutation({
+    mutationFn: ({
+      userId,
+      permission,
+    }: {
+      userId: string;
+      permission: ListPermission;
+    }) =>
+      shoppingListService.updateSharePermission(
+        sharingList!.id,
+        userId,
+        permission
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["shoppingListShares"] });
+    },
+  });
+
+  const removeShareMutation = useMutation({
+    mutationFn: ({ listId, userId }: { listId: string; userId: string }) =>
+      shoppingListService.removeShare(listId, userId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["shoppingListShares"] });
+      queryClient.invalidateQueries({ queryKey: ["shoppingLists"] });
+    },
+  });
+
   // Formulaires
   const createListForm = useForm<CreateListForm>({
     resolver: zodResolver(createListSchema),
@@ -165,6 +266,16 @@ export function ShoppingListPage() {
     }
   };
 
+  const handleCheckoutList = (list: ShoppingList) => {
+    if (
+      confirm(
+        `Ranger les articles achetés de « ${list.name} » dans le frigo et archiver la liste ?`
+      )
+    ) {
+      checkoutListMutation.mutate(list.id);
+    }
+  };
+
   const handleAddItem = (data: AddItemForm) => {
     if (!selectedList) return;
 
@@ -182,15 +293,12 @@ export function ShoppingListPage() {
     try {
       let selected = ingredient;
 
+      // Résultat OpenFoodFacts : enregistré dans le catalogue via son code-barres
       if (ingredient.id.startsWith("off_")) {
-        const created = await fridgeService.createIngredient({
-          name: ingredient.name,
-          categoryId:
-            ingredient.category && ingredient.category.id !== "external"
-              ? ingredient.category.id
-              : undefined,
-        });
-        selected = created;
+        const result = await fridgeService.lookupBarcode(
+          ingredient.id.slice("off_".length)
+        );
+        selected = result.ingredient;
       }
 
       addItemForm.setValue("ingredientId", selected.id, {
@@ -216,6 +324,12 @@ export function ShoppingListPage() {
     toggleItemMutation.mutate({ listId, itemId, purchased: !purchased });
   };
 
+  const handleLeaveSharedList = (list: ShoppingList) => {
+    if (user && confirm(`Ne plus suivre la liste « ${list.name} » ?`)) {
+      removeShareMutation.mutate({ listId: list.id, userId: user.id });
+    }
+  };
+
   const handleDeleteItem = (listId: string, itemId: string) => {
     if (confirm("Êtes-vous sûr de vouloir supprimer cet article ?")) {
       deleteItemMutation.mutate({ listId, itemId });
@@ -335,6 +449,8 @@ export function ShoppingListPage() {
             const totalListItems = list.items.length;
             const completionRate =
               totalListItems > 0 ? (completedItems / totalListItems) * 100 : 0;
+            const isOwner = (list.access ?? "owner") === "owner";
+            const canEdit = list.access !== "view";
 
             return (
               <Card key={list.id} hover>
@@ -345,29 +461,81 @@ export function ShoppingListPage() {
                       <p className="text-sm text-gray-500">
                         Créée le{" "}
                         {new Date(list.createdAt).toLocaleDateString("fr-FR")}
+                        {list.user && ` par ${list.user.firstName}`}
                       </p>
+                      {!isOwner && (
+                        <div className="flex items-center space-x-2 mt-1">
+                          <span className="inline-flex items-center text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full">
+                            <Users className="w-3 h-3 mr-1" />
+                            Partagée avec vous
+                          </span>
+                          {!canEdit && (
+                            <span className="inline-flex items-center text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full">
+                              <Eye className="w-3 h-3 mr-1" />
+                              Lecture seule
+                            </span>
+                          )}
+                        </div>
+                      )}
                     </div>
                     <div className="flex space-x-1">
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => {
-                          setSelectedList(list);
-                          addItemForm.reset();
-                          setIngredientInputValue("");
-                          setIngredientSearch("");
-                          setIsAddItemModalOpen(true);
-                        }}
-                      >
-                        <Plus className="w-4 h-4" />
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        onClick={() => handleDeleteList(list.id)}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
+                      {isOwner && completedItems > 0 && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          title="Ranger les achats dans le frigo"
+                          onClick={() => handleCheckoutList(list)}
+                          loading={
+                            checkoutListMutation.isPending &&
+                            checkoutListMutation.variables === list.id
+                          }
+                        >
+                          <PackageCheck className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {canEdit && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => {
+                            setSelectedList(list);
+                            addItemForm.reset();
+                            setIngredientInputValue("");
+                            setIngredientSearch("");
+                            setIsAddItemModalOpen(true);
+                          }}
+                        >
+                          <Plus className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {isOwner ? (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            title="Partager la liste"
+                            onClick={() => setSharingList(list)}
+                          >
+                            <Share2 className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleDeleteList(list.id)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Ne plus suivre cette liste"
+                          onClick={() => handleLeaveSharedList(list)}
+                        >
+                          <LogOut className="w-4 h-4" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardHeader>
@@ -415,7 +583,8 @@ export function ShoppingListPage() {
                                   item.purchased
                                 )
                               }
-                              className={`w-5 h-5 rounded border-2 flex items-center justify-center transition-colors ${
+                              disabled={!canEdit}
+                              className={`w-5 h-5 rounded border-2 flex items-center justify-center transition-colors disabled:cursor-not-allowed ${
                                 item.purchased
                                   ? "bg-green-600 border-green-600 text-white"
                                   : "border-gray-300 hover:border-green-600"
@@ -446,14 +615,16 @@ export function ShoppingListPage() {
                             </div>
                           </div>
 
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            onClick={() => handleDeleteItem(list.id, item.id)}
-                            className="text-red-600 hover:text-red-700"
-                          >
-                            <X className="w-4 h-4" />
-                          </Button>
+                          {canEdit && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleDeleteItem(list.id, item.id)}
+                              className="text-red-600 hover:text-red-700"
+                            >
+                              <X className="w-4 h-4" />
+                            </Button>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -465,6 +636,52 @@ export function ShoppingListPage() {
         </div>
       )}
 
+      {/* Listes archivées */}
+      <div>
+        <Button
+          variant="ghost"
+          onClick={() => setShowArchived((value) => !value)}
+          className="flex items-center text-gray-600"
+        >
+          <Archive className="w-4 h-4 mr-2" />
+          {showArchived
+            ? "Masquer les listes archivées"
+            : "Afficher les listes archivées"}
+        </Button>
+
+        {showArchived && (
+          <div className="mt-4 space-y-2">
+            {archivedLists.length === 0 ? (
+              <p className="text-sm text-gray-500">Aucune liste archivée</p>
+            ) : (
+              archivedLists.map((list) => (
+                <div
+                  key={list.id}
+                  className="flex items-center justify-between p-3 rounded-lg border border-gray-200 bg-gray-50"
+                >
+                  <div>
+                    <div className="font-medium text-gray-900">{list.name}</div>
+                    <div className="text-sm text-gray-500">
+                      Rangée le{" "}
+                      {new Date(list.archivedAt!).toLocaleDateString("fr-FR")} •{" "}
+                      {list.items.filter((item) => item.purchased).length}/
+                      {list.items.length} article(s) acheté(s)
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDeleteList(list.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+
       {/* Modal création de liste */}
       <Modal
         isOpen={isCreateListModalOpen}
@@ -501,6 +718,113 @@ export function ShoppingListPage() {
         </form>
       </Modal>
 
+      {/* Modal partage de liste */}
+      <Modal
+        isOpen={!!sharingList}
+        onClose={() => {
+          setSharingList(null);
+          setShareEmail("");
+        }}
+        title={`Partager "${sharingList?.name}"`}
+        size="md"
+      >
+        <div className="space-y-6">
+          <p className="text-sm text-gray-600">
+            Les membres de votre foyer voient déjà cette liste. Partagez-la avec
+            d'autres personnes ayant un compte Fridge Pro.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+            <div className="md:col-span-2">
+              <Input
+                label="Email"
+                type="email"
+                placeholder="prenom@exemple.fr"
+                value={shareEmail}
+                onChange={(e) => setShareEmail(e.target.value)}
+              />
+            </div>
+            <select
+              value={sharePermission}
+              onChange={(e) =>
+                setSharePermission(e.target.value as ListPermission)
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              {Object.entries(PERMISSION_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              onClick={() => shareListMutation.mutate()}
+              disabled={!shareEmail.trim()}
+              loading={shareListMutation.isPending}
+            >
+              <Share2 className="w-4 h-4 mr-2" />
+              Partager
+            </Button>
+          </div>
+
+          {shares.length > 0 && (
+            <ul className="divide-y divide-gray-100 border-t pt-2">
+              {shares.map((share) => (
+                <li
+                  key={share.id}
+                  className="flex items-center justify-between py-2"
+                >
+                  <div>
+                    <div className="font-medium text-gray-900">
+                      {share.user.firstName} {share.user.lastName}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {share.user.email}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={share.permission}
+                      onChange={(e) =>
+                        updateShareMutation.mutate({
+                          userId: share.user.id,
+                          permission: e.target.value as ListPermission,
+                        })
+                      }
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    >
+                      {Object.entries(PERMISSION_LABELS).map(
+                        ([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        )
+                      )}
+                    </select>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Retirer le partage"
+                      onClick={() =>
+                        removeShareMutation.mutate({
+                          listId: sharingList!.id,
+                          userId: share.user.id,
+                        })
+                      }
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </Modal>
+
       {/* Modal ajout d'article */}
       <Modal
         isOpen={isAddItemModalOpen}
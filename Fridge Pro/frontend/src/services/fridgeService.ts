@@ -1,9 +1,16 @@
 import api, { handleApiResponse, handleApiError } from "./api";
 import type {
   FridgeItem,
+  FridgeGroup,
   AddFridgeItemRequest,
+  ConsumeFridgeItemRequest,
+  ConsumeFridgeItemResponse,
   Ingredient,
+  Allergen,
+  BarcodeLookupResponse,
   ExtractReceiptResponse,
+  CommitReceiptRequest,
+  CommitReceiptResponse,
 } from "@/types";
 
 export const fridgeService = {
@@ -18,6 +25,17 @@ export const fridgeService = {
     }
   },
 
+  // Récupérer les lots du frigo regroupés par ingrédient
+  async getFridgeGroups(): Promise<FridgeGroup[]> {
+    try {
+      const response = await api.get("/fridge");
+      const data = handleApiResponse<{ groups: FridgeGroup[] }>(response);
+      return data.groups;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
   // Ajouter un élément au frigo
   async addFridgeItem(item: AddFridgeItemRequest): Promise<FridgeItem> {
     try {
@@ -43,6 +61,18 @@ export const fridgeService = {
     }
   },
 
+  // Consommer un ingrédient (lots qui expirent le plus tôt en premier)
+  async consumeFridgeItem(
+    payload: ConsumeFridgeItemRequest
+  ): Promise<ConsumeFridgeItemResponse> {
+    try {
+      const response = await api.post("/fridge/consume", payload);
+      return handleApiResponse<ConsumeFridgeItemResponse>(response);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
   // Supprimer un élément du frigo
   async deleteFridgeItem(id: string): Promise<void> {
     try {
@@ -77,6 +107,29 @@ export const fridgeService = {
     }
   },
 
+  // Liste des allergènes suivis
+  async getAllergens(): Promise<Allergen[]> {
+    try {
+      const response = await api.get("/ingredients/allergens");
+      const data = handleApiResponse<{ allergens: Allergen[] }>(response);
+      return data.allergens;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Résoudre un code-barres en ingrédient (créé s'il est nouveau)
+  async lookupBarcode(code: string): Promise<BarcodeLookupResponse> {
+    try {
+      const response = await api.get(
+        `/ingredients/barcode/${encodeURIComponent(code)}`
+      );
+      return handleApiResponse<BarcodeLookupResponse>(response);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
   // Créer un nouvel ingrédient
   async createIngredient(ingredient: {
     name: string;
@@ -107,4 +160,16 @@ export const fridgeService = {
       return handleApiError(error);
     }
   },
+
+  // Range dans le frigo les lignes du ticket confirmées par l'utilisateur
+  async commitReceipt(
+    request: CommitReceiptRequest
+  ): Promise<CommitReceiptResponse> {
+    try {
+      const response = await api.post("/ai/extract-receipt/commit", request);
+      return handleApiResponse<CommitReceiptResponse>(response);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
 };
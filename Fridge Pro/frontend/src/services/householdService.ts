@@ -0,0 +1,149 @@
+import api, { handleApiResponse, handleApiError } from "./api";
+import type {
+  Household,
+  HouseholdSummary,
+  HouseholdInvitation,
+  HouseholdMember,
+  HouseholdRole,
+} from "@/types";
+
+export const householdService = {
+  // Foyers dont l'utilisateur est membre
+  async getHouseholds(): Promise<HouseholdSummary[]> {
+    try {
+      const response = await api.get("/households");
+      const data = handleApiResponse<{ households: HouseholdSummary[] }>(
+        response
+      );
+      return data.households;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Foyer actif avec ses membres et invitations en attente
+  async getCurrentHousehold(): Promise<Household> {
+    try {
+      const response = await api.get("/households/current");
+      const data = handleApiResponse<{ household: Household }>(response);
+      return data.household;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  async createHousehold(name: string): Promise<Household> {
+    try {
+      const response = await api.post("/households", { name });
+      const data = handleApiResponse<{ household: Household }>(response);
+      return data.household;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  async renameHousehold(id: string, name: string): Promise<Household> {
+    try {
+      const response = await api.patch(`/households/${id}`, { name });
+      const data = handleApiResponse<{ household: Household }>(response);
+      return data.household;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Changer de foyer actif (frigo et listes affichés)
+  async activateHousehold(id: string): Promise<void> {
+    try {
+      const response = await api.post(`/households/${id}/activate`);
+      return handleApiResponse<void>(response);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  async inviteMember(
+    householdId: string,
+    payload: { email: string; role?: HouseholdRole }
+  ): Promise<HouseholdInvitation> {
+    try {
+      const response = await api.post(
+        `/households/${householdId}/invitations`,
+        payload
+      );
+      const data = handleApiResponse<{ invitation: HouseholdInvitation }>(
+        response
+      );
+      return data.invitation;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  async cancelInvitation(
+    householdId: string,
+    invitationId: string
+  ): Promise<void> {
+    try {
+      const response = await api.delete(
+        `/households/${householdId}/invitations/${invitationId}`
+      );
+      return handleApiResponse<void>(response);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Invitations reçues sur l'email du compte
+  async getMyInvitations(): Promise<HouseholdInvitation[]> {
+    try {
+      const response = await api.get("/households/invitations");
+      const data = handleApiResponse<{ invitations: HouseholdInvitation[] }>(
+        response
+      );
+      return data.invitations;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  async acceptInvitation(token: string): Promise<void> {
+    try {
+      const response = await api.post("/households/invitations/accept", {
+        token,
+      });
+      return handleApiResponse<void>(response);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  async updateMemberRole(
+    householdId: string,
+    userId: string,
+    role: HouseholdRole
+  ): Promise<HouseholdMember> {
+    try {
+      const response = await api.patch(
+        `/households/${householdId}/members/${userId}`,
+        { role }
+      );
+      const data = handleApiResponse<{ member: HouseholdMember }>(response);
+      return data.member;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Retirer un membre, ou quitter le foyer avec son propre identifiant
+  async removeMember(householdId: string, userId: string): Promise<void> {
+    try {
+      const response = await api.delete(
+        `/households/${householdId}/members/${userId}`
+      );
+      return handleApiResponse<void>(response);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+};
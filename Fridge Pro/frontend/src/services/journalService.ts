@@ -0,0 +1,61 @@
+import api, { handleApiResponse, handleApiError } from "./api";
+import type {
+  JournalResponse,
+  JournalEntry,
+  AddJournalEntryRequest,
+  NutritionGoals,
+} from "@/types";
+
+export const journalService = {
+  // Totaux quotidiens de la période (AAAA-MM-JJ, 7 derniers jours par défaut)
+  async getJournal(params?: {
+    from?: string;
+    to?: string;
+  }): Promise<JournalResponse> {
+    try {
+      const queryParams = new URLSearchParams();
+      if (params?.from) queryParams.append("from", params.from);
+      if (params?.to) queryParams.append("to", params.to);
+
+      const url = queryParams.toString()
+        ? `/journal?${queryParams}`
+        : "/journal";
+      const response = await api.get(url);
+      return handleApiResponse<JournalResponse>(response);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Noter une consommation (recette ou ingrédient)
+  async addEntry(payload: AddJournalEntryRequest): Promise<JournalEntry> {
+    try {
+      const response = await api.post("/journal", payload);
+      const data = handleApiResponse<{ entry: JournalEntry }>(response);
+      return data.entry;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Retirer une consommation
+  async deleteEntry(id: string): Promise<void> {
+    try {
+      const response = await api.delete(`/journal/${id}`);
+      return handleApiResponse<void>(response);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Mettre à jour les objectifs quotidiens
+  async updateGoals(goals: Partial<NutritionGoals>): Promise<NutritionGoals> {
+    try {
+      const response = await api.put("/journal/goals", goals);
+      const data = handleApiResponse<{ goals: NutritionGoals }>(response);
+      return data.goals;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+};
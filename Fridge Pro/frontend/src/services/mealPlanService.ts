@@ -0,0 +1,114 @@
+import api, { handleApiResponse, handleApiError } from "./api";
+import type {
+  MealPlan,
+  MealPlanEntry,
+  AddMealPlanEntryRequest,
+  GenerateShoppingListRequest,
+  GenerateShoppingListResponse,
+} from "@/types";
+
+export const mealPlanService = {
+  // Récupérer les plannings dont la semaine recoupe la période (AAAA-MM-JJ)
+  async getMealPlans(params?: {
+    from?: string;
+    to?: string;
+  }): Promise<MealPlan[]> {
+    try {
+      const queryParams = new URLSearchParams();
+      if (params?.from) queryParams.append("from", params.from);
+      if (params?.to) queryParams.append("to", params.to);
+
+      const url = queryParams.toString()
+        ? `/meal-plans?${queryParams}`
+        : "/meal-plans";
+      const response = await api.get(url);
+      const data = handleApiResponse<{ mealPlans: MealPlan[] }>(response);
+      return data.mealPlans;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Créer le planning d'une semaine
+  async createMealPlan(payload: {
+    weekStart: string;
+    name?: string;
+  }): Promise<MealPlan> {
+    try {
+      const response = await api.post("/meal-plans", payload);
+      const data = handleApiResponse<{ mealPlan: MealPlan }>(response);
+      return data.mealPlan;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Supprimer un planning
+  async deleteMealPlan(id: string): Promise<void> {
+    try {
+      const response = await api.delete(`/meal-plans/${id}`);
+      return handleApiResponse<void>(response);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Placer une recette sur un créneau
+  async addEntry(
+    mealPlanId: string,
+    entry: AddMealPlanEntryRequest
+  ): Promise<MealPlanEntry> {
+    try {
+      const response = await api.post(
+        `/meal-plans/${mealPlanId}/entries`,
+        entry
+      );
+      const data = handleApiResponse<{ entry: MealPlanEntry }>(response);
+      return data.entry;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Déplacer un créneau ou modifier ses portions
+  async updateEntry(
+    mealPlanId: string,
+    entryId: string,
+    updates: Partial<Omit<AddMealPlanEntryRequest, "recipeId">>
+  ): Promise<MealPlanEntry> {
+    try {
+      const response = await api.put(
+        `/meal-plans/${mealPlanId}/entries/${entryId}`,
+        updates
+      );
+      const data = handleApiResponse<{ entry: MealPlanEntry }>(response);
+      return data.entry;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Créer la liste de courses des repas planifiés, stock du frigo déduit
+  async generateShoppingList(
+    payload: GenerateShoppingListRequest
+  ): Promise<GenerateShoppingListResponse> {
+    try {
+      const response = await api.post("/meal-plans/shopping-list", payload);
+      return handleApiResponse<GenerateShoppingListResponse>(response);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Retirer une recette du planning
+  async deleteEntry(mealPlanId: string, entryId: string): Promise<void> {
+    try {
+      const response = await api.delete(
+        `/meal-plans/${mealPlanId}/entries/${entryId}`
+      );
+      return handleApiResponse<void>(response);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+};
@@ -0,0 +1,53 @@
+import api, { handleApiResponse, handleApiError } from "./api";
+import type {
+  AppNotification,
+  ExpiryDigest,
+  NotificationsResponse,
+} from "@/types";
+
+export const notificationService = {
+  // Récupérer les notifications (les plus récentes d'abord)
+  async getNotifications(unreadOnly = false): Promise<NotificationsResponse> {
+    try {
+      const response = await api.get(
+        unreadOnly ? "/notifications?unread=true" : "/notifications"
+      );
+      return handleApiResponse<NotificationsResponse>(response);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Récapitulatif des produits périmés ou proches de leur date limite
+  async getDigest(): Promise<ExpiryDigest> {
+    try {
+      const response = await api.get("/notifications/digest");
+      return handleApiResponse<ExpiryDigest>(response);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Marquer une notification comme lue
+  async markAsRead(id: string): Promise<AppNotification> {
+    try {
+      const response = await api.patch(`/notifications/${id}/read`);
+      const data = handleApiResponse<{ notification: AppNotification }>(
+        response
+      );
+      return data.notification;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Marquer toutes les notifications comme lues
+  async markAllAsRead(): Promise<void> {
+    try {
+      const response = await api.patch("/notifications/read-all");
+      handleApiResponse<{ updatedCount: number }>(response);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+};
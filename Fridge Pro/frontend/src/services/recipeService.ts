@@ -4,6 +4,15 @@ import type {
   CreateRecipeRequest,
   FavoriteRecipe,
   GenerateRecipeAIRequest,
+  CookRecipeRequest,
+  CookRecipeResponse,
+  MissingToShoppingListRequest,
+  MissingToShoppingListResponse,
+  SuggestionMode,
+  ImportRecipeRequest,
+  RecipeImportDraft,
+  ConfirmRecipeImportRequest,
+  RecipeExportFormat,
 } from "@/types";
 
 export const recipeService = {
@@ -13,6 +22,8 @@ export const recipeService = {
     difficulty?: string;
     makeable?: boolean;
     favorites?: boolean;
+    excludeAllergens?: boolean;
+    matchDiet?: boolean;
   }): Promise<Recipe[]> {
     try {
       const queryParams = new URLSearchParams();
@@ -21,6 +32,9 @@ export const recipeService = {
         queryParams.append("difficulty", params.difficulty);
       if (params?.makeable) queryParams.append("makeable", "true");
       if (params?.favorites) queryParams.append("favorites", "true");
+      if (params?.excludeAllergens)
+        queryParams.append("excludeAllergens", "true");
+      if (params?.matchDiet) queryParams.append("matchDiet", "true");
 
       const url = queryParams.toString()
         ? `/recipes?${queryParams}`
@@ -33,10 +47,12 @@ export const recipeService = {
     }
   },
 
-  // Récupérer une recette par ID
-  async getRecipe(id: string): Promise<Recipe> {
+  // Récupérer une recette par ID, quantités recalculées pour `servings` portions
+  async getRecipe(id: string, servings?: number): Promise<Recipe> {
     try {
-      const response = await api.get(`/recipes/${id}`);
+      const response = await api.get(`/recipes/${id}`, {
+        params: servings ? { servings } : undefined,
+      });
       const data = handleApiResponse<{ recipe: Recipe }>(response);
       return data.recipe;
     } catch (error) {
@@ -55,6 +71,48 @@ export const recipeService = {
     }
   },
 
+  // Analyser une page de recette (URL ou HTML) sans l'enregistrer
+  async importRecipe(payload: ImportRecipeRequest): Promise<RecipeImportDraft> {
+    try {
+      const response = await api.post("/recipes/import", payload);
+      const data = handleApiResponse<{ draft: RecipeImportDraft }>(response);
+      return data.draft;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Enregistrer le brouillon d'import relu
+  async confirmImport(payload: ConfirmRecipeImportRequest): Promise<Recipe> {
+    try {
+      const response = await api.post("/recipes/import/confirm", payload);
+      const data = handleApiResponse<{ recipe: Recipe }>(response);
+      return data.recipe;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Télécharger une recette (JSON-LD, Markdown ou PDF)
+  async exportRecipe(
+    id: string,
+    format: RecipeExportFormat
+  ): Promise<{ blob: Blob; filename: string }> {
+    try {
+      const response = await api.get(`/recipes/${id}/export`, {
+        params: { format },
+        responseType: "blob",
+      });
+      const filename =
+        /filename="([^"]+)"/.exec(
+          response.headers["content-disposition"] ?? ""
+        )?.[1] ?? `recette.${format === "markdown" ? "md" : format}`;
+      return { blob: response.data, filename };
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
   // Mettre à jour une recette
   async updateRecipe(
     id: string,
@@ -80,9 +138,11 @@ export const recipeService = {
   },
 
   // Récupérer les recettes suggérées basées sur les ingrédients disponibles
-  async getSuggestedRecipes(): Promise<Recipe[]> {
+  async getSuggestedRecipes(
+    mode: SuggestionMode = "coverage"
+  ): Promise<Recipe[]> {
     try {
-      const response = await api.get("/recipes/suggestions");
+      const response = await api.get(`/recipes/suggestions?mode=${mode}`);
       const data = handleApiResponse<{ suggestions: Recipe[] }>(response);
       return data.suggestions;
     } catch (error) {
@@ -123,6 +183,35 @@ export const recipeService = {
     }
   },
 
+  // Déduire du frigo les ingrédients d'une recette cuisinée (ou prévisualiser)
+  async cookRecipe(
+    recipeId: string,
+    payload: CookRecipeRequest
+  ): Promise<CookRecipeResponse> {
+    try {
+      const response = await api.post(`/recipes/${recipeId}/cook`, payload);
+      return handleApiResponse<CookRecipeResponse>(response);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Ajouter à une liste de courses les ingrédients absents du frigo
+  async addMissingToShoppingList(
+    recipeId: string,
+    payload: MissingToShoppingListRequest
+  ): Promise<MissingToShoppingListResponse> {
+    try {
+      const response = await api.post(
+        `/recipes/${recipeId}/missing-to-shopping-list`,
+        payload
+      );
+      return handleApiResponse<MissingToShoppingListResponse>(response);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
   async generateRecipeWithAI(
     payload: GenerateRecipeAIRequest
   ): Promise<Recipe> {
@@ -4,13 +4,19 @@ import type {
   CreateShoppingListRequest,
   AddShoppingListItemRequest,
   ShoppingListItem,
+  CheckoutShoppingListRequest,
+  CheckoutShoppingListResponse,
+  ShoppingListShare,
+  ListPermission,
 } from "@/types";
 
 export const shoppingListService = {
-  // Récupérer toutes les listes de courses
-  async getShoppingLists(): Promise<ShoppingList[]> {
+  // Récupérer les listes de courses actives (ou archivées)
+  async getShoppingLists(archived = false): Promise<ShoppingList[]> {
     try {
-      const response = await api.get("/shopping-lists");
+      const response = await api.get(
+        `/shopping-lists${archived ? "?archived=true" : ""}`
+      );
       const data = handleApiResponse<{ shoppingLists: ShoppingList[] }>(
         response
       );
@@ -56,6 +62,22 @@ export const shoppingListService = {
     }
   },
 
+  // Ranger les articles achetés dans le frigo et archiver la liste
+  async checkoutShoppingList(
+    id: string,
+    payload: CheckoutShoppingListRequest = {}
+  ): Promise<CheckoutShoppingListResponse> {
+    try {
+      const response = await api.post(
+        `/shopping-lists/${id}/checkout`,
+        payload
+      );
+      return handleApiResponse<CheckoutShoppingListResponse>(response);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
   // Ajouter un élément à une liste de courses
   async addItemToShoppingList(
     listId: string,
@@ -133,4 +155,60 @@ export const shoppingListService = {
       return handleApiError(error);
     }
   },
+
+  // Collaborateurs d'une liste du foyer
+  async getShares(listId: string): Promise<ShoppingListShare[]> {
+    try {
+      const response = await api.get(`/shopping-lists/${listId}/shares`);
+      const data = handleApiResponse<{ shares: ShoppingListShare[] }>(response);
+      return data.shares;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Partager une liste avec un utilisateur (par email)
+  async shareList(
+    listId: string,
+    payload: { email: string; permission: ListPermission }
+  ): Promise<ShoppingListShare> {
+    try {
+      const response = await api.post(
+        `/shopping-lists/${listId}/shares`,
+        payload
+      );
+      const data = handleApiResponse<{ share: ShoppingListShare }>(response);
+      return data.share;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  async updateSharePermission(
+    listId: string,
+    userId: string,
+    permission: ListPermission
+  ): Promise<void> {
+    try {
+      const response = await api.patch(
+        `/shopping-lists/${listId}/shares/${userId}`,
+        { permission }
+      );
+      return handleApiResponse<void>(response);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Retirer un collaborateur, ou ne plus suivre une liste partagée (son propre id)
+  async removeShare(listId: string, userId: string): Promise<void> {
+    try {
+      const response = await api.delete(
+        `/shopping-lists/${listId}/shares/${userId}`
+      );
+      return handleApiResponse<void>(response);
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
 };
@@ -1,11 +1,15 @@
 import api, { handleApiResponse, handleApiError } from "./api";
-import type { User } from "@/types";
+import type { User, DietaryProfile, AccountImportReport } from "@/types";
 
 interface UpdateProfileRequest {
   firstName: string;
   lastName: string;
   email: string;
   geminiApiKey?: string | null;
+  expiryAlertDays?: number;
+  allergens?: string[];
+  dietaryProfiles?: string[];
+  dietExclusions?: string[];
 }
 
 export const userService = {
@@ -32,5 +36,43 @@ export const userService = {
       return handleApiError(error);
     }
   },
-};
 
+  // Régimes alimentaires proposés
+  async getDietaryProfiles(): Promise<DietaryProfile[]> {
+    try {
+      const response = await api.get("/users/dietary-profiles");
+      const data = handleApiResponse<{ dietaryProfiles: DietaryProfile[] }>(
+        response
+      );
+      return data.dietaryProfiles;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  // Archive des données du compte (frigo, recettes, favoris, listes)
+  async exportAccount(): Promise<{ blob: Blob; filename: string }> {
+    try {
+      const response = await api.get("/users/me/export", {
+        responseType: "blob",
+      });
+      const filename =
+        /filename="([^"]+)"/.exec(
+          response.headers["content-disposition"] ?? ""
+        )?.[1] ?? "fridge-pro-export.json";
+      return { blob: response.data, filename };
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+
+  async importAccount(archive: unknown): Promise<AccountImportReport> {
+    try {
+      const response = await api.post("/users/me/import", archive);
+      const data = handleApiResponse<{ report: AccountImportReport }>(response);
+      return data.report;
+    } catch (error) {
+      return handleApiError(error);
+    }
+  },
+};
@@ -5,10 +5,21 @@ export interface User {
   firstName: string;
   lastName: string;
   geminiApiKey?: string | null;
+  expiryAlertDays?: number;
+  allergens?: string[];
+  dietaryProfiles?: string[];
+  dietExclusions?: string[];
+  activeHousehold?: ActiveHousehold;
   createdAt: string;
   updatedAt: string;
 }
 
+// Régime alimentaire proposé dans le profil
+export interface DietaryProfile {
+  code: string;
+  label: string;
+}
+
 export interface LoginRequest {
   email: string;
   password: string;
@@ -32,6 +43,7 @@ export interface Category {
   name: string;
   color: string;
   icon: string;
+  defaultExpiryDays?: number | null;
 }
 
 export interface Ingredient {
@@ -43,30 +55,118 @@ export interface Ingredient {
   carbs?: number;
   fat?: number;
   fiber?: number;
+  density?: number;
+  pieceWeight?: number;
+  allergens?: string[];
   category?: Category;
 }
 
+// Allergène à déclaration obligatoire (code OpenFoodFacts + libellé)
+export interface Allergen {
+  code: string;
+  label: string;
+}
+
+// Produit identifié par son code-barres
+export interface ScannedProduct {
+  barcode: string;
+  name: string;
+  brand: string | null;
+  image: string | null;
+  allergens: string[];
+  packageQuantity: number | null;
+  packageUnit: string | null;
+}
+
+export interface BarcodeLookupResponse {
+  ingredient: Ingredient;
+  created: boolean;
+  product: ScannedProduct;
+}
+
 // Types frigo
 export interface FridgeItem {
   id: string;
   userId: string;
+  householdId?: string | null;
   ingredientId: string;
   quantity: number;
   unit: string;
   expiryDate?: string;
   addedDate: string;
+  location?: string;
   notes?: string;
   ingredient: Ingredient;
 }
 
+// Lots d'un même ingrédient, triés du premier à consommer au dernier
+export interface FridgeGroup {
+  ingredientId: string;
+  ingredient: Ingredient;
+  totalQuantity: number;
+  unit: string;
+  nextExpiryDate?: string;
+  lots: FridgeItem[];
+}
+
 export interface AddFridgeItemRequest {
   ingredientId: string;
   quantity: number;
   unit: string;
   expiryDate?: string;
+  location?: string;
   notes?: string;
 }
 
+export interface ConsumeFridgeItemRequest {
+  ingredientId: string;
+  quantity: number;
+  unit: string;
+}
+
+export interface ConsumeFridgeItemResponse {
+  ingredientId: string;
+  ingredientName: string;
+  requiredQuantity: number;
+  unit: string;
+  consumedQuantity: number;
+  shortfall: number;
+  updates: CookStockUpdate[];
+}
+
+// Types notifications
+export type NotificationType =
+  | "expiring_soon"
+  | "expired"
+  | "household_invitation";
+
+export interface AppNotification {
+  id: string;
+  userId: string;
+  fridgeItemId?: string | null;
+  type: NotificationType;
+  title: string;
+  message: string;
+  expiryDate?: string | null;
+  read: boolean;
+  createdAt: string;
+}
+
+export interface NotificationsResponse {
+  notifications: AppNotification[];
+  unreadCount: number;
+}
+
+export interface ExpiringFridgeItem extends FridgeItem {
+  daysLeft: number;
+}
+
+export interface ExpiryDigest {
+  windowDays: number;
+  expired: ExpiringFridgeItem[];
+  expiringSoon: ExpiringFridgeItem[];
+}
+
 // Types recettes
 export interface Recipe {
   id: string;
@@ -76,9 +176,11 @@ export interface Recipe {
   prepTime?: number;
   cookTime?: number;
   servings: number;
+  baseServings?: number; // portions d'origine quand le détail est recalculé
   difficulty: "easy" | "medium" | "hard";
   imageUrl?: string;
   source?: string;
+  sourceUrl?: string; // page d'origine d'une recette importée
   createdById?: string;
   createdAt: string;
   updatedAt: string;
@@ -88,6 +190,57 @@ export interface Recipe {
   missingIngredients?: number;
   compatibilityScore?: number;
   missingIngredientsCount?: number;
+  antiWasteScore?: number;
+  rescuedItems?: RescuedItem[];
+  allergens?: string[];
+  allergenWarnings?: string[]; // allergènes du profil présents dans la recette
+  dietCompliant?: boolean;
+  dietViolations?: DietViolation[];
+  nutrition?: RecipeNutrition; // fourni par le détail d'une recette
+}
+
+export interface NutritionValues {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+}
+
+// Valeurs nutritionnelles calculées depuis les fiches ingrédients
+export interface RecipeNutrition {
+  total: NutritionValues;
+  perServing: NutritionValues;
+  coverage: {
+    covered: number;
+    total: number;
+    percent: number;
+    missingIngredients: {
+      ingredientId: string;
+      ingredientName: string;
+      reason: "no_data" | "unit"; // pas de fiche, ou unité non convertible en grammes
+    }[];
+  };
+}
+
+// Ingrédient d'une recette contraire au régime ou aux exclusions du profil
+export interface DietViolation {
+  ingredientId: string;
+  ingredientName: string;
+  reasons: string[]; // codes de régime, ou "exclusion"
+}
+
+export type SuggestionMode = "coverage" | "antiwaste";
+
+// Lot proche de sa date limite qu'une recette suggérée permet d'écouler
+export interface RescuedItem {
+  fridgeItemId: string;
+  ingredientId: string;
+  ingredientName?: string;
+  quantity: number;
+  unit: string;
+  expiryDate: string;
+  daysLeft: number;
 }
 
 export interface RecipeIngredient {
@@ -98,6 +251,11 @@ export interface RecipeIngredient {
   unit: string;
   notes?: string;
   ingredient: Ingredient;
+  // Disponibilité calculée par les suggestions (dans l'unité de la recette)
+  available?: boolean;
+  availableQuantity?: number;
+  shortfall?: number;
+  coverage?: number;
 }
 
 export interface CreateRecipeRequest {
@@ -116,6 +274,117 @@ export interface CreateRecipeRequest {
   }[];
 }
 
+export type IngredientMatchConfidence = "exact" | "partial" | "none";
+
+// Ligne d'ingrédient extraite d'une page, rapprochée du catalogue
+export interface ImportedIngredientLine {
+  raw: string;
+  name: string;
+  quantity: number | null;
+  unit: string;
+  notes: string | null;
+  ingredientId: string | null;
+  matchedName: string | null;
+  confidence: IngredientMatchConfidence;
+}
+
+export interface RecipeImportDraft {
+  title: string;
+  description: string | null;
+  servings: number | null;
+  prepTime: number | null;
+  cookTime: number | null;
+  imageUrl: string | null;
+  instructions: string[];
+  ingredients: ImportedIngredientLine[];
+  sourceUrl: string | null;
+}
+
+export type ArchiveSection =
+  | "fridgeItems"
+  | "recipes"
+  | "favorites"
+  | "shoppingLists";
+
+// Bilan de restauration d'une archive de compte
+export interface AccountImportReport {
+  imported: Record<ArchiveSection, number>;
+  ingredientsCreated: number;
+  preferencesUpdated: string[];
+  conflicts: {
+    section: ArchiveSection;
+    name: string;
+    reason: "already_exists" | "recipe_not_found";
+    message: string;
+  }[];
+}
+
+export type RecipeExportFormat = "jsonld" | "markdown" | "pdf";
+
+export interface ImportRecipeRequest {
+  url?: string;
+  html?: string;
+}
+
+export interface ConfirmRecipeImportRequest
+  extends Omit<CreateRecipeRequest, "ingredients"> {
+  imageUrl?: string;
+  sourceUrl?: string;
+  ingredients: {
+    ingredientId?: string;
+    name?: string; // ingrédient à créer s'il n'est pas associé
+    quantity: number;
+    unit: string;
+    notes?: string;
+  }[];
+}
+
+export interface CookRecipeRequest {
+  servings?: number;
+  dryRun?: boolean;
+  journalServings?: number; // portions mangées, notées dans le journal
+}
+
+export interface CookStockUpdate {
+  fridgeItemId: string;
+  unit: string;
+  before: number;
+  after: number;
+  deleted: boolean;
+}
+
+export interface CookDiffLine {
+  ingredientId: string;
+  ingredientName?: string;
+  requiredQuantity: number;
+  unit: string;
+  consumedQuantity: number;
+  shortfall: number;
+  updates: CookStockUpdate[];
+}
+
+export interface CookRecipeResponse {
+  recipeId: string;
+  servings: number;
+  dryRun: boolean;
+  diff: CookDiffLine[];
+  updatedCount: number;
+  removedCount: number;
+  journalEntry?: JournalEntry | null;
+}
+
+export interface MissingToShoppingListRequest {
+  shoppingListId?: string;
+  listName?: string;
+  servings?: number;
+}
+
+export interface MissingToShoppingListResponse {
+  shoppingList: ShoppingList | null;
+  addedCount: number;
+  skippedItems: { name: string; reason: string }[];
+}
+
 // Types favoris
 export interface FavoriteRecipe {
   id: string;
@@ -126,13 +395,48 @@ export interface FavoriteRecipe {
 }
 
 // Types listes de courses
+export type ListPermission = "view" | "edit";
+
+// owner : liste du foyer actif ; view/edit : liste partagée par un autre foyer
+export type ListAccess = ListPermission | "owner";
+
 export interface ShoppingList {
   id: string;
   userId: string;
+  householdId?: string | null;
   name: string;
+  archivedAt?: string | null;
   createdAt: string;
   updatedAt: string;
   items: ShoppingListItem[];
+  access?: ListAccess;
+  user?: Pick<User, "firstName" | "lastName">; // créateur de la liste
+}
+
+export interface ShoppingListShare {
+  id: string;
+  permission: ListPermission;
+  createdAt: string;
+  user: Pick<User, "id" | "email" | "firstName" | "lastName">;
+}
+
+// Événement reçu sur le flux temps réel des listes
+export interface ShoppingListEvent {
+  type:
+    | "list_created"
+    | "list_updated"
+    | "list_deleted"
+    | "item_added"
+    | "item_updated"
+    | "item_removed"
+    | "share_added"
+    | "share_removed";
+  listId: string;
+  householdId: string | null;
+  item?: ShoppingListItem;
+  itemId?: string;
+  targetUserId?: string;
+  actor: { id: string; firstName: string };
 }
 
 export interface ShoppingListItem {
@@ -157,14 +461,188 @@ export interface AddShoppingListItemRequest {
   notes?: string;
 }
 
+export interface CheckoutShoppingListRequest {
+  location?: string;
+  useCategoryExpiry?: boolean;
+}
+
+export interface StockedShoppingItem {
+  shoppingListItemId: string;
+  quantity: number;
+  unit: string;
+  merged: boolean; // true si ajouté à un lot existant
+  fridgeItem: FridgeItem;
+}
+
+export interface CheckoutShoppingListResponse {
+  shoppingList: ShoppingList;
+  stockedItems: StockedShoppingItem[];
+  remainingCount: number;
+}
+
+// Types planning de repas
+export type MealSlot = "breakfast" | "lunch" | "dinner" | "snack";
+
+export interface MealPlanEntry {
+  id: string;
+  mealPlanId: string;
+  recipeId: string;
+  date: string;
+  slot: MealSlot;
+  servings: number;
+  notes?: string;
+  createdAt: string;
+  recipe: Pick<
+    Recipe,
+    | "id"
+    | "title"
+    | "imageUrl"
+    | "prepTime"
+    | "cookTime"
+    | "servings"
+    | "difficulty"
+  >;
+}
+
+export interface MealPlan {
+  id: string;
+  userId: string;
+  weekStart: string;
+  name?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  entries: MealPlanEntry[];
+}
+
+export interface AddMealPlanEntryRequest {
+  recipeId: string;
+  date: string;
+  slot: MealSlot;
+  servings?: number;
+  notes?: string;
+}
+
+export interface GenerateShoppingListRequest {
+  from: string;
+  to: string;
+  name?: string;
+}
+
+export interface GenerateShoppingListResponse {
+  shoppingList: ShoppingList | null;
+  entriesCount: number;
+  skippedItems: { name: string; reason: string }[];
+}
+
+// Types journal nutritionnel
+export interface JournalEntry extends NutritionValues {
+  id: string;
+  date: string;
+  label: string;
+  recipeId?: string | null;
+  ingredientId?: string | null;
+  servings?: number | null;
+  quantity?: number | null;
+  unit?: string | null;
+  coverage: number; // % des ingrédients dont les valeurs sont connues
+  createdAt: string;
+}
+
+export interface JournalDay {
+  date: string;
+  totals: NutritionValues;
+  complete: boolean;
+  entries: JournalEntry[];
+}
+
+// Objectifs quotidiens (null = pas d'objectif)
+export type NutritionGoals = {
+  [Key in keyof NutritionValues]: number | null;
+};
+
+export interface JournalResponse {
+  from: string;
+  to: string;
+  goals: NutritionGoals;
+  days: JournalDay[];
+}
+
+export interface AddJournalEntryRequest {
+  date?: string;
+  recipeId?: string;
+  servings?: number;
+  ingredientId?: string;
+  quantity?: number;
+  unit?: string;
+}
+
+// Types foyers
+export type HouseholdRole = "owner" | "member";
+
+export interface ActiveHousehold {
+  id: string;
+  name: string;
+  role: HouseholdRole;
+}
+
+export interface HouseholdSummary extends ActiveHousehold {
+  memberCount: number;
+  active: boolean;
+}
+
+export interface HouseholdMember {
+  id: string;
+  role: HouseholdRole;
+  joinedAt: string;
+  user: Pick<User, "id" | "email" | "firstName" | "lastName">;
+}
+
+export interface HouseholdInvitation {
+  id: string;
+  email: string;
+  role: HouseholdRole;
+  expiresAt: string;
+  createdAt: string;
+  invitedBy?: Pick<User, "firstName" | "lastName">;
+  // Présents pour les invitations reçues et à la création
+  token?: string;
+  household?: { id: string; name: string };
+}
+
+export interface Household extends ActiveHousehold {
+  createdAt: string;
+  updatedAt: string;
+  members: HouseholdMember[];
+  invitations: HouseholdInvitation[];
+}
+
 // Types IA
 export interface ExtractReceiptRequest {
   image: File;
 }
 
+// Brouillon d'un ticket analysé : rien n'est encore rangé dans le frigo
 export interface ExtractReceiptResponse {
-  items: FridgeItem[];
+  lines: ImportedIngredientLine[];
+  message: string;
+}
+
+export interface CommitReceiptRequest {
+  lines: {
+    ingredientId?: string;
+    name?: string; // ingrédient créé s'il n'est pas associé
+    quantity: number;
+    unit: string;
+    expiryDate?: string;
+    location?: string;
+    notes?: string;
+  }[];
+}
+
+export interface CommitReceiptResponse {
+  items: (FridgeItem & { merged: boolean })[];
   addedCount: number;
+  ingredientsCreated: number;
   message: string;
 }
 